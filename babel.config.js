@@ -0,0 +1,17 @@
+module.exports = function (api) {
+  api.cache(true);
+  return {
+    // The Worklets plugin is added below with bundle mode turned on
+    presets: [['babel-preset-expo', { worklets: false }]],
+    plugins: [
+      [
+        'react-native-worklets/plugin',
+        {
+          // Lets the feed worker runtime import the decoder and mappers
+          bundleMode: true,
+          workletizableModules: ['src/data/mta/worker'],
+        },
+      ],
+    ],
+  };
+};
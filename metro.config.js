@@ -0,0 +1,10 @@
+const { getDefaultConfig } = require('expo/metro-config');
+const { bundleModeMetroConfig } = require('react-native-worklets/bundleMode');
+
+const config = getDefaultConfig(__dirname);
+
+// Worklets bundle mode: the feed worker runtime loads its own copy of the bundle
+config.serializer = { ...config.serializer, ...bundleModeMetroConfig.serializer };
+config.resolver = { ...config.resolver, ...bundleModeMetroConfig.resolver };
+
+module.exports = config;
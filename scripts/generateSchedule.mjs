@@ -0,0 +1,406 @@
+#!/usr/bin/env node
+/**
+ * Compiles the NYCT static GTFS (trips, stop_times, calendar) into a
+ * compact schedule index the app uses to measure real-time lateness.
+ *
+ * The index is split by route: `subwaySchedule.ts` holds the calendars
+ * and stop IDs, and each route's runs go to `scheduleData/<route>.json`,
+ * which the app only parses the first time it needs that route.
+ *
+ * Usage:
+ *   node scripts/generateSchedule.mjs                 # download the current feed
+ *   node scripts/generateSchedule.mjs path/to/gtfs    # use an extracted feed directory
+ *   node scripts/generateSchedule.mjs gtfs_subway.zip # use a downloaded zip
+ */
+
+import { execFileSync } from 'child_process';
+import {
+  createReadStream,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { resolve, dirname, join } from 'path';
+import { createInterface } from 'readline';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const SRC_DATA = resolve(__dirname, '..', 'src', 'data', 'mta');
+const SHARD_DIR = join(SRC_DATA, 'scheduleData');
+
+const GTFS_URL = 'https://rrgtfsfeeds.s3.amazonaws.com/gtfs_subway.zip';
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// ── helpers ──────────────────────────────────────────────────────────
+
+/** Split one CSV line, honouring double-quoted fields. */
+function splitCsv(line) {
+  const out = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { out.push(field); field = ''; }
+    else field += ch;
+  }
+  out.push(field);
+  return out;
+}
+
+/**
+ * Streams a GTFS table row by row as objects keyed by header name —
+ * stop_times.txt is far too large to read in one go.
+ */
+async function* readTable(dir, name) {
+  const path = join(dir, name);
+  if (!existsSync(path)) return;
+  const lines = createInterface({ input: createReadStream(path), crlfDelay: Infinity });
+  let header = null;
+  for await (const raw of lines) {
+    const line = raw.replace(/^\uFEFF/, '');
+    if (!line.trim()) continue;
+    const cells = splitCsv(line);
+    if (!header) { header = cells.map((c) => c.trim()); continue; }
+    const row = {};
+    header.forEach((key, i) => { row[key] = cells[i] ?? ''; });
+    yield row;
+  }
+}
+
+/** "25:14:30" → 90870 (GTFS times run past midnight for late trips). */
+function parseTime(raw) {
+  const [h, m, s] = raw.trim().split(':').map(Number);
+  return h * 3600 + m * 60 + (s || 0);
+}
+
+/**
+ * The part of a static trip ID the real-time feeds use: origin time,
+ * route and direction.
+ *
+ * @example
+ * realtimeTripKey('AFA25GEN-1092-Weekday-00_000650_1..N03R') // → '000650_1..N'
+ */
+function realtimeTripKey(tripId) {
+  const match = tripId.match(/(\d{6}_[A-Z0-9]+\.+[NS])/i);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/** The route in a trip key, e.g. "1" in "000650_1..N" — W runs carry "N", Z runs "J". */
+function tripKeyRoute(key) {
+  return key.match(/_([A-Z0-9]+)\./i)[1].toUpperCase();
+}
+
+/** Index of `value` in `list`, appending it the first time it's seen. */
+function intern(list, lookup, value, id = value) {
+  if (!lookup.has(id)) {
+    lookup.set(id, list.length);
+    list.push(value);
+  }
+  return lookup.get(id);
+}
+
+// ── locate feed ─────────────────────────────────────────────────────
+
+function unzip(zipPath) {
+  const dir = mkdtempSync(join(tmpdir(), 'gtfs-subway-'));
+  execFileSync('unzip', ['-q', '-o', zipPath, '-d', dir]);
+  return dir;
+}
+
+async function prepareFeed(arg) {
+  if (arg && statSync(arg).isDirectory()) return { dir: resolve(arg), cleanup: () => {} };
+
+  let zipPath = arg && resolve(arg);
+  let downloaded = null;
+  if (!zipPath) {
+    console.log('⬇  Downloading NYCT static GTFS …');
+    const res = await fetch(GTFS_URL);
+    if (!res.ok) throw new Error(`GTFS fetch failed: ${res.status}`);
+    downloaded = mkdtempSync(join(tmpdir(), 'gtfs-zip-'));
+    zipPath = join(downloaded, 'gtfs_subway.zip');
+    writeFileSync(zipPath, Buffer.from(await res.arrayBuffer()));
+  }
+
+  const dir = unzip(zipPath);
+  return {
+    dir,
+    cleanup: () => {
+      rmSync(dir, { recursive: true, force: true });
+      if (downloaded) rmSync(downloaded, { recursive: true, force: true });
+    },
+  };
+}
+
+// ── parse tables ────────────────────────────────────────────────────
+
+async function readServices(dir) {
+  /** @type {Map<string, {days: number, start: number, end: number, added: number[], removed: number[]}>} */
+  const services = new Map();
+  const serviceOf = (id) => {
+    if (!services.has(id)) services.set(id, { days: 0, start: 0, end: 0, added: [], removed: [] });
+    return services.get(id);
+  };
+
+  for await (const row of readTable(dir, 'calendar.txt')) {
+    const service = serviceOf(row.service_id);
+    service.days = WEEKDAYS.reduce((mask, day, bit) => (row[day] === '1' ? mask | (1 << bit) : mask), 0);
+    service.start = Number(row.start_date);
+    service.end = Number(row.end_date);
+  }
+  for await (const row of readTable(dir, 'calendar_dates.txt')) {
+    const service = serviceOf(row.service_id);
+    const date = Number(row.date);
+    if (row.exception_type === '1') service.added.push(date);
+    else if (row.exception_type === '2') service.removed.push(date);
+  }
+
+  console.log(`   ✓ ${services.size} service calendar(s)`);
+  return services;
+}
+
+async function readTrips(dir) {
+  /** @type {Map<string, {key: string, routeId: string, serviceId: string}>} static trip ID → join key */
+  const trips = new Map();
+  let skipped = 0;
+  for await (const row of readTable(dir, 'trips.txt')) {
+    const key = realtimeTripKey(row.trip_id);
+    if (!key) { skipped++; continue; }
+    trips.set(row.trip_id, { key, routeId: row.route_id.toUpperCase(), serviceId: row.service_id });
+  }
+  console.log(`   ✓ ${trips.size} trip(s)${skipped ? `, ${skipped} without a real-time ID` : ''}`);
+  return trips;
+}
+
+async function readStopTimes(dir, trips) {
+  /** @type {Map<string, Array<[sequence: number, stopId: string, time: number]>>} */
+  const stopTimes = new Map();
+  let count = 0;
+  for await (const row of readTable(dir, 'stop_times.txt')) {
+    if (!trips.has(row.trip_id)) continue;
+    const time = parseTime(row.arrival_time || row.departure_time);
+    if (!stopTimes.has(row.trip_id)) stopTimes.set(row.trip_id, []);
+    stopTimes.get(row.trip_id).push([Number(row.stop_sequence), row.stop_id, time]);
+    count++;
+  }
+  console.log(`   ✓ ${count} stop time(s)`);
+  return stopTimes;
+}
+
+// ── build index ─────────────────────────────────────────────────────
+
+/**
+ * One shard per route.  Within it, shared stop sequences ("patterns")
+ * and running times ("profiles") are stored once; each scheduled run
+ * is `[service, pattern, profile, firstTime]` with `firstTime` in
+ * seconds after the service day's midnight.
+ */
+function buildIndex(services, trips, stopTimes) {
+  const serviceIds = [...services.keys()];
+  const serviceIndex = new Map(serviceIds.map((id, i) => [id, i]));
+
+  const stops = [];
+  const stopIndex = new Map();
+  /** @type {Map<string, {patterns: number[][], patternIndex: Map, profiles: number[][], profileIndex: Map, trips: Record<string, number[][]>}>} */
+  const routes = new Map();
+  /** @type {Map<string, Set<string>>} trip-key route → routes whose runs use it */
+  const keyRoutes = new Map();
+  let runs = 0;
+
+  for (const [tripId, rows] of stopTimes) {
+    const { key, routeId, serviceId } = trips.get(tripId);
+    rows.sort((a, b) => a[0] - b[0]);
+
+    if (!routes.has(routeId)) {
+      routes.set(routeId, {
+        patterns: [],
+        patternIndex: new Map(),
+        profiles: [],
+        profileIndex: new Map(),
+        trips: {},
+      });
+    }
+    const shard = routes.get(routeId);
+
+    const pattern = rows.map(([, stopId]) => intern(stops, stopIndex, stopId));
+    const times = rows.map(([, , time]) => time);
+    const profile = times.slice(1).map((time, i) => time - times[i]);
+
+    (shard.trips[key] ??= []).push([
+      serviceIndex.get(serviceId),
+      intern(shard.patterns, shard.patternIndex, pattern, pattern.join(',')),
+      intern(shard.profiles, shard.profileIndex, profile, profile.join(',')),
+      times[0],
+    ]);
+    runs++;
+
+    const keyRoute = tripKeyRoute(key);
+    if (!keyRoutes.has(keyRoute)) keyRoutes.set(keyRoute, new Set());
+    keyRoutes.get(keyRoute).add(routeId);
+  }
+
+  console.log(`   ✓ ${runs} run(s) on ${routes.size} route(s)`);
+  return {
+    services: serviceIds.map((id) => services.get(id)),
+    stops,
+    keyRoutes: Object.fromEntries(
+      [...keyRoutes].sort(([a], [b]) => a.localeCompare(b)).map(([k, set]) => [k, [...set].sort()]),
+    ),
+    routes: new Map(
+      [...routes]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([id, { patterns, profiles, trips }]) => [id, { patterns, profiles, trips }]),
+    ),
+  };
+}
+
+function readVersion(dir) {
+  const path = join(dir, 'feed_info.txt');
+  if (!existsSync(path)) return new Date().toISOString().slice(0, 10);
+  const [header, first] = readFileSync(path, 'utf-8').replace(/^\uFEFF/, '').split(/\r?\n/);
+  const cells = splitCsv(first ?? '');
+  const column = splitCsv(header).indexOf('feed_version');
+  return (column >= 0 && cells[column]) || new Date().toISOString().slice(0, 10);
+}
+
+// ── write file ──────────────────────────────────────────────────────
+
+/** A shard as JSON, one pattern, profile or trip key per line so regenerations diff well. */
+function shardJson({ patterns, profiles, trips }) {
+  const lines = (entries) => entries.join(',\n    ');
+  const tripLines = Object.keys(trips)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}: ${JSON.stringify(trips[key])}`);
+  return `{
+  "patterns": [
+    ${lines(patterns.map((p) => JSON.stringify(p)))}
+  ],
+  "profiles": [
+    ${lines(profiles.map((p) => JSON.stringify(p)))}
+  ],
+  "trips": {
+    ${lines(tripLines)}
+  }
+}
+`;
+}
+
+function writeShards(routes) {
+  mkdirSync(SHARD_DIR, { recursive: true });
+  for (const file of readdirSync(SHARD_DIR)) {
+    if (file.endsWith('.json')) rmSync(join(SHARD_DIR, file));
+  }
+
+  let bytes = 0;
+  for (const [routeId, shard] of routes) {
+    const json = shardJson(shard);
+    writeFileSync(join(SHARD_DIR, `${routeId}.json`), json, 'utf-8');
+    bytes += json.length;
+  }
+  console.log(`✏️  Wrote ${routes.size} route shard(s) to ${SHARD_DIR}  (${(bytes / 1024).toFixed(0)} KB)`);
+}
+
+function writeSchedule(version, index) {
+  const services = index.services
+    .map((s) => `    ${JSON.stringify(s)}`)
+    .join(',\n');
+  const keyRoutes = Object.entries(index.keyRoutes)
+    .map(([key, routes]) => `    ${JSON.stringify(key)}: ${JSON.stringify(routes)},`)
+    .join('\n');
+  const loaders = [...index.routes.keys()]
+    .map((id) => `    ${JSON.stringify(id)}: () => require('./scheduleData/${id}.json'),`)
+    .join('\n');
+
+  const src = `// Auto-generated – do not edit manually.
+// Source: MTA NYCT static GTFS (${GTFS_URL})
+// Regenerate with: node scripts/generateSchedule.mjs
+/* eslint-disable @typescript-eslint/no-require-imports */
+
+/** One service calendar (calendar.txt plus its calendar_dates.txt exceptions). */
+export type ScheduleService = {
+  /** Days the service runs, bit 0 = Monday … bit 6 = Sunday */
+  days: number;
+  /** First and last day of service, YYYYMMDD */
+  start: number;
+  end: number;
+  /** Extra days of service, YYYYMMDD */
+  added: number[];
+  /** Days without service, YYYYMMDD */
+  removed: number[];
+};
+
+/**
+ * One scheduled run: \`[service, pattern, profile, firstTime]\`.
+ * \`firstTime\` is seconds after midnight of the service day (past 86400
+ * for trips that run over midnight).
+ */
+export type ScheduledRun = [service: number, pattern: number, profile: number, firstTime: number];
+
+/** One route's runs, from \`scheduleData/<route>.json\`. */
+export type RouteSchedule = {
+  /** Distinct stop sequences, as indices into \`subwaySchedule.stops\` */
+  patterns: number[][];
+  /** Distinct running times: seconds from each stop of a pattern to the next */
+  profiles: number[][];
+  /** Real-time trip key (e.g. "000650_1..N") → scheduled runs sharing it */
+  trips: Record<string, ScheduledRun[]>;
+};
+
+export type SubwaySchedule = {
+  /** feed_info version of the source GTFS, or null before the first build */
+  version: string | null;
+  services: ScheduleService[];
+  /** GTFS stop IDs, referenced by index from the route patterns */
+  stops: string[];
+  /** Route in a trip key → the routes whose runs use it (W runs are keyed "N") */
+  keyRoutes: Record<string, string[]>;
+  /** Route → its runs, parsed the first time they're needed */
+  routes: Record<string, () => RouteSchedule>;
+};
+
+export const subwaySchedule: SubwaySchedule = {
+  version: ${JSON.stringify(version)},
+  services: [
+${services}
+  ],
+  stops: ${JSON.stringify(index.stops)},
+  keyRoutes: {
+${keyRoutes}
+  },
+  routes: {
+${loaders}
+  },
+};
+`;
+
+  const path = resolve(SRC_DATA, 'subwaySchedule.ts');
+  writeFileSync(path, src, 'utf-8');
+  console.log(`✏️  Wrote ${path}  (${(src.length / 1024).toFixed(0)} KB)`);
+}
+
+// ── main ────────────────────────────────────────────────────────────
+
+const feed = await prepareFeed(process.argv[2]);
+try {
+  console.log(`📖 Reading ${feed.dir} …`);
+  const services = await readServices(feed.dir);
+  const trips = await readTrips(feed.dir);
+  const stopTimes = await readStopTimes(feed.dir, trips);
+  const index = buildIndex(services, trips, stopTimes);
+  writeShards(index.routes);
+  writeSchedule(readVersion(feed.dir), index);
+  console.log('\n✅  Schedule generation complete.');
+} finally {
+  feed.cleanup();
+}
@@ -229,6 +229,12 @@ async function fetchLines() {
 
 // ── fetch subway stations ───────────────────────────────────────────
 
+/** Direction labels are blank at terminals (no service that way). */
+function directionLabel(raw) {
+  const label = raw == null ? '' : String(raw).trim();
+  return label || null;
+}
+
 async function fetchStations() {
   console.log('⬇  Downloading subway stations …');
   const res = await fetch(STATIONS_URL);
@@ -238,7 +244,8 @@ async function fetchStations() {
   // Row indices (8 metadata cols then data cols in position order):
   // 8=gtfs_stop_id, 9=station_id, 10=complex_id, 11=division,
   // 12=line, 13=stop_name, 14=borough, 15=cbd, 16=daytime_routes,
-  // 17=structure, 18=gtfs_latitude, 19=gtfs_longitude
+  // 17=structure, 18=gtfs_latitude, 19=gtfs_longitude,
+  // 20=north_direction_label, 21=south_direction_label, 22=ada
   const stations = json.data.map((row) => ({
     id: String(row[8]),           // GTFS Stop ID
     name: String(row[13]),        // Stop Name
@@ -247,6 +254,9 @@ async function fetchStations() {
     routes: String(row[16]).split(/\s+/),  // daytime routes
     borough: String(row[14]),
     ada: String(row[22]),         // 0/1/2
+    complexId: String(row[10]),   // shared by platforms in one station complex
+    northLabel: directionLabel(row[20]),  // e.g. "Manhattan", "Queens"
+    southLabel: directionLabel(row[21]),  // e.g. "Coney Island"
   }));
 
   console.log(`   ✓ ${stations.length} station(s) parsed`);
@@ -286,7 +296,10 @@ ${entries.join(',\n')}
 function writeStations(stations) {
   const rows = stations.map(
     (s) =>
-      `  {id:'${s.id}',name:${JSON.stringify(s.name)},lat:${s.latitude},lng:${s.longitude},routes:${JSON.stringify(s.routes)},borough:'${s.borough}',ada:${s.ada === '1' ? 'true' : 'false'}}`,
+      `  {id:'${s.id}',name:${JSON.stringify(s.name)},lat:${s.latitude},lng:${s.longitude},routes:${JSON.stringify(s.routes)},borough:'${s.borough}',ada:${s.ada === '1' ? 'true' : 'false'},complexId:'${s.complexId}'` +
+      (s.northLabel ? `,northLabel:${JSON.stringify(s.northLabel)}` : '') +
+      (s.southLabel ? `,southLabel:${JSON.stringify(s.southLabel)}` : '') +
+      '}',
   );
 
   const src = `// Auto-generated – do not edit manually.
@@ -300,6 +313,12 @@ export type SubwayStation = {
   routes: string[];
   borough: string;
   ada: boolean;
+  /** MTA complex ID, shared by every platform of a station complex (e.g. Times Sq-42 St) */
+  complexId: string;
+  /** Official name for northbound service here, e.g. "Manhattan" (absent at terminals) */
+  northLabel?: string;
+  /** Official name for southbound service here, e.g. "Coney Island" (absent at terminals) */
+  southLabel?: string;
 };
 
 export const subwayStations: SubwayStation[] = [
@@ -0,0 +1,69 @@
+import { memo } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import type { AlertSeverity } from '../data/mta/types';
+import { type AppColors, tokens, useColors } from '../theme/tokens';
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+/** Accent color for an alert of the given severity. */
+export function alertSeverityColor(severity: AlertSeverity, colors: AppColors): string {
+  switch (severity) {
+    case 'severe':
+      return colors.danger;
+    case 'warning':
+      return colors.warning;
+    default:
+      return colors.accent;
+  }
+}
+
+// ── Component ──────────────────────────────────────────────────────
+
+type Props = {
+  severity: AlertSeverity;
+  /** Diameter in points */
+  size?: number;
+};
+
+/**
+ * The "!" pinned to the corner of a route badge whose line has an
+ * active service alert.  The badge needs no `overflow: 'hidden'`.
+ */
+export const AlertIndicator = memo(function AlertIndicator({ severity, size = 12 }: Props) {
+  const colors = useColors();
+  return (
+    <View
+      pointerEvents="none"
+      style={[
+        styles.indicator,
+        {
+          width: size,
+          height: size,
+          borderRadius: size / 2,
+          top: -size / 3,
+          right: -size / 3,
+          backgroundColor: alertSeverityColor(severity, colors),
+          borderColor: colors.badgeBorder,
+        },
+      ]}
+    >
+      <Text style={[styles.mark, { fontSize: size * 0.7, lineHeight: size - 2 }]}>!</Text>
+    </View>
+  );
+});
+
+// ── Styles ─────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  indicator: {
+    position: 'absolute',
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  mark: {
+    color: '#FFFFFF',
+    fontWeight: tokens.font.weight.bold,
+    textAlign: 'center',
+  },
+});
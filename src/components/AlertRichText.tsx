@@ -0,0 +1,179 @@
+import { Ionicons } from '@expo/vector-icons';
+import { memo, useMemo } from 'react';
+import { Linking, type StyleProp, StyleSheet, Text, type TextStyle, View } from 'react-native';
+import { parseAlertRichText, type RichBlock, type RichInline } from '../data/mta/alertRichText';
+import { getRouteColor, getRouteTextColor } from '../data/mta/routeColors';
+import { type AppColors, tokens, useColors } from '../theme/tokens';
+
+// ── Types ──────────────────────────────────────────────────────────
+
+type Props = {
+  /** The `en-html` translation, preferred when present */
+  html: string | null;
+  /** Plain-text fallback */
+  text: string;
+  style?: StyleProp<TextStyle>;
+  /** Run every block together into one truncated line group (for list rows) */
+  numberOfLines?: number;
+};
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+const BULLET_SIZE = 16;
+/** Indent per nested list level */
+const LIST_INDENT = 14;
+
+function openLink(href: string) {
+  Linking.openURL(href).catch((err) => {
+    console.warn('[Alerts] Failed to open link:', href, err);
+  });
+}
+
+function renderInline(inline: RichInline, key: number, colors: AppColors) {
+  switch (inline.type) {
+    case 'text': {
+      const { href } = inline;
+      return (
+        <Text
+          key={key}
+          style={[
+            inline.style.bold && styles.bold,
+            inline.style.italic && styles.italic,
+            (inline.style.underline || href) && styles.underline,
+            href ? { color: colors.accent } : null,
+          ]}
+          onPress={href ? () => openLink(href) : undefined}
+        >
+          {inline.text}
+        </Text>
+      );
+    }
+    case 'route':
+      return (
+        <View
+          key={key}
+          style={[styles.routeBullet, { backgroundColor: getRouteColor(inline.routeId) }]}
+        >
+          <Text style={[styles.routeBulletText, { color: getRouteTextColor(inline.routeId) }]}>
+            {inline.routeId}
+          </Text>
+        </View>
+      );
+    case 'icon':
+      return (
+        <Ionicons
+          key={key}
+          name={inline.icon === 'bus' ? 'bus' : 'accessibility'}
+          size={tokens.font.size.md}
+          color={colors.labelPrimary}
+        />
+      );
+    case 'break':
+      return '\n';
+  }
+}
+
+function renderInlines(children: RichInline[], colors: AppColors) {
+  return children.map((inline, index) => renderInline(inline, index, colors));
+}
+
+// ── Component ──────────────────────────────────────────────────────
+
+/**
+ * An alert header or description as native text: paragraphs, bullet
+ * lists, bold/italic runs, links and inline route bullets, parsed by
+ * `parseAlertRichText`.
+ */
+export const AlertRichText = memo(function AlertRichText({
+  html,
+  text,
+  style,
+  numberOfLines,
+}: Props) {
+  const colors = useColors();
+  const blocks = useMemo(() => parseAlertRichText(html, text), [html, text]);
+
+  if (numberOfLines) {
+    return (
+      <Text style={style} numberOfLines={numberOfLines}>
+        {blocks.map((block, index) => (
+          <Text key={index}>
+            {index > 0 ? ' ' : null}
+            {renderInlines(block.children, colors)}
+          </Text>
+        ))}
+      </Text>
+    );
+  }
+
+  return (
+    <View style={styles.blocks}>
+      {blocks.map((block, index) => (
+        <Block key={index} block={block} style={style} colors={colors} />
+      ))}
+    </View>
+  );
+});
+
+// ── Block ──────────────────────────────────────────────────────────
+
+const Block = memo(function Block({
+  block,
+  style,
+  colors,
+}: {
+  block: RichBlock;
+  style?: StyleProp<TextStyle>;
+  colors: AppColors;
+}) {
+  if (block.type === 'paragraph') {
+    return <Text style={style}>{renderInlines(block.children, colors)}</Text>;
+  }
+  return (
+    <View style={[styles.listItem, { marginLeft: block.depth * LIST_INDENT }]}>
+      <Text style={[style, styles.listMarker]}>
+        {block.ordinal !== null ? `${block.ordinal}.` : '•'}
+      </Text>
+      <Text style={[style, styles.listText]}>{renderInlines(block.children, colors)}</Text>
+    </View>
+  );
+});
+
+// ── Styles ─────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  blocks: {
+    gap: tokens.spacing.sm,
+  },
+  bold: {
+    fontWeight: tokens.font.weight.bold,
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  underline: {
+    textDecorationLine: 'underline',
+  },
+  routeBullet: {
+    width: BULLET_SIZE,
+    height: BULLET_SIZE,
+    borderRadius: BULLET_SIZE / 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+    transform: [{ translateY: 3 }],
+  },
+  routeBulletText: {
+    fontSize: tokens.font.size.xs,
+    fontWeight: tokens.font.weight.bold,
+  },
+  listItem: {
+    flexDirection: 'row',
+    gap: tokens.spacing.sm,
+  },
+  listMarker: {
+    minWidth: 10,
+  },
+  listText: {
+    flex: 1,
+  },
+});
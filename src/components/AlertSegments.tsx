@@ -0,0 +1,170 @@
+import { Ionicons } from '@expo/vector-icons';
+import { memo, useMemo, useRef } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Callout, Marker, type MapMarker, Polyline, type Region } from 'react-native-maps';
+import type { AlertSegment } from '../data/mta/mappers/alertSegments';
+import { type AppColors, tokens, useColors } from '../theme/tokens';
+import { alertSeverityColor } from './AlertIndicator';
+import { AlertRichText } from './AlertRichText';
+
+// ── Types ──────────────────────────────────────────────────────────
+
+type Props = {
+  segments: AlertSegment[];
+  region: Region;
+  /** Open the alert behind a tapped segment */
+  onAlertPress: (alertId: string) => void;
+};
+
+type SegmentEntry = AlertSegment & {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+};
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+/** Dashes over the line's own color read as "not running normally" */
+const DISRUPTED_STROKE = '#8E8E93';
+const MARKER_SIZE = 22;
+
+function withBounds(segment: AlertSegment): SegmentEntry {
+  const lats = segment.coordinates.map((c) => c.latitude);
+  const lngs = segment.coordinates.map((c) => c.longitude);
+  return {
+    ...segment,
+    minLat: Math.min(...lats),
+    maxLat: Math.max(...lats),
+    minLng: Math.min(...lngs),
+    maxLng: Math.max(...lngs),
+  };
+}
+
+// ── Component ──────────────────────────────────────────────────────
+
+/**
+ * Marks the stretches of line an alert disrupts: dashed grey over the
+ * route's own line, with a warning marker whose callout names the
+ * alert and opens it.  Culled to the viewport like `SubwayLines`.
+ */
+export const AlertSegments = memo(function AlertSegments({
+  segments,
+  region,
+  onAlertPress,
+}: Props) {
+  const colors = useColors();
+  const entries = useMemo(() => segments.map(withBounds), [segments]);
+
+  const visible = useMemo(() => {
+    const latPad = region.latitudeDelta * 0.6;
+    const lngPad = region.longitudeDelta * 0.6;
+    return entries.filter(
+      (s) =>
+        s.maxLat >= region.latitude - latPad &&
+        s.minLat <= region.latitude + latPad &&
+        s.maxLng >= region.longitude - lngPad &&
+        s.minLng <= region.longitude + lngPad,
+    );
+  }, [entries, region]);
+
+  return (
+    <>
+      {visible.map((segment) => (
+        <DisruptedSegment
+          key={segment.id}
+          segment={segment}
+          colors={colors}
+          onAlertPress={onAlertPress}
+        />
+      ))}
+    </>
+  );
+});
+
+// ── Segment ────────────────────────────────────────────────────────
+
+const DisruptedSegment = memo(function DisruptedSegment({
+  segment,
+  colors,
+  onAlertPress,
+}: {
+  segment: AlertSegment;
+  colors: AppColors;
+  onAlertPress: (alertId: string) => void;
+}) {
+  const markerRef = useRef<MapMarker>(null);
+  const { alert, coordinates } = segment;
+  const severityColor = alertSeverityColor(alert.severity, colors);
+  const midpoint = coordinates[Math.floor(coordinates.length / 2)];
+
+  return (
+    <>
+      <Polyline
+        coordinates={coordinates}
+        strokeColor={DISRUPTED_STROKE}
+        strokeWidth={5}
+        lineDashPattern={[8, 6]}
+        lineCap="butt"
+        zIndex={5}
+        tappable
+        onPress={() => markerRef.current?.showCallout()}
+      />
+      <Marker
+        ref={markerRef}
+        coordinate={midpoint}
+        anchor={{ x: 0.5, y: 0.5 }}
+        tracksViewChanges={false}
+        zIndex={60}
+        onCalloutPress={() => onAlertPress(alert.id)}
+      >
+        <View
+          style={[
+            styles.marker,
+            { backgroundColor: colors.stationDot, borderColor: severityColor },
+          ]}
+        >
+          <Ionicons name="warning" size={12} color={severityColor} />
+        </View>
+        <Callout tooltip={false}>
+          <View style={styles.callout}>
+            <AlertRichText
+              html={alert.headerHtml}
+              text={alert.header}
+              style={styles.calloutHeader}
+              numberOfLines={3}
+            />
+            <Text style={[styles.calloutLink, { color: colors.tint }]}>View alert</Text>
+          </View>
+        </Callout>
+      </Marker>
+    </>
+  );
+});
+
+// ── Styles ─────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  marker: {
+    width: MARKER_SIZE,
+    height: MARKER_SIZE,
+    borderRadius: MARKER_SIZE / 2,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  callout: {
+    width: 220,
+    gap: tokens.spacing.xs,
+  },
+  calloutHeader: {
+    // Native callouts stay light in dark mode
+    color: '#1C1C1E',
+    fontSize: tokens.font.size.md,
+    fontWeight: tokens.font.weight.semibold,
+  },
+  calloutLink: {
+    fontSize: tokens.font.size.sm,
+    fontWeight: tokens.font.weight.semibold,
+  },
+});
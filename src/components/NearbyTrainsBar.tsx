@@ -1,6 +1,6 @@
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
-import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { memo, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   ActivityIndicator,
   Animated,
@@ -12,22 +12,37 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { type WalkingRoute, formatDistance, formatWalkTime } from '../data/directions/walkingRoute';
+import { useNow } from '../data/mta/hooks/useNow';
 import { getRouteColor, getRouteTextColor } from '../data/mta/routeColors';
-import type { SubwayStation } from '../data/mta/subwayStations';
-import type { ArrivalPrediction } from '../data/mta/types';
+import { parentStationId } from '../data/mta/mappers/stopLookup';
+import { routeAlertSeverity } from '../data/mta/stores/alertStore';
+import type { StationComplex } from '../data/mta/stationComplexes';
+import { subwayStations, type SubwayStation } from '../data/mta/subwayStations';
+import { stationApproach } from '../data/mta/mappers/vehicleMapper';
+import { arrivalDirection, stationDirectionLabel } from '../data/mta/stationDirections';
+import type { AlertSeverity, ArrivalPrediction, VehiclePosition } from '../data/mta/types';
 import { type AppColors, sheetStyles, tokens, useColors } from '../theme/tokens';
+import { AlertIndicator } from './AlertIndicator';
 import { GlassCard } from './GlassCard';
 
 // ── Types ──────────────────────────────────────────────────────────
 
 type Props = {
   arrivals: ArrivalPrediction[];
+  /** Live trains, to tell which arrivals are at or pulling into the station */
+  trains?: VehiclePosition[];
   /** The station whose arrivals are being shown */
   station: SubwayStation | null;
+  /** The station's complex — its name and routes head the bar when it has several platforms */
+  complex?: StationComplex | null;
   /** True when a user tapped a specific station (not auto-nearest) */
   isPinned?: boolean;
   /** Dismiss the pinned station and revert to auto-nearest */
   onDismissStation?: () => void;
+  /** Worst active alert severity per route (see `activeRouteSeverities`) */
+  routeAlerts?: Map<string, AlertSeverity>;
+  /** Open the alerts for a route whose badge shows an alert */
+  onAlertPress?: (routeId: string) => void;
   onSearchPress: () => void;
   onHeightChange?: (height: number) => void;
   /** Active walking route (null = no active directions) */
@@ -43,36 +58,19 @@ type Props = {
 type ArrivalRow = {
   id: string;
   routeId: string;
-  directionLabel: string;
+  /** "to Flushing-Main St", or the direction when the destination is unknown */
+  title: string;
+  /** The station's name for the direction (e.g. "Manhattan"), when the title is a headsign */
+  directionLabel: string | null;
   etaMin: number;
+  approach: 'at-station' | 'approaching' | null;
+  /** Timetable time only — no train is confirmed to be running it */
+  isScheduled: boolean;
 };
 
 // ── Helpers ────────────────────────────────────────────────────────
 
-/** Derive direction from the arrival's stopId suffix when trip direction is UNK */
-function dirFromArrival(a: ArrivalPrediction): string {
-  if (a.direction !== 'UNK') return a.direction;
-  // stopId often ends with N or S (e.g. "A15N")
-  const last = a.stopId?.charAt(a.stopId.length - 1);
-  if (last === 'N') return 'N';
-  if (last === 'S') return 'S';
-  return 'UNK';
-}
-
-function dirLabel(dir: string): string {
-  switch (dir) {
-    case 'N':
-      return 'Uptown';
-    case 'S':
-      return 'Downtown';
-    case 'E':
-      return 'Eastbound';
-    case 'W':
-      return 'Westbound';
-    default:
-      return '';
-  }
-}
+const stationsById = new Map(subwayStations.map((s) => [s.id, s]));
 
 function formatEta(min: number): string {
   if (min <= 0) return 'Now';
@@ -83,9 +81,13 @@ function formatEta(min: number): string {
 
 export const NearbyTrainsBar = memo(function NearbyTrainsBar({
   arrivals,
+  trains,
   station,
+  complex = null,
   isPinned: _isPinned = false,
   onDismissStation: _onDismissStation,
+  routeAlerts,
+  onAlertPress,
   onSearchPress,
   onHeightChange,
   walkingRoute = null,
@@ -93,7 +95,8 @@ export const NearbyTrainsBar = memo(function NearbyTrainsBar({
   onStartDirections,
   onEndDirections,
 }: Props) {
-  const stationName = station?.name ?? '';
+  const stationName = complex?.name ?? station?.name ?? '';
+  const stationRoutes = complex?.routes ?? station?.routes;
   const insets = useSafeAreaInsets();
   const colors = useColors();
 
@@ -114,40 +117,49 @@ export const NearbyTrainsBar = memo(function NearbyTrainsBar({
     }).start();
   }, [slideAnim]);
 
-  // Tick to refresh countdowns every 15s
-  const [tick, setTick] = useState(0);
-  useEffect(() => {
-    const timer = setInterval(() => setTick((t) => t + 1), 15_000);
-    return () => clearInterval(timer);
-  }, []);
+  // Refresh countdowns every 15s
+  const nowMs = useNow(15_000);
+
+  const trainsByTrip = useMemo(
+    () => new Map((trains ?? []).flatMap((t) => (t.tripId ? [[t.tripId, t] as const] : []))),
+    [trains],
+  );
 
   // Build arrival rows — deduplicate by route+direction, keep soonest
   const rows = useMemo(() => {
-    const nowSec = Math.floor(Date.now() / 1000);
+    const nowSec = Math.floor(nowMs / 1000);
     const best = new Map<string, ArrivalRow>();
 
     for (const a of arrivals) {
       const diffSec = a.arrivalTime - nowSec;
       if (diffSec < -30) continue; // already departed
       const min = Math.max(0, Math.round(diffSec / 60));
-      const dir = dirFromArrival(a);
-      const key = `${a.routeId}-${dir}`;
+      const dir = arrivalDirection(a);
+      // Branches of one line in one direction get a row each
+      const key = `${a.routeId}-${a.headsign ?? dir}`;
 
       const existing = best.get(key);
       if (!existing || min < existing.etaMin) {
+        const train = trainsByTrip.get(a.tripId);
+        // In a complex, each platform names its own directions
+        const platformId = parentStationId(a.stopId);
+        const platform = stationsById.get(platformId) ?? station;
+        const directionLabel = stationDirectionLabel(platform, dir);
         best.set(key, {
           id: key,
           routeId: a.routeId,
-          directionLabel: dirLabel(dir),
+          title: a.headsign ? `to ${a.headsign}` : (directionLabel ?? `${a.routeId} Train`),
+          directionLabel: a.headsign ? directionLabel : null,
           etaMin: min,
+          approach: train ? stationApproach(train, platformId) : null,
+          isScheduled: a.isAssigned === false,
         });
       }
     }
 
     // Sort by ETA ascending (soonest first)
     return Array.from(best.values()).sort((a, b) => a.etaMin - b.etaMin);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [arrivals, tick]);
+  }, [arrivals, trainsByTrip, station, nowMs]);
 
   const handleDirectionsPress = useCallback(() => {
     if (walkingRoute) {
@@ -196,17 +208,27 @@ export const NearbyTrainsBar = memo(function NearbyTrainsBar({
             <Text style={[styles.stationName, { color: colors.labelPrimary }]} numberOfLines={1}>
               {stationName}
             </Text>
-            {station?.routes
-              ? station.routes.map((route) => (
-                  <View
-                    key={route}
-                    style={[styles.miniRouteBadge, { backgroundColor: getRouteColor(route) }]}
-                  >
-                    <Text style={[styles.miniRouteText, { color: getRouteTextColor(route) }]}>
-                      {route}
-                    </Text>
-                  </View>
-                ))
+            {stationRoutes
+              ? stationRoutes.map((route) => {
+                  const alert = routeAlertSeverity(routeAlerts, route);
+                  return (
+                    <Pressable
+                      key={route}
+                      disabled={!alert || !onAlertPress}
+                      hitSlop={4}
+                      onPress={() => {
+                        onAlertPress?.(route);
+                        void Haptics.selectionAsync();
+                      }}
+                      style={[styles.miniRouteBadge, { backgroundColor: getRouteColor(route) }]}
+                    >
+                      <Text style={[styles.miniRouteText, { color: getRouteTextColor(route) }]}>
+                        {route}
+                      </Text>
+                      {alert && <AlertIndicator severity={alert} size={10} />}
+                    </Pressable>
+                  );
+                })
               : null}
           </View>
         ) : null}
@@ -266,7 +288,13 @@ export const NearbyTrainsBar = memo(function NearbyTrainsBar({
             contentContainerStyle={{
               paddingBottom: insets.bottom,
             }}
-            renderItem={({ item }) => <ArrivalItem item={item} colors={colors} />}
+            renderItem={({ item }) => (
+              <ArrivalItem
+                item={item}
+                alert={routeAlertSeverity(routeAlerts, item.routeId)}
+                colors={colors}
+              />
+            )}
             ItemSeparatorComponent={() => (
               <View style={[styles.separator, { backgroundColor: colors.borderSubtle }]} />
             )}
@@ -296,14 +324,25 @@ export const NearbyTrainsBar = memo(function NearbyTrainsBar({
 
 const ArrivalItem = memo(function ArrivalItem({
   item,
+  alert,
   colors,
 }: {
   item: ArrivalRow;
+  /** Worst active alert on the route, if any */
+  alert?: AlertSeverity;
   colors: AppColors;
 }) {
   const routeColor = getRouteColor(item.routeId);
   const eta = formatEta(item.etaMin);
-  const isNow = item.etaMin <= 0;
+  const isNow = item.etaMin <= 0 || item.approach === 'at-station';
+  const status =
+    item.approach === 'at-station'
+      ? 'At station'
+      : item.approach === 'approaching'
+        ? 'Approaching'
+        : item.isScheduled
+          ? 'Scheduled'
+          : null;
 
   return (
     <View style={styles.row}>
@@ -312,19 +351,31 @@ const ArrivalItem = memo(function ArrivalItem({
         <Text style={[styles.routeText, { color: getRouteTextColor(item.routeId) }]}>
           {item.routeId}
         </Text>
+        {alert && <AlertIndicator severity={alert} size={14} />}
       </View>
 
       {/* Direction */}
       <View style={styles.rowInfo}>
         <Text style={[styles.rowDirection, { color: colors.labelPrimary }]} numberOfLines={1}>
-          {item.directionLabel || item.routeId + ' Train'}
+          {item.title}
         </Text>
+        {(item.directionLabel || status) && (
+          <Text style={[styles.rowStatus, { color: colors.labelSecondary }]} numberOfLines={1}>
+            {item.directionLabel}
+            {item.directionLabel && status ? ' · ' : null}
+            {status && (
+              <Text style={item.approach === 'at-station' && { color: colors.accent }}>
+                {status}
+              </Text>
+            )}
+          </Text>
+        )}
       </View>
 
       {/* ETA */}
       <View style={styles.etaContainer}>
         <Text style={[styles.etaNumber, { color: isNow ? colors.accent : colors.labelPrimary }]}>
-          {eta}
+          {isNow ? 'Now' : eta}
         </Text>
         {!isNow && <Text style={[styles.etaUnit, { color: colors.labelSecondary }]}>min</Text>}
       </View>
@@ -456,6 +507,11 @@ const styles = StyleSheet.create({
     fontSize: tokens.font.size.lg,
     fontWeight: tokens.font.weight.semibold,
   },
+  rowStatus: {
+    fontSize: tokens.font.size.sm,
+    fontWeight: tokens.font.weight.medium,
+    marginTop: 2,
+  },
   etaContainer: {
     flexDirection: 'row',
     alignItems: 'baseline',
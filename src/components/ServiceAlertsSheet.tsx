@@ -0,0 +1,446 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { memo, useMemo, useState } from 'react';
+import { Animated, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { useNow } from '../data/mta/hooks/useNow';
+import { compareAlerts } from '../data/mta/mappers/alertMapper';
+import { getRouteColor, getRouteTextColor } from '../data/mta/routeColors';
+import { alertAffectsRoute, isAlertActive, useAlertStore } from '../data/mta/stores/alertStore';
+import type { AlertActivePeriod, AlertSeverity, ServiceAlert } from '../data/mta/types';
+import { type AppColors, sheetStyles, tokens, useColors } from '../theme/tokens';
+import { alertSeverityColor } from './AlertIndicator';
+import { AlertRichText } from './AlertRichText';
+import { GlassCard } from './GlassCard';
+
+// ── Types ──────────────────────────────────────────────────────────
+
+type Props = {
+  /** Only list alerts for this route (all routes when null) */
+  routeId?: string | null;
+  /** Open straight to this alert's details */
+  alertId?: string | null;
+  animatedValue: Animated.Value;
+  onDismiss: () => void;
+};
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+/** Upcoming periods listed in the detail view before "+N more" */
+const MAX_PERIODS = 5;
+
+const SEVERITY_ICONS: Record<AlertSeverity, keyof typeof Ionicons.glyphMap> = {
+  severe: 'alert-circle',
+  warning: 'warning',
+  info: 'information-circle',
+};
+
+const SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  severe: 'Service disruption',
+  warning: 'Service change',
+  info: 'Notice',
+};
+
+function formatDay(timeSec: number): string {
+  return new Date(timeSec * 1000).toLocaleDateString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function formatClockTime(timeSec: number): string {
+  return new Date(timeSec * 1000).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+/** "Sat, Oct 18, 9:45 PM – 11:30 PM", "From …", "Until …" — in the device's time zone. */
+function formatActivePeriod({ startTime, endTime }: AlertActivePeriod): string {
+  const start = startTime ? `${formatDay(startTime)}, ${formatClockTime(startTime)}` : null;
+  if (!endTime) return start ? `From ${start}` : 'Until further notice';
+  const endDay = formatDay(endTime);
+  const end =
+    startTime && formatDay(startTime) === endDay
+      ? formatClockTime(endTime)
+      : `${endDay}, ${formatClockTime(endTime)}`;
+  return start ? `${start} – ${end}` : `Until ${end}`;
+}
+
+/** Periods that haven't ended yet, soonest first. */
+function upcomingPeriods(alert: ServiceAlert, nowMs: number): AlertActivePeriod[] {
+  const nowSec = Math.floor(nowMs / 1000);
+  return alert.activePeriods
+    .filter((p) => !p.endTime || p.endTime >= nowSec)
+    .sort((a, b) => (a.startTime ?? 0) - (b.startTime ?? 0));
+}
+
+// ── Component ──────────────────────────────────────────────────────
+
+/**
+ * Active service alerts, most disruptive first.  Tapping one opens its
+ * full text and every upcoming active period in local time.
+ */
+export const ServiceAlertsSheet = memo(function ServiceAlertsSheet({
+  routeId = null,
+  alertId = null,
+  animatedValue,
+  onDismiss,
+}: Props) {
+  const colors = useColors();
+  const allAlerts = useAlertStore((state) => state.alerts);
+  const [selectedId, setSelectedId] = useState<string | null>(alertId);
+
+  // Alerts start and end on the minute
+  const nowMs = useNow(30_000);
+
+  const alerts = useMemo(
+    () =>
+      allAlerts
+        .filter((a) => isAlertActive(a, nowMs) && (!routeId || alertAffectsRoute(a, routeId)))
+        .sort(compareAlerts),
+    [allAlerts, routeId, nowMs],
+  );
+  const selected = selectedId ? (alerts.find((a) => a.id === selectedId) ?? null) : null;
+  const title = routeId ? `${routeId} Train Alerts` : 'Service Alerts';
+
+  return (
+    <Animated.View
+      pointerEvents="auto"
+      style={[
+        sheetStyles.overlay,
+        {
+          transform: [
+            {
+              translateY: animatedValue.interpolate({
+                inputRange: [0, 1],
+                outputRange: [300, 0],
+              }),
+            },
+          ],
+          opacity: animatedValue,
+        },
+      ]}
+    >
+      <GlassCard
+        intensity={80}
+        style={[
+          sheetStyles.card,
+          {
+            maxHeight: 480,
+            backgroundColor: colors.sheetFill,
+            borderWidth: StyleSheet.hairlineWidth,
+            borderColor: colors.sheetStroke,
+          },
+        ]}
+      >
+        {/* Handle */}
+        <View style={[sheetStyles.handle, { backgroundColor: colors.handle }]} />
+
+        {/* Header */}
+        <View style={sheetStyles.headerRow}>
+          {selected ? (
+            <Pressable
+              style={styles.backButton}
+              hitSlop={tokens.size.hitSlop}
+              onPress={() => {
+                setSelectedId(null);
+                void Haptics.selectionAsync();
+              }}
+            >
+              <Ionicons name="chevron-back" size={20} color={colors.accent} />
+              <Text style={[styles.backText, { color: colors.accent }]}>{title}</Text>
+            </Pressable>
+          ) : (
+            <Text style={[styles.title, { color: colors.labelPrimary }]} numberOfLines={1}>
+              {title}
+            </Text>
+          )}
+          <Pressable
+            hitSlop={tokens.size.hitSlop}
+            onPress={() => {
+              onDismiss();
+              void Haptics.selectionAsync();
+            }}
+          >
+            <Text style={[sheetStyles.doneText, { color: colors.accent }]}>Done</Text>
+          </Pressable>
+        </View>
+
+        {/* Content */}
+        {selected ? (
+          <AlertDetail alert={selected} nowMs={nowMs} colors={colors} />
+        ) : alerts.length === 0 ? (
+          <Text style={[styles.emptyText, { color: colors.labelSecondary }]}>
+            {routeId ? `No active alerts for the ${routeId} train` : 'Good service on all lines'}
+          </Text>
+        ) : (
+          <ScrollView
+            contentContainerStyle={{ paddingBottom: tokens.spacing.sm }}
+            showsVerticalScrollIndicator={false}
+          >
+            {alerts.map((alert, index) => (
+              <View key={alert.id}>
+                {index > 0 && (
+                  <View style={[styles.separator, { backgroundColor: colors.borderSubtle }]} />
+                )}
+                <AlertRow
+                  alert={alert}
+                  colors={colors}
+                  onPress={() => {
+                    setSelectedId(alert.id);
+                    void Haptics.selectionAsync();
+                  }}
+                />
+              </View>
+            ))}
+          </ScrollView>
+        )}
+      </GlassCard>
+    </Animated.View>
+  );
+});
+
+// ── Route badges ───────────────────────────────────────────────────
+
+const RouteBadges = memo(function RouteBadges({ routeIds }: { routeIds: string[] }) {
+  if (routeIds.length === 0) return null;
+  return (
+    <View style={styles.routeBadges}>
+      {routeIds.map((route) => (
+        <View key={route} style={[styles.routeBadge, { backgroundColor: getRouteColor(route) }]}>
+          <Text style={[styles.routeBadgeText, { color: getRouteTextColor(route) }]}>{route}</Text>
+        </View>
+      ))}
+    </View>
+  );
+});
+
+// ── Alert row ──────────────────────────────────────────────────────
+
+const AlertRow = memo(function AlertRow({
+  alert,
+  colors,
+  onPress,
+}: {
+  alert: ServiceAlert;
+  colors: AppColors;
+  onPress: () => void;
+}) {
+  const subtitle = [alert.alertType ?? SEVERITY_LABELS[alert.severity], alert.activePeriodText]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.alertRow, pressed && { opacity: 0.7 }]}
+      onPress={onPress}
+    >
+      <Ionicons
+        name={SEVERITY_ICONS[alert.severity]}
+        size={20}
+        color={alertSeverityColor(alert.severity, colors)}
+      />
+      <View style={styles.alertInfo}>
+        <RouteBadges routeIds={alert.routeIds} />
+        <AlertRichText
+          html={alert.headerHtml}
+          text={alert.header}
+          style={[styles.alertHeader, { color: colors.labelPrimary }]}
+          numberOfLines={3}
+        />
+        <Text style={[styles.alertSubtitle, { color: colors.labelSecondary }]} numberOfLines={1}>
+          {subtitle}
+        </Text>
+      </View>
+      <Ionicons name="chevron-forward" size={16} color={colors.labelSecondary} />
+    </Pressable>
+  );
+});
+
+// ── Alert detail ───────────────────────────────────────────────────
+
+const AlertDetail = memo(function AlertDetail({
+  alert,
+  nowMs,
+  colors,
+}: {
+  alert: ServiceAlert;
+  nowMs: number;
+  colors: AppColors;
+}) {
+  const severityColor = alertSeverityColor(alert.severity, colors);
+  const periods = upcomingPeriods(alert, nowMs);
+
+  return (
+    <ScrollView
+      contentContainerStyle={{ paddingBottom: tokens.spacing.sm }}
+      showsVerticalScrollIndicator={false}
+    >
+      <View style={styles.detailType}>
+        <Ionicons name={SEVERITY_ICONS[alert.severity]} size={16} color={severityColor} />
+        <Text style={[styles.detailTypeText, { color: severityColor }]}>
+          {alert.alertType ?? SEVERITY_LABELS[alert.severity]}
+        </Text>
+      </View>
+      <RouteBadges routeIds={alert.routeIds} />
+      <View style={styles.detailHeader}>
+        <AlertRichText
+          html={alert.headerHtml}
+          text={alert.header}
+          style={[styles.detailHeaderText, { color: colors.labelPrimary }]}
+        />
+      </View>
+      {alert.description || alert.descriptionHtml ? (
+        <View style={styles.detailDescription}>
+          <AlertRichText
+            html={alert.descriptionHtml}
+            text={alert.description}
+            style={[styles.detailDescriptionText, { color: colors.labelPrimary }]}
+          />
+        </View>
+      ) : null}
+
+      {/* When */}
+      {alert.activePeriodText || periods.length > 0 ? (
+        <View style={styles.section}>
+          <Text style={[styles.sectionLabel, { color: colors.labelSecondary }]}>When</Text>
+          {alert.activePeriodText ? (
+            <Text style={[styles.periodSummary, { color: colors.labelPrimary }]}>
+              {alert.activePeriodText}
+            </Text>
+          ) : null}
+          {periods.slice(0, MAX_PERIODS).map((period, index) => (
+            <Text key={index} style={[styles.periodText, { color: colors.labelSecondary }]}>
+              {formatActivePeriod(period)}
+            </Text>
+          ))}
+          {periods.length > MAX_PERIODS ? (
+            <Text style={[styles.periodText, { color: colors.labelSecondary }]}>
+              +{periods.length - MAX_PERIODS} more
+            </Text>
+          ) : null}
+        </View>
+      ) : null}
+
+      {alert.updatedAt ? (
+        <Text style={[styles.updatedText, { color: colors.labelSecondary }]}>
+          Updated {formatDay(alert.updatedAt)}, {formatClockTime(alert.updatedAt)}
+        </Text>
+      ) : null}
+    </ScrollView>
+  );
+});
+
+// ── Styles ─────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  title: {
+    flex: 1,
+    marginRight: tokens.spacing.sm,
+    fontSize: tokens.font.size.xl,
+    fontWeight: tokens.font.weight.bold,
+  },
+  backButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: tokens.spacing.sm,
+  },
+  backText: {
+    fontSize: tokens.font.size.lg,
+    fontWeight: tokens.font.weight.semibold,
+  },
+  emptyText: {
+    fontSize: tokens.font.size.md,
+    fontWeight: tokens.font.weight.medium,
+    textAlign: 'center',
+    paddingVertical: tokens.spacing.lg,
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    marginLeft: 20 + tokens.spacing.md,
+  },
+  alertRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: tokens.spacing.md,
+    gap: tokens.spacing.md,
+  },
+  alertInfo: {
+    flex: 1,
+    gap: tokens.spacing.xs,
+  },
+  alertHeader: {
+    fontSize: tokens.font.size.md,
+    fontWeight: tokens.font.weight.semibold,
+  },
+  alertSubtitle: {
+    fontSize: tokens.font.size.sm,
+    fontWeight: tokens.font.weight.medium,
+  },
+  routeBadges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: tokens.spacing.xs,
+  },
+  routeBadge: {
+    width: tokens.size.badgeSm,
+    height: tokens.size.badgeSm,
+    borderRadius: tokens.size.badgeSm / 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  routeBadgeText: {
+    fontSize: tokens.font.size.xs + 1,
+    fontWeight: tokens.font.weight.bold,
+  },
+  detailType: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: tokens.spacing.xs,
+    marginBottom: tokens.spacing.sm,
+  },
+  detailTypeText: {
+    fontSize: tokens.font.size.sm,
+    fontWeight: tokens.font.weight.bold,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  detailHeader: {
+    marginTop: tokens.spacing.sm,
+  },
+  detailHeaderText: {
+    fontSize: tokens.font.size.lg,
+    fontWeight: tokens.font.weight.bold,
+  },
+  detailDescription: {
+    marginTop: tokens.spacing.sm,
+  },
+  detailDescriptionText: {
+    fontSize: tokens.font.size.md,
+    fontWeight: tokens.font.weight.regular,
+    lineHeight: 20,
+  },
+  section: {
+    marginTop: tokens.spacing.lg,
+    gap: tokens.spacing.xxs,
+  },
+  sectionLabel: {
+    fontSize: tokens.font.size.sm,
+    fontWeight: tokens.font.weight.semibold,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: tokens.spacing.xs,
+  },
+  periodSummary: {
+    fontSize: tokens.font.size.md,
+    fontWeight: tokens.font.weight.semibold,
+  },
+  periodText: {
+    fontSize: tokens.font.size.sm,
+    fontWeight: tokens.font.weight.medium,
+  },
+  updatedText: {
+    marginTop: tokens.spacing.lg,
+    fontSize: tokens.font.size.xs,
+    fontWeight: tokens.font.weight.medium,
+  },
+});
@@ -1,6 +1,6 @@
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
-import { memo, useEffect, useMemo, useState } from 'react';
+import { memo, useMemo } from 'react';
 import {
   ActivityIndicator,
   Animated,
@@ -11,11 +11,19 @@ import {
   View,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNow } from '../data/mta/hooks/useNow';
 import { getRouteColor, getRouteTextColor } from '../data/mta/routeColors';
+import {
+  activeRouteSeverities,
+  routeAlertSeverity,
+  useAlertStore,
+} from '../data/mta/stores/alertStore';
 import { useArrivalStore } from '../data/mta/stores/arrivalStore';
 import type { SubwayStation } from '../data/mta/subwayStations';
-import type { ArrivalPrediction } from '../data/mta/types';
+import { arrivalDirection, stationDirectionLabel } from '../data/mta/stationDirections';
+import type { AlertSeverity, ArrivalPrediction } from '../data/mta/types';
 import { type AppColors, sheetStyles, tokens, useColors } from '../theme/tokens';
+import { AlertIndicator } from './AlertIndicator';
 import { GlassCard } from './GlassCard';
 
 // ── Types ──────────────────────────────────────────────────────────
@@ -35,46 +43,37 @@ type ArrivalGroup = {
 
 // ── Helpers ────────────────────────────────────────────────────────
 
-function formatCountdown(arrivalTimeSec: number, nowMs: number): string {
+/** "Now" within half a minute of `arrivalTimeSec`, else whole minutes to go ("4 min"). */
+export function formatCountdown(arrivalTimeSec: number, nowMs: number): string {
   const diffSec = Math.max(0, arrivalTimeSec - Math.floor(nowMs / 1000));
   if (diffSec < 30) return 'Now';
   const mins = Math.round(diffSec / 60);
   return `${mins} min`;
 }
 
-function directionLabel(dir: string): string {
-  switch (dir) {
-    case 'N':
-      return 'Uptown';
-    case 'S':
-      return 'Downtown';
-    case 'E':
-      return 'Eastbound';
-    case 'W':
-      return 'Westbound';
-    default:
-      return 'Unknown';
-  }
-}
-
-function groupByDirection(arrivals: ArrivalPrediction[]): ArrivalGroup[] {
-  const nowSec = Math.floor(Date.now() / 1000);
+function groupByDirection(
+  arrivals: ArrivalPrediction[],
+  station: SubwayStation,
+  nowMs: number,
+): ArrivalGroup[] {
+  const nowSec = Math.floor(nowMs / 1000);
   // Filter out arrivals that have already passed
   const upcoming = arrivals.filter((a) => a.arrivalTime > nowSec - 30);
   // Sort by arrival time
   upcoming.sort((a, b) => a.arrivalTime - b.arrivalTime);
 
+  // Group under the station's own direction names ("Manhattan", "Coney Island")
   const groups = new Map<string, ArrivalPrediction[]>();
   for (const arrival of upcoming) {
-    const key = arrival.direction;
+    const key = stationDirectionLabel(station, arrivalDirection(arrival)) ?? 'Other';
     const list = groups.get(key) ?? [];
     list.push(arrival);
     groups.set(key, list);
   }
 
   return [...groups.entries()]
-    .map(([dir, list]) => ({
-      label: directionLabel(dir),
+    .map(([label, list]) => ({
+      label,
       arrivals: list.slice(0, 6), // Cap at 6 per direction
     }))
     .sort((a, b) => a.label.localeCompare(b.label));
@@ -92,16 +91,17 @@ export const StationArrivalSheet = memo(function StationArrivalSheet({
   const rawArrivals = useArrivalStore((state) => state.arrivals[station.id]);
   const isLoading = useArrivalStore((state) => state.isLoading);
   const arrivals = rawArrivals ?? EMPTY_ARRIVALS;
+  const alerts = useAlertStore((state) => state.alerts);
+
+  // Refresh countdowns every 10s
+  const nowMs = useNow(10_000);
 
-  // Tick counter to refresh countdowns every 10s
-  const [, setTick] = useState(0);
-  useEffect(() => {
-    const timer = setInterval(() => setTick((t) => t + 1), 10_000);
-    return () => clearInterval(timer);
-  }, []);
+  const routeAlerts = useMemo(() => activeRouteSeverities(alerts, nowMs), [alerts, nowMs]);
 
-  const groups = useMemo(() => groupByDirection(arrivals), [arrivals]);
-  const nowMs = Date.now();
+  const groups = useMemo(
+    () => groupByDirection(arrivals, station, nowMs),
+    [arrivals, station, nowMs],
+  );
 
   // Distinguish loading from genuinely empty
   const hasLoadedOnce = rawArrivals !== undefined;
@@ -146,16 +146,20 @@ export const StationArrivalSheet = memo(function StationArrivalSheet({
               {station.name}
             </Text>
             <View style={styles.routeBadges}>
-              {station.routes.map((route) => (
-                <View
-                  key={route}
-                  style={[styles.smallBadge, { backgroundColor: getRouteColor(route) }]}
-                >
-                  <Text style={[styles.smallBadgeText, { color: getRouteTextColor(route) }]}>
-                    {route}
-                  </Text>
-                </View>
-              ))}
+              {station.routes.map((route) => {
+                const alert = routeAlertSeverity(routeAlerts, route);
+                return (
+                  <View
+                    key={route}
+                    style={[styles.smallBadge, { backgroundColor: getRouteColor(route) }]}
+                  >
+                    <Text style={[styles.smallBadgeText, { color: getRouteTextColor(route) }]}>
+                      {route}
+                    </Text>
+                    {alert && <AlertIndicator severity={alert} size={10} />}
+                  </View>
+                );
+              })}
               {station.ada && (
                 <Ionicons
                   name="accessibility"
@@ -196,7 +200,13 @@ export const StationArrivalSheet = memo(function StationArrivalSheet({
             showsVerticalScrollIndicator={false}
           >
             {groups.map((group) => (
-              <DirectionGroup key={group.label} group={group} nowMs={nowMs} colors={colors} />
+              <DirectionGroup
+                key={group.label}
+                group={group}
+                routeAlerts={routeAlerts}
+                nowMs={nowMs}
+                colors={colors}
+              />
             ))}
           </ScrollView>
         )}
@@ -209,10 +219,12 @@ export const StationArrivalSheet = memo(function StationArrivalSheet({
 
 const DirectionGroup = memo(function DirectionGroup({
   group,
+  routeAlerts,
   nowMs,
   colors,
 }: {
   group: ArrivalGroup;
+  routeAlerts: Map<string, AlertSeverity>;
   nowMs: number;
   colors: AppColors;
 }) {
@@ -220,7 +232,13 @@ const DirectionGroup = memo(function DirectionGroup({
     <View style={styles.group}>
       <Text style={[styles.groupLabel, { color: colors.labelSecondary }]}>{group.label}</Text>
       {group.arrivals.map((arrival) => (
-        <ArrivalRow key={arrival.id} arrival={arrival} nowMs={nowMs} colors={colors} />
+        <ArrivalRow
+          key={arrival.id}
+          arrival={arrival}
+          alert={routeAlertSeverity(routeAlerts, arrival.routeId)}
+          nowMs={nowMs}
+          colors={colors}
+        />
       ))}
     </View>
   );
@@ -230,16 +248,26 @@ const DirectionGroup = memo(function DirectionGroup({
 
 const ArrivalRow = memo(function ArrivalRow({
   arrival,
+  alert,
   nowMs,
   colors,
 }: {
   arrival: ArrivalPrediction;
+  /** Worst active alert on the route, if any */
+  alert?: AlertSeverity;
   nowMs: number;
   colors: AppColors;
 }) {
   const countdown = formatCountdown(arrival.arrivalTime, nowMs);
   const isNow = countdown === 'Now';
   const routeColor = getRouteColor(arrival.routeId);
+  // No train assigned yet — the trip may not run
+  const isScheduledOnly = arrival.isAssigned === false;
+  const track = arrival.actualTrack ?? arrival.scheduledTrack;
+  const isTrackChanged =
+    !!arrival.actualTrack &&
+    !!arrival.scheduledTrack &&
+    arrival.actualTrack !== arrival.scheduledTrack;
 
   return (
     <View style={styles.arrivalRow}>
@@ -247,18 +275,37 @@ const ArrivalRow = memo(function ArrivalRow({
         <Text style={[styles.arrivalBadgeText, { color: getRouteTextColor(arrival.routeId) }]}>
           {arrival.routeId}
         </Text>
+        {alert && <AlertIndicator severity={alert} size={12} />}
       </View>
+      <Text style={[styles.headsign, { color: colors.labelPrimary }]} numberOfLines={1}>
+        {arrival.headsign ? `to ${arrival.headsign}` : `${arrival.routeId} Train`}
+      </Text>
       <Text
         style={[
           styles.countdown,
           {
-            color: isNow ? colors.accent : colors.labelPrimary,
+            color: isNow
+              ? colors.accent
+              : isScheduledOnly
+                ? colors.labelSecondary
+                : colors.labelPrimary,
             fontWeight: isNow ? tokens.font.weight.bold : tokens.font.weight.semibold,
           },
         ]}
       >
         {countdown}
+        {isScheduledOnly && <Text style={styles.scheduledText}> · Scheduled</Text>}
       </Text>
+      {!!track && (
+        <Text
+          style={[
+            styles.trackText,
+            { color: isTrackChanged ? colors.danger : colors.labelSecondary },
+          ]}
+        >
+          Track {track}
+        </Text>
+      )}
       {arrival.delay > 60 && (
         <View style={[styles.delayBadge, { backgroundColor: colors.dangerBorder }]}>
           <Text style={[styles.delayText, { color: colors.danger }]}>Delayed</Text>
@@ -347,9 +394,21 @@ const styles = StyleSheet.create({
     fontSize: tokens.font.size.sm,
     fontWeight: tokens.font.weight.bold,
   },
+  headsign: {
+    flex: 1,
+    fontSize: tokens.font.size.md,
+    fontWeight: tokens.font.weight.medium,
+  },
   countdown: {
     fontSize: tokens.font.size.lg,
-    flex: 1,
+  },
+  scheduledText: {
+    fontSize: tokens.font.size.sm,
+    fontWeight: tokens.font.weight.medium,
+  },
+  trackText: {
+    fontSize: tokens.font.size.sm,
+    fontWeight: tokens.font.weight.medium,
   },
   delayBadge: {
     paddingHorizontal: tokens.spacing.sm,
@@ -0,0 +1,373 @@
+import * as Haptics from 'expo-haptics';
+import { memo } from 'react';
+import {
+  ActivityIndicator,
+  Animated,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useNow } from '../data/mta/hooks/useNow';
+import { useTrip } from '../data/mta/hooks/useTrip';
+import { getStationName } from '../data/mta/mappers/stopLookup';
+import { getRouteColor, getRouteTextColor } from '../data/mta/routeColors';
+import { useTripStore } from '../data/mta/stores/tripStore';
+import type { TripStop, VehiclePosition } from '../data/mta/types';
+import { type AppColors, sheetStyles, tokens, useColors } from '../theme/tokens';
+import { GlassCard } from './GlassCard';
+import { formatCountdown } from './StationArrivalSheet';
+
+// ── Types ──────────────────────────────────────────────────────────
+
+type Props = {
+  train: VehiclePosition;
+  animatedValue: Animated.Value;
+  onDismiss: () => void;
+};
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+const TIMELINE_DOT = 10;
+
+function formatClockTime(timeSec: number): string {
+  return new Date(timeSec * 1000).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+function stationName(stopId: string | null): string | null {
+  return stopId ? (getStationName(stopId) ?? stopId) : null;
+}
+
+/** "Stopped at 14 St", "Approaching 14 St" or "Next stop 14 St". */
+function positionLabel(train: VehiclePosition): string | null {
+  const name = stationName(train.currentStopId);
+  if (!name) return null;
+  switch (train.status) {
+    case 'stopped':
+      return `Stopped at ${name}`;
+    case 'incoming':
+      return `Approaching ${name}`;
+    default:
+      return `Next stop ${name}`;
+  }
+}
+
+function delayLabel(delaySec: number): string | null {
+  if (delaySec <= 60) return null;
+  return `${Math.round(delaySec / 60)} min late`;
+}
+
+// ── Component ──────────────────────────────────────────────────────
+
+/**
+ * Details for a tapped train: where it is, where it's going, and a
+ * timeline of its remaining stops.  The trip is followed through
+ * `useTrip`, so times refresh with the live poll.
+ */
+export const TrainDetailSheet = memo(function TrainDetailSheet({
+  train,
+  animatedValue,
+  onDismiss,
+}: Props) {
+  const colors = useColors();
+  const trip = useTrip(train.tripId, train.routeId);
+  const isLoading = useTripStore((state) => state.isLoading);
+
+  // Refresh countdowns every 10s
+  const nowMs = useNow(10_000);
+
+  const routeColor = getRouteColor(train.routeId);
+  const destination = stationName(trip?.destinationStopId ?? null);
+  const position = positionLabel(train);
+  const delay = delayLabel(trip?.stops[0]?.delay ?? 0);
+  const isScheduledOnly = (trip?.isAssigned ?? train.isAssigned) === false;
+
+  return (
+    <Animated.View
+      pointerEvents="auto"
+      style={[
+        sheetStyles.overlay,
+        {
+          transform: [
+            {
+              translateY: animatedValue.interpolate({
+                inputRange: [0, 1],
+                outputRange: [300, 0],
+              }),
+            },
+          ],
+          opacity: animatedValue,
+        },
+      ]}
+    >
+      <GlassCard
+        intensity={80}
+        style={[
+          sheetStyles.card,
+          {
+            maxHeight: 420,
+            backgroundColor: colors.sheetFill,
+            borderWidth: StyleSheet.hairlineWidth,
+            borderColor: colors.sheetStroke,
+          },
+        ]}
+      >
+        {/* Handle */}
+        <View style={[sheetStyles.handle, { backgroundColor: colors.handle }]} />
+
+        {/* Header */}
+        <View style={sheetStyles.headerRow}>
+          <View style={[styles.routeBadge, { backgroundColor: routeColor }]}>
+            <Text style={[styles.routeBadgeText, { color: getRouteTextColor(train.routeId) }]}>
+              {train.routeId}
+            </Text>
+          </View>
+          <View style={styles.headerText}>
+            <Text style={[styles.destination, { color: colors.labelPrimary }]} numberOfLines={1}>
+              {destination ? `to ${destination}` : `${train.routeId} Train`}
+            </Text>
+            {position && (
+              <Text style={[styles.position, { color: colors.labelSecondary }]} numberOfLines={1}>
+                {position}
+              </Text>
+            )}
+          </View>
+          <Pressable
+            hitSlop={tokens.size.hitSlop}
+            onPress={() => {
+              onDismiss();
+              void Haptics.selectionAsync();
+            }}
+          >
+            <Text style={[sheetStyles.doneText, { color: colors.accent }]}>Done</Text>
+          </Pressable>
+        </View>
+
+        {/* Status badges */}
+        {(delay || isScheduledOnly) && (
+          <View style={styles.badges}>
+            {delay && (
+              <View style={[styles.statusBadge, { backgroundColor: colors.dangerBorder }]}>
+                <Text style={[styles.statusText, { color: colors.danger }]}>{delay}</Text>
+              </View>
+            )}
+            {isScheduledOnly && (
+              <View style={[styles.statusBadge, { backgroundColor: colors.borderSubtle }]}>
+                <Text style={[styles.statusText, { color: colors.labelSecondary }]}>
+                  Scheduled — not yet assigned
+                </Text>
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Remaining stops */}
+        {trip ? (
+          <ScrollView
+            style={styles.scrollArea}
+            contentContainerStyle={{ paddingBottom: tokens.spacing.sm }}
+            showsVerticalScrollIndicator={false}
+          >
+            {trip.stops.map((stop, index) => (
+              <StopRow
+                key={stop.stopId}
+                stop={stop}
+                isFirst={index === 0}
+                isLast={index === trip.stops.length - 1}
+                routeColor={routeColor}
+                nowMs={nowMs}
+                colors={colors}
+              />
+            ))}
+          </ScrollView>
+        ) : isLoading || !train.tripId ? (
+          <View style={styles.loadingRow}>
+            {train.tripId ? (
+              <>
+                <ActivityIndicator size="small" color={colors.labelSecondary} />
+                <Text style={[styles.loadingText, { color: colors.labelSecondary }]}>
+                  Loading stops…
+                </Text>
+              </>
+            ) : (
+              <Text style={[styles.loadingText, { color: colors.labelSecondary }]}>
+                No trip information for this train
+              </Text>
+            )}
+          </View>
+        ) : (
+          <Text style={[styles.emptyText, { color: colors.labelSecondary }]}>
+            No remaining stops reported
+          </Text>
+        )}
+      </GlassCard>
+    </Animated.View>
+  );
+});
+
+// ── Stop row ───────────────────────────────────────────────────────
+
+const StopRow = memo(function StopRow({
+  stop,
+  isFirst,
+  isLast,
+  routeColor,
+  nowMs,
+  colors,
+}: {
+  stop: TripStop;
+  isFirst: boolean;
+  isLast: boolean;
+  routeColor: string;
+  nowMs: number;
+  colors: AppColors;
+}) {
+  const countdown = formatCountdown(stop.arrivalTime, nowMs);
+  const isNow = countdown === 'Now';
+
+  return (
+    <View style={styles.stopRow}>
+      {/* Timeline: line segments above and below a stop dot */}
+      <View style={styles.timeline}>
+        <View
+          style={[styles.timelineLine, { backgroundColor: isFirst ? 'transparent' : routeColor }]}
+        />
+        <View
+          style={[
+            styles.timelineDot,
+            { borderColor: routeColor },
+            (isFirst || isLast) && { backgroundColor: routeColor },
+          ]}
+        />
+        <View
+          style={[styles.timelineLine, { backgroundColor: isLast ? 'transparent' : routeColor }]}
+        />
+      </View>
+
+      <Text
+        style={[
+          styles.stopName,
+          {
+            color: colors.labelPrimary,
+            fontWeight: isFirst || isLast ? tokens.font.weight.semibold : tokens.font.weight.medium,
+          },
+        ]}
+        numberOfLines={1}
+      >
+        {getStationName(stop.stopId) ?? stop.stopId}
+      </Text>
+
+      <View style={styles.stopTimes}>
+        <Text style={[styles.countdown, { color: isNow ? colors.accent : colors.labelPrimary }]}>
+          {countdown}
+        </Text>
+        <Text style={[styles.clockTime, { color: colors.labelSecondary }]}>
+          {formatClockTime(stop.arrivalTime)}
+        </Text>
+      </View>
+    </View>
+  );
+});
+
+// ── Styles ─────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  routeBadge: {
+    width: tokens.size.badgeMd,
+    height: tokens.size.badgeMd,
+    borderRadius: tokens.size.badgeMd / 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  routeBadgeText: {
+    fontSize: tokens.font.size.md,
+    fontWeight: tokens.font.weight.bold,
+  },
+  headerText: {
+    flex: 1,
+    marginHorizontal: tokens.spacing.sm,
+  },
+  destination: {
+    fontSize: tokens.font.size.xl,
+    fontWeight: tokens.font.weight.bold,
+  },
+  position: {
+    fontSize: tokens.font.size.sm,
+    fontWeight: tokens.font.weight.medium,
+    marginTop: 2,
+  },
+  badges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: tokens.spacing.xs,
+    marginTop: tokens.spacing.sm,
+  },
+  statusBadge: {
+    paddingHorizontal: tokens.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: tokens.radius.sm,
+  },
+  statusText: {
+    fontSize: tokens.font.size.xs,
+    fontWeight: tokens.font.weight.bold,
+  },
+  loadingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: tokens.spacing.lg,
+    gap: tokens.spacing.sm,
+  },
+  loadingText: {
+    fontSize: tokens.font.size.md,
+    fontWeight: tokens.font.weight.medium,
+  },
+  emptyText: {
+    fontSize: tokens.font.size.md,
+    fontWeight: tokens.font.weight.medium,
+    textAlign: 'center',
+    paddingVertical: tokens.spacing.lg,
+  },
+  scrollArea: {
+    marginTop: tokens.spacing.sm,
+  },
+  stopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 40,
+    gap: tokens.spacing.sm,
+  },
+  timeline: {
+    width: TIMELINE_DOT + 4,
+    alignSelf: 'stretch',
+    alignItems: 'center',
+  },
+  timelineLine: {
+    flex: 1,
+    width: 3,
+  },
+  timelineDot: {
+    width: TIMELINE_DOT,
+    height: TIMELINE_DOT,
+    borderRadius: TIMELINE_DOT / 2,
+    borderWidth: 2,
+    backgroundColor: '#FFFFFF',
+  },
+  stopName: {
+    flex: 1,
+    fontSize: tokens.font.size.lg,
+  },
+  stopTimes: {
+    alignItems: 'flex-end',
+    minWidth: 60,
+  },
+  countdown: {
+    fontSize: tokens.font.size.md,
+    fontWeight: tokens.font.weight.semibold,
+  },
+  clockTime: {
+    fontSize: tokens.font.size.xs,
+    fontWeight: tokens.font.weight.medium,
+  },
+});
@@ -1,22 +1,31 @@
-import { memo } from 'react';
-import { StyleSheet, Text, View } from 'react-native';
-import { Marker } from 'react-native-maps';
+import { memo, useEffect, useRef, useState } from 'react';
+import { Animated, Easing, StyleSheet, Text, View } from 'react-native';
+import { MarkerAnimated } from 'react-native-maps';
 import { Ionicons } from '@expo/vector-icons';
 import { Train } from '../types/train';
 import { getRouteColor, getRouteTextColor } from '../data/mta/routeColors';
+import { clockNow } from '../data/mta/clock';
+import { predictVehiclePosition } from '../data/mta/mappers/vehicleMapper';
+import { DEPARTED_TRAIN_LINGER_MS } from '../data/mta/hooks/useDepartingTrains';
+import { useNow } from '../data/mta/hooks/useNow';
+import { vehicleFreshness } from '../data/mta/staleness';
 
 type Props = {
   train: Train;
   mapHeading: number;
   hideArrow?: boolean;
+  /** The train has left the feed — fade the marker out */
+  departed?: boolean;
+  onPress?: (train: Train) => void;
 };
 
 const ROUTE_DOT = 18;
 const ICON_SIZE = 14;
 const PILL_PAD = 3;
 const PILL_GAP = 2;
-const PILL_W = PILL_PAD + ICON_SIZE + PILL_GAP + ROUTE_DOT + PILL_PAD;
-const PILL_H = ROUTE_DOT + PILL_PAD * 2;
+const PILL_BORDER = 2;
+const PILL_W = PILL_BORDER + PILL_PAD + ICON_SIZE + PILL_GAP + ROUTE_DOT + PILL_PAD + PILL_BORDER;
+const PILL_H = ROUTE_DOT + (PILL_PAD + PILL_BORDER) * 2;
 
 const ARROW_SIZE = 10;
 const ARROW_OFFSET = PILL_W / 2 + ARROW_SIZE / 2 + 2;
@@ -24,67 +33,212 @@ const WRAPPER_SIZE = PILL_W + ARROW_SIZE * 2 + 6;
 const CENTER = WRAPPER_SIZE / 2;
 const HALF_ARROW = (ARROW_SIZE + 4) / 2;
 
-const DEG_TO_RAD = Math.PI / 180;
-
 const ARROW_COLOR = '#1C1C1E';
 const ARROW_OUTLINE_COLOR = '#FFFFFF';
 
+/** Glide to a freshly reported position over this long */
+const MOVE_MS = 1_000;
+/** Advance moving trains along the track this often between refreshes */
+const DEAD_RECKON_MS = 1_000;
+const ROTATE_MS = 400;
+/** Bearing changes smaller than this snap along with the next move */
+const MIN_ROTATION_DEG = 3;
+/** How often to re-check whether the train's report has gone stale */
+const STALE_CHECK_MS = 15_000;
+/** Keep tracking view changes this long after the marker's look changes */
+const REDRAW_MS = 500;
+
+const STALE_ICON_COLOR = '#8E8E93';
+
+/** Signed shortest turn from one bearing to another, in (-180, 180]. */
+function shortestTurn(from: number, to: number): number {
+  const delta = (((to - from) % 360) + 360) % 360;
+  return delta > 180 ? delta - 360 : delta;
+}
+
+/**
+ * Where to draw the train right now: dead-reckoned along the track
+ * when it's between stops, otherwise where the feed last put it.
+ * Stale reports aren't extrapolated.
+ */
+function currentPosition(
+  train: Train,
+  isStale: boolean,
+): { latitude: number; longitude: number; bearing: number } {
+  return (!isStale && predictVehiclePosition(train, clockNow())) || train;
+}
+
+// ── Shared tick ────────────────────────────────────────────────────
+
+const deadReckoners = new Set<() => void>();
+let deadReckonTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Runs `step` every `DEAD_RECKON_MS` on one timer shared by all markers,
+ * so a map full of trains advances together instead of each marker
+ * scheduling its own.  Returns the unsubscribe function.
+ */
+function subscribeToDeadReckoning(step: () => void): () => void {
+  deadReckoners.add(step);
+  deadReckonTimer ??= setInterval(() => deadReckoners.forEach((fn) => fn()), DEAD_RECKON_MS);
+  return () => {
+    deadReckoners.delete(step);
+    if (deadReckoners.size === 0 && deadReckonTimer) {
+      clearInterval(deadReckonTimer);
+      deadReckonTimer = null;
+    }
+  };
+}
+
+// ── Component ──────────────────────────────────────────────────────
+
 /**
  * Renders a train on the map with:
- *   - A white pill-shaped marker containing a train icon + route badge
- *   - A small triangular arrow positioned on the edge of the pill
- *     pointing in the direction of travel.
+ *   - A white pill-shaped marker containing a train icon + route badge,
+ *     ringed in the route colour while stopped at a station and with a
+ *     dashed ring while pulling in
+ *   - A small triangular arrow orbiting the pill, pointing in the
+ *     direction of travel.
+ *
+ * Between refreshes the marker keeps moving along the track toward its
+ * next stop at the pace of the trip update's predicted arrival; new
+ * reports glide in rather than jump, and the arrow turns the short way
+ * round.  Trains whose last report is stale (see `staleness.ts`) are
+ * greyed out and left where they were seen; departed trains fade out.
  */
-export const TrainMarker = memo(function TrainMarker({ train, mapHeading, hideArrow }: Props) {
+export const TrainMarker = memo(function TrainMarker({
+  train,
+  mapHeading,
+  hideArrow,
+  departed,
+  onPress,
+}: Props) {
   const routeColor = getRouteColor(train.routeId);
   const textColor = getRouteTextColor(train.routeId);
-  const showArrow = train.direction !== 'UNK' && !hideArrow;
+  const nowMs = useNow(STALE_CHECK_MS);
+  const isStale = vehicleFreshness(train, nowMs) !== 'fresh';
+  const showArrow = train.direction !== 'UNK' && !hideArrow && !isStale;
+
+  const initial = useRef(currentPosition(train, isStale)).current;
+  const coordinate = useRef({
+    latitude: new Animated.Value(initial.latitude),
+    longitude: new Animated.Value(initial.longitude),
+  }).current;
+  // Unwrapped (may exceed 0–360) so every turn animates the short way
+  const bearing = useRef(new Animated.Value(initial.bearing)).current;
+  const bearingValue = useRef(initial.bearing);
+  const heading = useRef(new Animated.Value(mapHeading)).current;
+  const opacity = useRef(new Animated.Value(1)).current;
+  // Custom marker views only redraw while tracked, so track during animations
+  const [isAnimating, setIsAnimating] = useState(false);
+  const appearance = `${train.status}|${isStale}`;
+  const [drawnAppearance, setDrawnAppearance] = useState(appearance);
+
+  // Re-snapshot the marker view when its look changes
+  useEffect(() => {
+    if (appearance === drawnAppearance) return;
+    const timer = setTimeout(() => setDrawnAppearance(appearance), REDRAW_MS);
+    return () => clearTimeout(timer);
+  }, [appearance, drawnAppearance]);
+
+  useEffect(() => {
+    heading.setValue(mapHeading);
+  }, [heading, mapHeading]);
+
+  // Move (and turn) toward the current estimate, then keep dead-reckoning
+  useEffect(() => {
+    const step = (duration: number, easing: (t: number) => number) => {
+      const target = currentPosition(train, isStale);
+      Animated.parallel(
+        (['latitude', 'longitude'] as const).map((axis) =>
+          Animated.timing(coordinate[axis], {
+            toValue: target[axis],
+            duration,
+            easing,
+            useNativeDriver: false,
+          }),
+        ),
+      ).start();
 
-  const bearingDeg = train.bearing - mapHeading;
-  const bearingRad = bearingDeg * DEG_TO_RAD;
+      const turn = shortestTurn(bearingValue.current, target.bearing);
+      if (Math.abs(turn) < MIN_ROTATION_DEG) return;
+      bearingValue.current += turn;
+      setIsAnimating(true);
+      Animated.timing(bearing, {
+        toValue: bearingValue.current,
+        duration: ROTATE_MS,
+        easing: Easing.inOut(Easing.quad),
+        useNativeDriver: false,
+      }).start(({ finished }) => finished && setIsAnimating(false));
+    };
 
-  const arrowLeft = CENTER + ARROW_OFFSET * Math.sin(bearingRad) - HALF_ARROW;
-  const arrowTop = CENTER - ARROW_OFFSET * Math.cos(bearingRad) - HALF_ARROW;
+    step(MOVE_MS, Easing.inOut(Easing.quad));
+    if (departed || isStale || !train.motion) return;
+    return subscribeToDeadReckoning(() => step(DEAD_RECKON_MS, Easing.linear));
+  }, [train, departed, isStale, coordinate, bearing]);
+
+  useEffect(() => {
+    if (!departed) {
+      opacity.setValue(1);
+      return;
+    }
+    const fade = Animated.timing(opacity, {
+      toValue: 0,
+      duration: DEPARTED_TRAIN_LINGER_MS,
+      useNativeDriver: false,
+    });
+    fade.start();
+    return () => fade.stop();
+  }, [departed, opacity]);
+
+  const rotate = Animated.subtract(bearing, heading).interpolate({
+    inputRange: [0, 360],
+    outputRange: ['0deg', '360deg'],
+  });
 
   return (
-    <Marker
+    <MarkerAnimated
       identifier={train.id}
-      coordinate={{
-        latitude: train.latitude,
-        longitude: train.longitude,
-      }}
+      coordinate={coordinate}
       anchor={{ x: 0.5, y: 0.5 }}
-      tracksViewChanges={mapHeading !== 0}
-      zIndex={100}
-      tappable={false}
+      tracksViewChanges={
+        mapHeading !== 0 || isAnimating || !!departed || appearance !== drawnAppearance
+      }
+      zIndex={departed ? 99 : 100}
+      tappable={!!onPress && !departed}
+      onPress={() => onPress?.(train)}
     >
-      <View style={styles.wrapper} pointerEvents="none">
+      <Animated.View style={[styles.wrapper, { opacity }]} pointerEvents="none">
         {/* Pill-shaped marker: train icon + route dot */}
-        <View style={styles.pill}>
-          <Ionicons name="subway" size={ICON_SIZE} color={routeColor} />
+        <View
+          style={[
+            styles.pill,
+            train.status === 'stopped' && { borderColor: routeColor },
+            train.status === 'incoming' && { borderColor: routeColor, borderStyle: 'dashed' },
+            isStale && styles.pillStale,
+          ]}
+        >
+          <Ionicons
+            name="subway"
+            size={ICON_SIZE}
+            color={isStale ? STALE_ICON_COLOR : routeColor}
+          />
           <View style={[styles.routeDot, { backgroundColor: routeColor }]}>
             <Text style={[styles.routeText, { color: textColor }]}>{train.routeId}</Text>
           </View>
         </View>
 
-        {/* Directional arrow — positioned with trig, rotated to face outward */}
+        {/* Directional arrow — sits above the pill, the whole layer rotates to face the bearing */}
         {showArrow && (
-          <View
-            style={[
-              styles.arrowAnchor,
-              {
-                left: arrowLeft,
-                top: arrowTop,
-                transform: [{ rotate: `${bearingDeg}deg` }],
-              },
-            ]}
-          >
-            <View style={styles.arrowOutline} />
-            <View style={styles.arrowTriangle} />
-          </View>
+          <Animated.View style={[styles.arrowLayer, { transform: [{ rotate }] }]}>
+            <View style={styles.arrowAnchor}>
+              <View style={styles.arrowOutline} />
+              <View style={styles.arrowTriangle} />
+            </View>
+          </Animated.View>
         )}
-      </View>
-    </Marker>
+      </Animated.View>
+    </MarkerAnimated>
   );
 });
 
@@ -100,6 +254,8 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     backgroundColor: '#FFFFFF',
     borderRadius: PILL_H / 2,
+    borderWidth: PILL_BORDER,
+    borderColor: '#FFFFFF',
     paddingHorizontal: PILL_PAD,
     paddingVertical: PILL_PAD,
     shadowColor: '#000000',
@@ -108,6 +264,11 @@ const styles = StyleSheet.create({
     shadowOffset: { width: 0, height: 2 },
     elevation: 4,
   },
+  pillStale: {
+    opacity: 0.5,
+    borderColor: '#FFFFFF',
+    borderStyle: 'solid',
+  },
   routeDot: {
     width: ROUTE_DOT,
     height: ROUTE_DOT,
@@ -120,8 +281,13 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: '800',
   },
+  arrowLayer: {
+    ...StyleSheet.absoluteFillObject,
+  },
   arrowAnchor: {
     position: 'absolute',
+    left: CENTER - HALF_ARROW,
+    top: CENTER - ARROW_OFFSET - HALF_ARROW,
     width: ARROW_SIZE + 4,
     height: ARROW_SIZE + 4,
     alignItems: 'center',
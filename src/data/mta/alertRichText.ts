@@ -0,0 +1,329 @@
+import { isKnownRoute, normalizeRouteId } from './routeColors';
+
+/**
+ * Rich text for service alerts.
+ *
+ * MTA alerts carry an `en-html` translation beside the plain English
+ * one, with paragraphs, bullet lists, bold text and links, and both
+ * versions write route bullets as tokens like "[A]" or "[SIR]".  This
+ * module turns either into a small block tree the UI renders with
+ * native Text — the HTML is never handed to a web view.  Only the
+ * handful of tags alerts use are understood; other tags are dropped
+ * and their text kept, and links survive only with an http(s) URL.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export type RichTextStyle = {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+};
+
+export type RichInline =
+  | { type: 'text'; text: string; style: RichTextStyle; href: string | null }
+  /** A route bullet, e.g. "[A]" */
+  | { type: 'route'; routeId: string }
+  /** "[accessibility icon]", "[shuttle bus icon]" */
+  | { type: 'icon'; icon: 'accessibility' | 'bus' }
+  | { type: 'break' };
+
+export type RichBlock =
+  | { type: 'paragraph'; children: RichInline[] }
+  | {
+      type: 'list-item';
+      /** Position in a numbered list, or null for a bullet */
+      ordinal: number | null;
+      /** 0 for a top-level list */
+      depth: number;
+      children: RichInline[];
+    };
+
+// ── Tokens ─────────────────────────────────────────────────────────
+
+/** "[A]", "[SIR]", "[accessibility icon]" */
+const TOKEN_PATTERN = /\[([A-Za-z0-9]{1,3}|accessibility icon|shuttle bus icon)\]/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  bull: '•',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff
+        ? String.fromCodePoint(code)
+        : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/** Splits route and icon tokens out of a run of text. */
+function tokenize(
+  text: string,
+  style: RichTextStyle,
+  href: string | null,
+  out: RichInline[],
+): void {
+  let last = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const token = match[1];
+    let inline: RichInline | null = null;
+    if (token === 'accessibility icon') inline = { type: 'icon', icon: 'accessibility' };
+    else if (token === 'shuttle bus icon') inline = { type: 'icon', icon: 'bus' };
+    else {
+      const routeId = normalizeRouteId(token);
+      if (isKnownRoute(routeId)) inline = { type: 'route', routeId };
+    }
+    if (!inline) continue;
+
+    if (match.index > last) pushText(out, text.slice(last, match.index), style, href);
+    out.push(inline);
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) pushText(out, text.slice(last), style, href);
+}
+
+function sameStyle(a: RichTextStyle, b: RichTextStyle): boolean {
+  return a.bold === b.bold && a.italic === b.italic && a.underline === b.underline;
+}
+
+/** Appends text, merging it into the previous run when styled alike. */
+function pushText(
+  out: RichInline[],
+  text: string,
+  style: RichTextStyle,
+  href: string | null,
+): void {
+  const previous = out[out.length - 1];
+  if (previous?.type === 'text' && previous.href === href && sameStyle(previous.style, style)) {
+    previous.text += text;
+  } else {
+    out.push({ type: 'text', text, style: { ...style }, href });
+  }
+}
+
+/** Drops leading and trailing whitespace and line breaks. */
+function trimInlines(children: RichInline[]): RichInline[] {
+  const trimmed = [...children];
+  while (trimmed[0]?.type === 'break') trimmed.shift();
+  while (trimmed[trimmed.length - 1]?.type === 'break') trimmed.pop();
+
+  const first = trimmed[0];
+  if (first?.type === 'text') trimmed[0] = { ...first, text: first.text.trimStart() };
+  const lastIndex = trimmed.length - 1;
+  const last = trimmed[lastIndex];
+  if (last?.type === 'text') trimmed[lastIndex] = { ...last, text: last.text.trimEnd() };
+
+  return trimmed.filter((inline) => inline.type !== 'text' || inline.text.length > 0);
+}
+
+// ── HTML ───────────────────────────────────────────────────────────
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>/y;
+const HREF_PATTERN = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+
+/** Tags whose content is never shown */
+const HIDDEN_TAGS = new Set(['script', 'style', 'head', 'title']);
+/** Tags that start a new paragraph */
+const BLOCK_TAGS = new Set(['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'tr', 'table']);
+
+type ListState = { ordered: boolean; count: number };
+
+/**
+ * Parses an alert's `en-html` translation into blocks.
+ *
+ * @example
+ * parseAlertHtml('<p><b>[A]</b> trains run local</p><ul><li>Take the [C]</li></ul>')
+ * // → a paragraph with an A bullet, then a list item with a C bullet
+ */
+export function parseAlertHtml(html: string): RichBlock[] {
+  const blocks: RichBlock[] = [];
+  const lists: ListState[] = [];
+  const hrefs: Array<string | null> = [];
+  const counts = { bold: 0, italic: 0, underline: 0 };
+  let block: RichBlock | null = null;
+  let hiddenTag: string | null = null;
+
+  const style = (): RichTextStyle => ({
+    bold: counts.bold > 0,
+    italic: counts.italic > 0,
+    underline: counts.underline > 0,
+  });
+
+  const endBlock = () => {
+    if (block) {
+      block.children = trimInlines(block.children);
+      if (block.children.length > 0) blocks.push(block);
+    }
+    block = null;
+  };
+
+  const currentChildren = (): RichInline[] => {
+    block ??= { type: 'paragraph', children: [] };
+    return block.children;
+  };
+
+  const addText = (raw: string) => {
+    let text = decodeEntities(raw).replace(/\s+/g, ' ');
+    const children = currentChildren();
+    const previous = children[children.length - 1];
+    // Collapse whitespace across tags, as a browser would
+    if (
+      !previous ||
+      previous.type === 'break' ||
+      (previous.type === 'text' && /\s$/.test(previous.text))
+    ) {
+      text = text.trimStart();
+    }
+    if (text) tokenize(text, style(), hrefs[hrefs.length - 1] ?? null, children);
+  };
+
+  let i = 0;
+  while (i < html.length) {
+    if (html.startsWith('<!--', i)) {
+      const end = html.indexOf('-->', i + 4);
+      i = end < 0 ? html.length : end + 3;
+      continue;
+    }
+
+    TAG_PATTERN.lastIndex = i;
+    const tag = html[i] === '<' ? TAG_PATTERN.exec(html) : null;
+    if (!tag) {
+      // Text up to the next tag (a lone "<" is just text)
+      const next = html.indexOf('<', i + 1);
+      const end = next < 0 ? html.length : next;
+      if (!hiddenTag) addText(html.slice(i, end));
+      i = end;
+      continue;
+    }
+    i = TAG_PATTERN.lastIndex;
+
+    const isClosing = tag[1] === '/';
+    const name = tag[2].toLowerCase();
+    const attributes = tag[3];
+
+    if (hiddenTag) {
+      if (isClosing && name === hiddenTag) hiddenTag = null;
+      continue;
+    }
+    if (HIDDEN_TAGS.has(name)) {
+      if (!isClosing && !attributes.trimEnd().endsWith('/')) hiddenTag = name;
+      continue;
+    }
+
+    const step = isClosing ? -1 : 1;
+    switch (name) {
+      case 'b':
+      case 'strong':
+        counts.bold = Math.max(0, counts.bold + step);
+        break;
+      case 'i':
+      case 'em':
+        counts.italic = Math.max(0, counts.italic + step);
+        break;
+      case 'u':
+        counts.underline = Math.max(0, counts.underline + step);
+        break;
+      case 'a': {
+        if (isClosing) {
+          hrefs.pop();
+          break;
+        }
+        const match = attributes.match(HREF_PATTERN);
+        const href = match ? decodeEntities(match[1] ?? match[2] ?? match[3]).trim() : '';
+        hrefs.push(/^https?:\/\//i.test(href) ? href : null);
+        break;
+      }
+      case 'br':
+        currentChildren().push({ type: 'break' });
+        break;
+      case 'ul':
+      case 'ol':
+        endBlock();
+        if (isClosing) lists.pop();
+        else lists.push({ ordered: name === 'ol', count: 0 });
+        break;
+      case 'li': {
+        endBlock();
+        if (isClosing) break;
+        const list = lists[lists.length - 1];
+        block = {
+          type: 'list-item',
+          ordinal: list?.ordered ? ++list.count : null,
+          depth: Math.max(0, lists.length - 1),
+          children: [],
+        };
+        break;
+      }
+      default:
+        if (BLOCK_TAGS.has(name)) {
+          endBlock();
+          // Headings read as bold paragraphs
+          if (/^h[1-6]$/.test(name)) counts.bold = Math.max(0, counts.bold + step);
+        }
+    }
+  }
+  endBlock();
+  return blocks;
+}
+
+// ── Plain text ─────────────────────────────────────────────────────
+
+const PLAIN_STYLE: RichTextStyle = { bold: false, italic: false, underline: false };
+const PLAIN_BULLET = /^\s*[-•*]\s+/;
+
+/**
+ * Parses a plain-text translation into the same blocks: blank lines
+ * separate paragraphs, lines starting with "-" or "•" are bullets.
+ */
+export function parseAlertText(text: string): RichBlock[] {
+  const blocks: RichBlock[] = [];
+  for (const paragraph of text.split(/\r?\n\s*\r?\n/)) {
+    let children: RichInline[] = [];
+    const endParagraph = () => {
+      children = trimInlines(children);
+      if (children.length > 0) blocks.push({ type: 'paragraph', children });
+      children = [];
+    };
+
+    for (const line of paragraph.split(/\r?\n/)) {
+      if (PLAIN_BULLET.test(line)) {
+        endParagraph();
+        const item: RichInline[] = [];
+        tokenize(line.replace(PLAIN_BULLET, ''), PLAIN_STYLE, null, item);
+        const trimmed = trimInlines(item);
+        if (trimmed.length > 0) {
+          blocks.push({ type: 'list-item', ordinal: null, depth: 0, children: trimmed });
+        }
+        continue;
+      }
+      if (children.length > 0) children.push({ type: 'break' });
+      tokenize(line, PLAIN_STYLE, null, children);
+    }
+    endParagraph();
+  }
+  return blocks;
+}
+
+/** An alert text's blocks: from its HTML translation when it has one. */
+export function parseAlertRichText(html: string | null, text: string): RichBlock[] {
+  const blocks = html ? parseAlertHtml(html) : [];
+  return blocks.length > 0 ? blocks : parseAlertText(text);
+}
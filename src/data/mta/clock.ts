@@ -0,0 +1,149 @@
+/**
+ * Shared time source for the MTA data layer and countdown UI.
+ *
+ * Everything that asks "what time is it?" — mappers dropping expired
+ * predictions, alert active periods, "Now" labels — reads from the
+ * active clock instead of `Date.now()`, so tests can freeze time and
+ * replay can run it faster than real time.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export type Clock = {
+  /** Current time in ms since epoch */
+  now(): number;
+};
+
+/** A clock that only moves when told to. */
+export type ManualClock = Clock & {
+  set(ms: number): void;
+  advance(ms: number): void;
+};
+
+/** A clock that runs at a configurable rate from a movable origin. */
+export type VirtualClock = Clock & {
+  readonly isPlaying: boolean;
+  readonly speed: number;
+  play(): void;
+  pause(): void;
+  /** 1 = real time, 10 = ten times faster */
+  setSpeed(speed: number): void;
+  /** Jump to a time (ms since epoch) */
+  seek(ms: number): void;
+};
+
+// ── Implementations ────────────────────────────────────────────────
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * A frozen clock, for tests and screenshots.
+ *
+ * @example
+ * const clock = createManualClock(Date.parse('2025-03-04T08:42:00-05:00'));
+ * clock.advance(30_000);
+ */
+export function createManualClock(startMs: number): ManualClock {
+  let current = startMs;
+  return {
+    now: () => current,
+    set(ms) {
+      current = ms;
+    },
+    advance(ms) {
+      current += ms;
+    },
+  };
+}
+
+export type VirtualClockOptions = {
+  /** Virtual time to start from. Default: now */
+  startMs?: number;
+  /** Default: 1 */
+  speed?: number;
+  /** Start paused. Default: false */
+  paused?: boolean;
+};
+
+/**
+ * A clock running at `speed`× wall-clock time.  Rate changes and pauses
+ * re-anchor against the wall clock so virtual time never jumps.
+ */
+export function createVirtualClock(options: VirtualClockOptions = {}): VirtualClock {
+  let speed = options.speed ?? 1;
+  let playing = !options.paused;
+  /** Virtual time at the last play/pause/seek/speed change */
+  let anchorVirtualMs = options.startMs ?? Date.now();
+  /** Wall-clock time of that same moment */
+  let anchorRealMs = Date.now();
+
+  const now = () =>
+    playing ? anchorVirtualMs + (Date.now() - anchorRealMs) * speed : anchorVirtualMs;
+
+  const seek = (ms: number) => {
+    anchorVirtualMs = ms;
+    anchorRealMs = Date.now();
+  };
+
+  return {
+    now,
+    get isPlaying() {
+      return playing;
+    },
+    get speed() {
+      return speed;
+    },
+    play() {
+      if (playing) return;
+      seek(now());
+      playing = true;
+    },
+    pause() {
+      if (!playing) return;
+      seek(now());
+      playing = false;
+    },
+    setSpeed(next) {
+      seek(now());
+      speed = next;
+    },
+    seek,
+  };
+}
+
+// ── Active clock ───────────────────────────────────────────────────
+
+let activeClock: Clock = systemClock;
+const listeners = new Set<() => void>();
+
+/** The clock everything reads by default. */
+export function getClock(): Clock {
+  return activeClock;
+}
+
+/**
+ * Swap the active clock (e.g. a `VirtualClock` while replaying).
+ * Pass `systemClock` to go back to real time.
+ */
+export function setClock(clock: Clock): void {
+  activeClock = clock;
+  for (const listener of listeners) listener();
+}
+
+/**
+ * Subscribe to `setClock` calls.
+ * @returns An unsubscribe function.
+ */
+export function subscribeToClock(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Current time from the active clock, in ms since epoch. */
+export function clockNow(): number {
+  return activeClock.now();
+}
@@ -0,0 +1,79 @@
+import { Buffer } from 'buffer';
+import { transit_realtime } from 'gtfs-realtime-bindings';
+import type { FeedDecodingOptions } from './feedRegistry';
+import { attachMercuryExtensions } from './mercuryExtensions';
+import { attachNyctExtensions } from './nyctExtensions';
+import { readVarint } from './protoWire';
+
+/**
+ * Protobuf decoding for GTFS-RT payloads.  Kept free of network and
+ * store dependencies so a background worker can import it on its own.
+ */
+
+/** GTFS-RT `header.timestamp` of a decoded message, in ms. */
+export function headerTimestampMs(message: transit_realtime.IFeedMessage): number | null {
+  const seconds = toSeconds(message.header?.timestamp);
+  return seconds ? seconds * 1000 : null;
+}
+
+/**
+ * A GTFS-RT integer field (timestamp or delay) as a plain number, 0 when
+ * absent — gtfs-realtime-bindings returns Long objects for 64-bit fields.
+ */
+export function toSeconds(value: number | object | null | undefined): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'number') return value;
+  if (typeof (value as { toNumber?: unknown }).toNumber === 'function') {
+    return (value as { toNumber(): number }).toNumber();
+  }
+  return 0;
+}
+
+/**
+ * Reads `header.timestamp` without decoding the whole message.
+ * The header is field 1 and the MTA always serializes it first.
+ */
+export function peekHeaderTimestampMs(bytes: Uint8Array): number | null {
+  const [tag, start] = readVarint(bytes, 0);
+  if (tag !== ((1 << 3) | 2)) return null;
+  const [length, headerStart] = readVarint(bytes, start);
+  const header = transit_realtime.FeedHeader.decode(
+    bytes.subarray(headerStart, headerStart + length),
+  );
+  return headerTimestampMs({ header });
+}
+
+const NYCT_DECODING: FeedDecodingOptions = { nyctExtensions: true, mercuryExtensions: false };
+
+/**
+ * Decode raw GTFS-RT protobuf bytes into a `FeedMessage`.  With
+ * `nyctExtensions`, the NYCT extensions are available through
+ * `getNyctTripDescriptor` / `getNyctStopTimeUpdate`; with
+ * `mercuryExtensions`, alert extensions through `getMercuryAlert` /
+ * `getMercuryEntitySelector`.
+ *
+ * @param options  The feed's registered decoding options. Default: NYCT subway trips
+ */
+export function decodeFeed(
+  bytes: Uint8Array,
+  options: FeedDecodingOptions = NYCT_DECODING,
+): transit_realtime.FeedMessage {
+  const byteBuffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const message = transit_realtime.FeedMessage.decode(byteBuffer) as transit_realtime.FeedMessage;
+  // Extensions are optional extras; the standard fields are still good
+  if (options.nyctExtensions) {
+    try {
+      attachNyctExtensions(message, bytes);
+    } catch (err) {
+      console.warn('Could not read NYCT extensions:', err instanceof Error ? err.message : err);
+    }
+  }
+  if (options.mercuryExtensions) {
+    try {
+      attachMercuryExtensions(message, bytes);
+    } catch (err) {
+      console.warn('Could not read Mercury extensions:', err instanceof Error ? err.message : err);
+    }
+  }
+  return message;
+}
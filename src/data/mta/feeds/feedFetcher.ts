@@ -1,22 +1,56 @@
-import { Buffer } from 'buffer';
 import { transit_realtime } from 'gtfs-realtime-bindings';
+import { clockNow } from '../clock';
 import { FeedId } from '../types';
+import {
+  assertFeedAvailable,
+  backoffDelayMs,
+  recordFeedAborted,
+  recordFeedFailure,
+  recordFeedSuccess,
+} from './feedHealth';
+import type { FeedRecorder } from './feedRecorder';
+import { decodeFeed, headerTimestampMs, peekHeaderTimestampMs } from './feedDecoder';
+import { getFeedDefinition } from './feedRegistry';
+import { defaultTransport, type FeedTransport } from './feedTransport';
+
+export { decodeFeed, headerTimestampMs } from './feedDecoder';
+export { hasApiKey } from './feedTransport';
 
 // ── Constants ──────────────────────────────────────────────────────
 
-const FEED_BASE = 'https://api-endpoint.mta.info/Dataservice/mtagtfsfeeds';
 const DEFAULT_CACHE_TTL_MS = 10_000;
-const RETRY_DELAY_MS = 2_000;
-const MAX_RETRIES = 1;
+const RETRY_BASE_DELAY_MS = 1_000;
+const RETRY_MAX_DELAY_MS = 8_000;
+const MAX_RETRIES = 2;
 
 // ── Cache ──────────────────────────────────────────────────────────
 
 type CacheEntry = {
-  message: transit_realtime.FeedMessage;
+  /** Raw payload as received */
+  bytes: Uint8Array;
+  /** Decoded on first use, so bytes-only consumers never pay for it */
+  message?: transit_realtime.FeedMessage;
+  /** Last successful check with the transport */
   fetchedAt: number;
+  /** When this payload first arrived (later checks found it unchanged) */
+  changedAt: number;
+  /** GTFS-RT `header.timestamp` of the payload, in ms */
+  headerTimestampMs: number | null;
+  etag?: string;
+  lastModified?: string;
 };
 
-const cache = new Map<FeedId, CacheEntry>();
+/** Keyed by transport so a local source never serves live data (or vice versa). */
+const cache = new Map<FeedTransport, Map<FeedId, CacheEntry>>();
+
+function cacheFor(transport: FeedTransport): Map<FeedId, CacheEntry> {
+  let entries = cache.get(transport);
+  if (!entries) {
+    entries = new Map();
+    cache.set(transport, entries);
+  }
+  return entries;
+}
 
 /**
  * Clear the feed cache — useful for testing or forced refresh.
@@ -26,55 +60,112 @@ export function clearFeedCache(): void {
 }
 
 /**
- * Clear a single feed from the cache.
+ * Clear a single feed from the cache (for every transport).
  */
 export function invalidateFeed(feedId: FeedId): void {
-  cache.delete(feedId);
+  for (const entries of cache.values()) {
+    entries.delete(feedId);
+  }
 }
 
-// ── API key ────────────────────────────────────────────────────────
+// ── Feed age ───────────────────────────────────────────────────────
+
+/** Feeds whose snapshot is older than this are considered stale. */
+export const STALE_FEED_AGE_MS = 2 * 60_000;
+
+export type FeedInfo = {
+  feedId: FeedId;
+  /** Publication time of the held snapshot (GTFS-RT header timestamp), in ms */
+  headerTimestampMs: number | null;
+  /** Last successful check with the transport */
+  fetchedAt: number;
+  /** When the held snapshot first arrived */
+  changedAt: number;
+};
 
-function getApiKey(): string | undefined {
-  return process.env.EXPO_PUBLIC_MTA_API_KEY ?? undefined;
+/**
+ * Returns what is known about the cached copy of a feed, or
+ * `undefined` if it has never been fetched through `transport`.
+ */
+export function getFeedInfo(
+  feedId: FeedId,
+  transport: FeedTransport = defaultTransport,
+): FeedInfo | undefined {
+  const entry = cache.get(transport)?.get(feedId);
+  if (!entry) return undefined;
+  const { headerTimestampMs, fetchedAt, changedAt } = entry;
+  return { feedId, headerTimestampMs, fetchedAt, changedAt };
 }
 
-export function hasApiKey(): boolean {
-  return !!getApiKey();
+/**
+ * Age of the data in a feed snapshot: time since the MTA published it,
+ * falling back to when we first received it.
+ */
+export function feedAgeMs(info: FeedInfo, nowMs: number = clockNow()): number {
+  return Math.max(0, nowMs - (info.headerTimestampMs ?? info.changedAt));
 }
 
 // ── Fetch implementation ───────────────────────────────────────────
 
-async function fetchAndDecode(
+type FetchResult =
+  | { status: 'unchanged' }
+  | {
+      status: 'changed';
+      bytes: Uint8Array;
+      headerTimestampMs: number | null;
+      etag?: string;
+      lastModified?: string;
+    };
+
+/**
+ * Asks the transport for a feed, conditionally when we hold a copy.
+ * Resolves `unchanged` on "not modified" or when the new payload
+ * carries the same header timestamp.  Only the header is decoded here;
+ * the body is left to whoever consumes it.
+ */
+async function fetchPayload(
   feedId: FeedId,
+  transport: FeedTransport,
+  previous: CacheEntry | undefined,
   signal?: AbortSignal,
-): Promise<transit_realtime.FeedMessage> {
-  const apiKey = getApiKey();
-  const headers: HeadersInit = apiKey ? { 'x-api-key': apiKey } : {};
-
-  const response = await fetch(`${FEED_BASE}/${feedId}`, {
-    headers,
+): Promise<FetchResult> {
+  const payload = await transport.fetchFeedBytes(feedId, {
     signal,
+    etag: previous?.etag,
+    lastModified: previous?.lastModified,
   });
 
-  if (!response.ok) {
-    throw new Error(`MTA feed ${feedId} failed with status ${response.status}`);
+  if (payload.status === 'not-modified') {
+    if (!previous) throw new Error(`MTA feed ${feedId} answered "not modified" to a cold request`);
+    return { status: 'unchanged' };
+  }
+
+  const timestampMs = peekHeaderTimestampMs(payload.bytes);
+  if (previous && timestampMs !== null && timestampMs === previous.headerTimestampMs) {
+    return { status: 'unchanged' };
   }
 
-  const arrayBuffer = await response.arrayBuffer();
-  const byteBuffer = Buffer.from(arrayBuffer);
-  return transit_realtime.FeedMessage.decode(byteBuffer) as transit_realtime.FeedMessage;
+  return {
+    status: 'changed',
+    bytes: payload.bytes,
+    headerTimestampMs: timestampMs,
+    etag: payload.etag,
+    lastModified: payload.lastModified,
+  };
 }
 
 async function fetchWithRetry(
   feedId: FeedId,
+  transport: FeedTransport,
+  previous: CacheEntry | undefined,
   signal?: AbortSignal,
   retries = MAX_RETRIES,
-): Promise<transit_realtime.FeedMessage> {
+): Promise<FetchResult> {
   let lastError: Error | undefined;
 
   for (let attempt = 0; attempt <= retries; attempt++) {
     try {
-      return await fetchAndDecode(feedId, signal);
+      return await fetchPayload(feedId, transport, previous, signal);
     } catch (err) {
       lastError = err instanceof Error ? err : new Error(String(err));
 
@@ -83,7 +174,8 @@ async function fetchWithRetry(
 
       // Wait before retrying
       if (attempt < retries) {
-        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * (attempt + 1)));
+        const delay = backoffDelayMs(attempt, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS);
+        await new Promise((resolve) => setTimeout(resolve, delay));
       }
     }
   }
@@ -91,6 +183,94 @@ async function fetchWithRetry(
   throw lastError ?? new Error(`Failed to fetch feed ${feedId}`);
 }
 
+// ── In-flight requests ─────────────────────────────────────────────
+
+type InFlight = {
+  promise: Promise<CacheEntry>;
+  /** Aborts the shared request once every waiting caller has given up */
+  controller: AbortController;
+  /** Callers still interested in the result */
+  waiters: number;
+};
+
+/** Keyed like the cache, so concurrent callers share one transport request. */
+const inFlight = new Map<FeedTransport, Map<FeedId, InFlight>>();
+
+function inFlightFor(transport: FeedTransport): Map<FeedId, InFlight> {
+  let flights = inFlight.get(transport);
+  if (!flights) {
+    flights = new Map();
+    inFlight.set(transport, flights);
+  }
+  return flights;
+}
+
+function abortError(): Error {
+  const err = new Error('Feed request aborted');
+  err.name = 'AbortError';
+  return err;
+}
+
+/**
+ * Wait on a shared request.  A caller's own signal only rejects that
+ * caller; the underlying request is aborted when the last one leaves.
+ */
+function joinInFlight(flight: InFlight, signal: AbortSignal | undefined): Promise<CacheEntry> {
+  if (!signal) {
+    flight.waiters += 1;
+    return flight.promise;
+  }
+  if (signal.aborted) return Promise.reject(abortError());
+
+  flight.waiters += 1;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      flight.waiters -= 1;
+      if (flight.waiters === 0) flight.controller.abort();
+      reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort);
+    flight.promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+// ── Metrics ────────────────────────────────────────────────────────
+
+export type FeedFetchMetrics = {
+  /** Calls to `fetchFeed` */
+  requests: number;
+  /** Served from the TTL cache */
+  cacheHits: number;
+  /** Joined a request already in flight for the same feed */
+  coalesced: number;
+  /** Actually sent to a transport */
+  transportRequests: number;
+};
+
+const metrics: FeedFetchMetrics = {
+  requests: 0,
+  cacheHits: 0,
+  coalesced: 0,
+  transportRequests: 0,
+};
+
+/**
+ * Counters since startup (or the last reset).  Requests saved by
+ * deduplication = `cacheHits + coalesced`.
+ */
+export function getFeedFetchMetrics(): FeedFetchMetrics {
+  return { ...metrics };
+}
+
+export function resetFeedFetchMetrics(): void {
+  metrics.requests = 0;
+  metrics.cacheHits = 0;
+  metrics.coalesced = 0;
+  metrics.transportRequests = 0;
+}
+
 // ── Public API ─────────────────────────────────────────────────────
 
 export type FetchFeedOptions = {
@@ -100,14 +280,150 @@ export type FetchFeedOptions = {
   cacheTtlMs?: number;
   /** Skip retries. Default: false */
   noRetry?: boolean;
+  /** Where feed bytes come from. Default: `defaultTransport` (live MTA over HTTP) */
+  transport?: FeedTransport;
+  /** Receives every new snapshot pulled from the transport (unchanged ones are not recorded) */
+  recorder?: FeedRecorder;
+  /** Report outcomes to the feed health registry and honor its circuit breaker. Default: true */
+  trackHealth?: boolean;
 };
 
+/**
+ * The uncached path: ask the transport, update the cache.
+ */
+async function loadFeed(
+  feedId: FeedId,
+  transport: FeedTransport,
+  options: FetchFeedOptions,
+  signal: AbortSignal,
+): Promise<CacheEntry> {
+  const { noRetry = false, recorder, trackHealth = true } = options;
+  const entries = cacheFor(transport);
+  const previous = entries.get(feedId);
+
+  metrics.transportRequests += 1;
+  // Latency and feed health track the real network, so they stay on the wall clock
+  const startedAt = Date.now();
+  let result: FetchResult;
+  try {
+    result = noRetry
+      ? await fetchPayload(feedId, transport, previous, signal)
+      : await fetchWithRetry(feedId, transport, previous, signal);
+  } catch (err) {
+    if (trackHealth && signal.aborted) {
+      recordFeedAborted(feedId);
+    } else if (trackHealth) {
+      recordFeedFailure(feedId, err instanceof Error ? err : new Error(String(err)));
+    }
+    throw err;
+  }
+  const finishedAt = Date.now();
+  if (trackHealth) recordFeedSuccess(feedId, finishedAt - startedAt, finishedAt);
+  const fetchedAt = clockNow();
+
+  // Only reported when a cached copy exists
+  if (result.status === 'unchanged') {
+    previous!.fetchedAt = fetchedAt;
+    return previous!;
+  }
+
+  // Update cache
+  const { bytes, etag, lastModified } = result;
+  const entry: CacheEntry = {
+    bytes,
+    fetchedAt,
+    // `changedAt` doubles as the payload version, so it must move even
+    // when a paused or manual clock doesn't
+    changedAt: previous && previous.changedAt >= fetchedAt ? previous.changedAt + 1 : fetchedAt,
+    headerTimestampMs: result.headerTimestampMs,
+    etag,
+    lastModified,
+  };
+  entries.set(feedId, entry);
+  recorder?.record({ feedId, fetchedAt, bytes });
+
+  return entry;
+}
+
+/**
+ * Cache, coalescing and health checks shared by `fetchFeed` and
+ * `fetchFeedData`.
+ */
+function fetchEntry(feedId: FeedId, options: FetchFeedOptions): Promise<CacheEntry> {
+  const {
+    signal,
+    cacheTtlMs = DEFAULT_CACHE_TTL_MS,
+    transport = defaultTransport,
+    trackHealth = true,
+  } = options;
+  metrics.requests += 1;
+
+  // Check cache
+  const previous = cacheFor(transport).get(feedId);
+  if (cacheTtlMs > 0 && previous && clockNow() - previous.fetchedAt < cacheTtlMs) {
+    metrics.cacheHits += 1;
+    return Promise.resolve(previous);
+  }
+
+  // Join a request already on its way
+  const flights = inFlightFor(transport);
+  const pending = flights.get(feedId);
+  if (pending && !pending.controller.signal.aborted) {
+    metrics.coalesced += 1;
+    return joinInFlight(pending, signal);
+  }
+
+  if (trackHealth) assertFeedAvailable(feedId);
+
+  const controller = new AbortController();
+  const flight: InFlight = {
+    promise: loadFeed(feedId, transport, options, controller.signal).finally(() => {
+      // An abandoned request may already have been replaced by a new one
+      if (flights.get(feedId) === flight) flights.delete(feedId);
+    }),
+    controller,
+    waiters: 0,
+  };
+  flights.set(feedId, flight);
+  return joinInFlight(flight, signal);
+}
+
+/**
+ * Decodes a cache entry once.  A payload that fails to decode is
+ * dropped so the next request fetches a fresh one.
+ */
+function decodedMessage(
+  feedId: FeedId,
+  entry: CacheEntry,
+  transport: FeedTransport,
+): transit_realtime.FeedMessage {
+  if (entry.message) return entry.message;
+  try {
+    entry.message = decodeFeed(entry.bytes, getFeedDefinition(feedId).decoding);
+  } catch (err) {
+    const entries = cacheFor(transport);
+    if (entries.get(feedId) === entry) entries.delete(feedId);
+    throw err;
+  }
+  entry.headerTimestampMs ??= headerTimestampMs(entry.message);
+  return entry.message;
+}
+
 /**
  * Fetches and decodes a single MTA GTFS-RT feed.
  *
+ * - Reads bytes through the configured `FeedTransport` (live HTTP by default)
  * - Serves from a TTL-based in-memory cache when fresh
- * - Retries once with exponential backoff on failure
+ * - Concurrent callers for the same feed share one in-flight request
+ *   (the first caller's options apply to it)
+ * - Once the TTL lapses, revalidates with ETag / Last-Modified and the
+ *   GTFS-RT header timestamp; an unchanged feed resolves to the *same*
+ *   `FeedMessage` object, so callers can skip re-mapping by identity
+ * - Retries with jittered exponential backoff on failure
+ * - Records latency / errors in the feed health registry and fails fast
+ *   with `FeedUnavailableError` while a feed's circuit is open
  * - Supports AbortController cancellation
+ * - Hands each new snapshot to `options.recorder`, if set
  *
  * @returns The decoded FeedMessage (contains vehicle, trip_update, and alert entities)
  */
@@ -115,24 +431,66 @@ export async function fetchFeed(
   feedId: FeedId,
   options: FetchFeedOptions = {},
 ): Promise<transit_realtime.FeedMessage> {
-  const { signal, cacheTtlMs = DEFAULT_CACHE_TTL_MS, noRetry = false } = options;
+  const entry = await fetchEntry(feedId, options);
+  return decodedMessage(feedId, entry, options.transport ?? defaultTransport);
+}
 
-  // Check cache
-  if (cacheTtlMs > 0) {
-    const entry = cache.get(feedId);
-    if (entry && Date.now() - entry.fetchedAt < cacheTtlMs) {
-      return entry.message;
-    }
-  }
+/** An undecoded feed snapshot, for handing to a decoder off the JS thread. */
+export type FeedData = {
+  feedId: FeedId;
+  /** Raw GTFS-RT protobuf bytes */
+  bytes: Uint8Array;
+  /**
+   * Changes whenever the payload does — consumers can skip re-decoding
+   * a feed whose version they have already seen.
+   */
+  version: number;
+  /** GTFS-RT header timestamp, in ms (read without a full decode) */
+  headerTimestampMs: number | null;
+};
+
+/**
+ * Like `fetchFeed`, with the same caching, coalescing, retries and
+ * health tracking, but resolves to the raw payload without decoding it.
+ */
+export async function fetchFeedData(
+  feedId: FeedId,
+  options: FetchFeedOptions = {},
+): Promise<FeedData> {
+  const { bytes, changedAt, headerTimestampMs } = await fetchEntry(feedId, options);
+  return { feedId, bytes, version: changedAt, headerTimestampMs };
+}
+
+/**
+ * Drops a payload from the cache, e.g. after it failed to decode
+ * elsewhere, so the next request fetches a fresh one.  A newer payload
+ * cached since is kept.
+ */
+export function discardFeedData(data: FeedData, options: FetchFeedOptions = {}): void {
+  const entries = cacheFor(options.transport ?? defaultTransport);
+  if (entries.get(data.feedId)?.changedAt === data.version) entries.delete(data.feedId);
+}
 
-  const message = noRetry
-    ? await fetchAndDecode(feedId, signal)
-    : await fetchWithRetry(feedId, signal);
+async function settleFeeds<T>(
+  feedIds: FeedId[],
+  fetchOne: (feedId: FeedId) => Promise<T>,
+): Promise<{ results: Map<FeedId, T>; errors: Map<FeedId, Error> }> {
+  const settled = await Promise.allSettled(feedIds.map(fetchOne));
 
-  // Update cache
-  cache.set(feedId, { message, fetchedAt: Date.now() });
+  const results = new Map<FeedId, T>();
+  const errors = new Map<FeedId, Error>();
 
-  return message;
+  settled.forEach((result, idx) => {
+    const feedId = feedIds[idx];
+    if (result.status === 'fulfilled') {
+      results.set(feedId, result.value);
+    } else {
+      const err = result.reason instanceof Error ? result.reason : new Error(String(result.reason));
+      errors.set(feedId, err);
+    }
+  });
+
+  return { results, errors };
 }
 
 /**
@@ -140,35 +498,22 @@ export async function fetchFeed(
  *
  * @returns An object with the successfully decoded messages and any errors.
  */
-export async function fetchFeeds(
+export function fetchFeeds(
   feedIds: FeedId[],
   options: FetchFeedOptions = {},
 ): Promise<{
   results: Map<FeedId, transit_realtime.FeedMessage>;
   errors: Map<FeedId, Error>;
 }> {
-  const settled = await Promise.allSettled(
-    feedIds.map(async (feedId) => {
-      const message = await fetchFeed(feedId, options);
-      return { feedId, message };
-    }),
-  );
-
-  const results = new Map<FeedId, transit_realtime.FeedMessage>();
-  const errors = new Map<FeedId, Error>();
-
-  for (const result of settled) {
-    if (result.status === 'fulfilled') {
-      results.set(result.value.feedId, result.value.message);
-    } else {
-      // Extract feedId from the error context — settled doesn't track it,
-      // so we match by index.
-      const idx = settled.indexOf(result);
-      const feedId = feedIds[idx];
-      const err = result.reason instanceof Error ? result.reason : new Error(String(result.reason));
-      if (feedId) errors.set(feedId, err);
-    }
-  }
+  return settleFeeds(feedIds, (feedId) => fetchFeed(feedId, options));
+}
 
-  return { results, errors };
+/**
+ * Fetches multiple feeds' raw payloads in parallel (see `fetchFeedData`).
+ */
+export function fetchFeedsData(
+  feedIds: FeedId[],
+  options: FetchFeedOptions = {},
+): Promise<{ results: Map<FeedId, FeedData>; errors: Map<FeedId, Error> }> {
+  return settleFeeds(feedIds, (feedId) => fetchFeedData(feedId, options));
 }
@@ -0,0 +1,210 @@
+import { FeedId } from '../types';
+
+// ── Constants ──────────────────────────────────────────────────────
+
+/** Consecutive failures that open a feed's circuit. */
+const FAILURE_THRESHOLD = 3;
+/** Cool-down ceiling when the circuit first opens; doubles on every re-open. */
+const BASE_COOLDOWN_MS = 30_000;
+const MAX_COOLDOWN_MS = 5 * 60_000;
+/** Success rate is computed over this many most recent requests. */
+const WINDOW_SIZE = 20;
+/** Weight of the newest sample in the latency moving average. */
+const LATENCY_SMOOTHING = 0.3;
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/**
+ * - `closed`    — requests flow normally
+ * - `open`      — the feed is failing; requests are refused until `retryAt`
+ * - `half-open` — cool-down over; one trial request decides what's next
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type FeedHealth = {
+  feedId: FeedId;
+  /** Share of the recent requests that succeeded (0–1), null before any */
+  successRate: number | null;
+  /** Moving average of successful request latency */
+  latencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  lastSuccessAt: number | null;
+  consecutiveFailures: number;
+  circuit: CircuitState;
+  /** When an open circuit lets the next trial request through */
+  retryAt: number | null;
+};
+
+/** Thrown instead of hitting a feed whose circuit is open. */
+export class FeedUnavailableError extends Error {
+  readonly feedId: FeedId;
+  readonly retryAt: number;
+
+  constructor(feedId: FeedId, retryAt: number) {
+    super(`MTA feed ${feedId} is unavailable; retrying after ${new Date(retryAt).toISOString()}`);
+    this.name = 'FeedUnavailableError';
+    this.feedId = feedId;
+    this.retryAt = retryAt;
+  }
+}
+
+// ── Backoff ────────────────────────────────────────────────────────
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed, the
+ * other half random, so retries from many clients spread out without
+ * ever retrying immediately.
+ *
+ * @param attempt  0 for the first retry
+ */
+export function backoffDelayMs(attempt: number, baseMs: number, maxMs: number): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+// ── Registry ───────────────────────────────────────────────────────
+
+type Tracker = FeedHealth & {
+  /** Outcomes of the last `WINDOW_SIZE` requests (true = success) */
+  window: boolean[];
+  /** How many times in a row the circuit has opened */
+  openings: number;
+};
+
+const trackers = new Map<FeedId, Tracker>();
+const listeners = new Set<() => void>();
+
+function trackerFor(feedId: FeedId): Tracker {
+  let tracker = trackers.get(feedId);
+  if (!tracker) {
+    tracker = {
+      feedId,
+      successRate: null,
+      latencyMs: null,
+      lastError: null,
+      lastErrorAt: null,
+      lastSuccessAt: null,
+      consecutiveFailures: 0,
+      circuit: 'closed',
+      retryAt: null,
+      window: [],
+      openings: 0,
+    };
+    trackers.set(feedId, tracker);
+  }
+  return tracker;
+}
+
+function pushOutcome(tracker: Tracker, ok: boolean): void {
+  tracker.window.push(ok);
+  if (tracker.window.length > WINDOW_SIZE) tracker.window.shift();
+  tracker.successRate = tracker.window.filter(Boolean).length / tracker.window.length;
+}
+
+function snapshot({ window: _w, openings: _o, ...health }: Tracker): FeedHealth {
+  return health;
+}
+
+function notify(): void {
+  for (const listener of listeners) listener();
+}
+
+/**
+ * Whether a request to `feedId` may go out now.
+ *
+ * @throws FeedUnavailableError while the circuit is open.  Once the
+ *   cool-down has passed the circuit turns half-open and one trial
+ *   request is let through.
+ */
+export function assertFeedAvailable(feedId: FeedId, nowMs: number = Date.now()): void {
+  const tracker = trackers.get(feedId);
+  if (!tracker || tracker.circuit === 'closed') return;
+
+  if (tracker.circuit === 'open' && tracker.retryAt !== null && nowMs >= tracker.retryAt) {
+    tracker.circuit = 'half-open';
+    notify();
+    return;
+  }
+
+  // Open, or half-open with the trial request already in flight
+  throw new FeedUnavailableError(feedId, tracker.retryAt ?? nowMs);
+}
+
+export function recordFeedSuccess(
+  feedId: FeedId,
+  latencyMs: number,
+  nowMs: number = Date.now(),
+): void {
+  const tracker = trackerFor(feedId);
+  pushOutcome(tracker, true);
+  tracker.latencyMs =
+    tracker.latencyMs === null
+      ? latencyMs
+      : tracker.latencyMs + LATENCY_SMOOTHING * (latencyMs - tracker.latencyMs);
+  tracker.lastSuccessAt = nowMs;
+  tracker.consecutiveFailures = 0;
+  tracker.circuit = 'closed';
+  tracker.retryAt = null;
+  tracker.openings = 0;
+  notify();
+}
+
+export function recordFeedFailure(feedId: FeedId, error: Error, nowMs: number = Date.now()): void {
+  const tracker = trackerFor(feedId);
+  pushOutcome(tracker, false);
+  tracker.lastError = error.message;
+  tracker.lastErrorAt = nowMs;
+  tracker.consecutiveFailures += 1;
+
+  // A failed trial re-opens immediately; otherwise wait for the threshold
+  if (tracker.circuit === 'half-open' || tracker.consecutiveFailures >= FAILURE_THRESHOLD) {
+    tracker.circuit = 'open';
+    tracker.retryAt = nowMs + backoffDelayMs(tracker.openings, BASE_COOLDOWN_MS, MAX_COOLDOWN_MS);
+    tracker.openings += 1;
+  }
+  notify();
+}
+
+/**
+ * A request was cancelled before it could succeed or fail.  If it was
+ * the half-open trial, re-open so the next caller gets to try instead.
+ */
+export function recordFeedAborted(feedId: FeedId): void {
+  const tracker = trackers.get(feedId);
+  if (tracker?.circuit !== 'half-open') return;
+  tracker.circuit = 'open';
+  notify();
+}
+
+/** Current health of one feed, or `undefined` if it has never been requested. */
+export function getFeedHealth(feedId: FeedId): FeedHealth | undefined {
+  const tracker = trackers.get(feedId);
+  return tracker ? snapshot(tracker) : undefined;
+}
+
+/** Health of every feed requested so far, keyed by feed ID. */
+export function getAllFeedHealth(): Partial<Record<FeedId, FeedHealth>> {
+  const all: Partial<Record<FeedId, FeedHealth>> = {};
+  for (const [feedId, tracker] of trackers) {
+    all[feedId] = snapshot(tracker);
+  }
+  return all;
+}
+
+/** Forget all health history and close every circuit. */
+export function resetFeedHealth(): void {
+  trackers.clear();
+  notify();
+}
+
+/**
+ * Subscribe to health changes.
+ * @returns An unsubscribe function.
+ */
+export function subscribeToFeedHealth(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
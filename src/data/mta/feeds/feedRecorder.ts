@@ -0,0 +1,114 @@
+import { Buffer } from 'buffer';
+import { FeedId } from '../types';
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** One decoded-successfully feed payload, as fetched. */
+export type FeedSnapshot = {
+  feedId: FeedId;
+  /** Wall-clock time of the fetch (ms since epoch) */
+  fetchedAt: number;
+  /** Raw GTFS-RT protobuf bytes */
+  bytes: Uint8Array;
+};
+
+/** Receives every feed `fetchFeed` pulls from its transport. */
+export type FeedRecorder = {
+  record(snapshot: FeedSnapshot): void;
+};
+
+/**
+ * On-disk archive format.  Plain JSON so it can be written with
+ * `expo-file-system`, shared, and diffed; payloads are base64.
+ */
+export type FeedArchive = {
+  version: typeof ARCHIVE_VERSION;
+  /** When the archive was produced (ms since epoch) */
+  createdAt: number;
+  snapshots: Array<{ feedId: FeedId; fetchedAt: number; data: string }>;
+};
+
+const ARCHIVE_VERSION = 1;
+
+// ── Recorder ───────────────────────────────────────────────────────
+
+export type RecorderOptions = {
+  /** Oldest snapshots are dropped past this count. Default: unlimited */
+  maxSnapshots?: number;
+};
+
+export type MemoryFeedRecorder = FeedRecorder & {
+  /** Recorded snapshots, oldest first. */
+  snapshots(): FeedSnapshot[];
+  toArchive(): FeedArchive;
+  clear(): void;
+};
+
+/**
+ * Collects snapshots in memory.  Pass it as `FetchFeedOptions.recorder`
+ * (or to `MTASubwayService`) and persist with `serializeArchive`:
+ *
+ * ```ts
+ * const recorder = createFeedRecorder();
+ * const service = new MTASubwayService({ recorder });
+ * // … later
+ * await FileSystem.writeAsStringAsync(path, serializeArchive(recorder.toArchive()));
+ * ```
+ */
+export function createFeedRecorder(options: RecorderOptions = {}): MemoryFeedRecorder {
+  const { maxSnapshots = Infinity } = options;
+  let recorded: FeedSnapshot[] = [];
+
+  return {
+    record(snapshot) {
+      recorded.push(snapshot);
+      if (recorded.length > maxSnapshots) {
+        recorded = recorded.slice(recorded.length - maxSnapshots);
+      }
+    },
+    snapshots: () => [...recorded],
+    toArchive: () => toArchive(recorded),
+    clear() {
+      recorded = [];
+    },
+  };
+}
+
+// ── Archive (de)serialization ──────────────────────────────────────
+
+export function toArchive(snapshots: FeedSnapshot[]): FeedArchive {
+  return {
+    version: ARCHIVE_VERSION,
+    createdAt: Date.now(),
+    snapshots: snapshots.map((s) => ({
+      feedId: s.feedId,
+      fetchedAt: s.fetchedAt,
+      data: Buffer.from(s.bytes).toString('base64'),
+    })),
+  };
+}
+
+export function serializeArchive(archive: FeedArchive): string {
+  return JSON.stringify(archive);
+}
+
+/**
+ * Parse an archive written by `serializeArchive`.
+ * Snapshots are returned sorted by fetch time.
+ *
+ * @throws if the JSON is not a supported archive version
+ */
+export function parseArchive(json: string): FeedSnapshot[] {
+  const archive = JSON.parse(json) as Partial<FeedArchive>;
+  if (archive.version !== ARCHIVE_VERSION || !Array.isArray(archive.snapshots)) {
+    throw new Error(`Unsupported feed archive (version ${String(archive.version)})`);
+  }
+
+  return archive.snapshots
+    .map((s) => ({
+      feedId: s.feedId,
+      fetchedAt: s.fetchedAt,
+      bytes: new Uint8Array(Buffer.from(s.data, 'base64')),
+    }))
+    .sort((a, b) => a.fetchedAt - b.fetchedAt);
+}
@@ -1,89 +1,260 @@
-import { FeedId } from '../types';
-
-// ── Route → Feed mapping ───────────────────────────────────────────
-
-const ROUTE_TO_FEED: Record<string, FeedId> = {
-  // Default feed: numbered lines + 42nd St Shuttle
-  '1': FeedId.Default,
-  '2': FeedId.Default,
-  '3': FeedId.Default,
-  '4': FeedId.Default,
-  '5': FeedId.Default,
-  '6': FeedId.Default,
-  '6X': FeedId.Default,
-  '7': FeedId.Default,
-  '7X': FeedId.Default,
-  S: FeedId.Default,
-  GS: FeedId.Default,
-
-  // ACE + Rockaway Shuttle
-  A: FeedId.ACE,
-  C: FeedId.ACE,
-  E: FeedId.ACE,
-  H: FeedId.ACE,
-
-  // BDFM
-  B: FeedId.BDFM,
-  D: FeedId.BDFM,
-  F: FeedId.BDFM,
-  M: FeedId.BDFM,
-
-  // Single-line feeds
-  G: FeedId.G,
-  J: FeedId.JZ,
-  Z: FeedId.JZ,
-  L: FeedId.L,
-
-  // NQRW
-  N: FeedId.NQRW,
-  Q: FeedId.NQRW,
-  R: FeedId.NQRW,
-  W: FeedId.NQRW,
-
-  // Staten Island Railway
-  SI: FeedId.SI,
-  FS: FeedId.SI,
+import { normalizeRouteId } from '../routeColors';
+import { FeedId, type TransitMode } from '../types';
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export type FeedAgency = 'nyct' | 'lirr' | 'mnr' | 'mtabus';
+
+/** Vehicles and trip updates, or service alerts. */
+export type FeedContent = 'trips' | 'alerts';
+
+export type FeedDecodingOptions = {
+  /** Read the NYCT trip descriptor / stop time update extensions */
+  nyctExtensions: boolean;
+  /** Read the MTA Mercury alert extensions (alert feeds only) */
+  mercuryExtensions: boolean;
+};
+
+/** Everything the pipeline needs to know about one GTFS-RT feed. */
+export type FeedDefinition = {
+  id: FeedId;
+  agency: FeedAgency;
+  mode: TransitMode;
+  /** What the feed carries. Default: 'trips' */
+  content?: FeedContent;
+  /** Rider-facing name for the lines it carries (e.g. "G line") */
+  label: string;
+  /**
+   * Absolute URL of the feed.  Default: `${MTA_FEED_BASE}/${id}`.
+   * Ignored when a transport is pointed at a custom base URL.
+   */
+  url?: string;
+  /** Which API key the endpoint expects. Default: 'mta' */
+  apiKey?: 'mta' | 'bus-time';
+  /** Route IDs the feed carries, or 'all' for every route of its mode */
+  routes: string[] | 'all';
+  decoding: FeedDecodingOptions;
+};
+
+/** Thrown when no registered feed carries a requested route. */
+export class UnmappedRouteError extends Error {
+  readonly route: string;
+  readonly mode: TransitMode;
+
+  constructor(route: string, mode: TransitMode) {
+    super(`No ${mode} feed carries route "${route}"`);
+    this.name = 'UnmappedRouteError';
+    this.route = route;
+    this.mode = mode;
+  }
+}
+
+// ── Registry ───────────────────────────────────────────────────────
+
+const NYCT: Pick<FeedDefinition, 'agency' | 'mode' | 'decoding'> = {
+  agency: 'nyct',
+  mode: 'subway',
+  decoding: { nyctExtensions: true, mercuryExtensions: false },
 };
 
-/** All available feed IDs. */
-export const ALL_FEEDS: FeedId[] = Object.values(FeedId);
+const BUS_TIME_BASE = 'https://gtfsrt.prod.obanyc.com';
 
 /**
- * Returns the feed ID that carries data for the given route.
- * Falls back to `FeedId.Default` for unknown routes.
+ * Every known feed.  Add a row here to bring a new feed into
+ * `fetchFeeds`, route lookups and health reporting.
+ */
+export const FEED_DEFINITIONS: readonly FeedDefinition[] = [
+  // Numbered lines + 42nd St Shuttle
+  {
+    ...NYCT,
+    id: FeedId.Default,
+    label: '1–7 & S lines',
+    routes: ['1', '2', '3', '4', '5', '6', '6X', '7', '7X', 'S', 'GS'],
+  },
+  // ACE + Rockaway and Franklin Av shuttles
+  {
+    ...NYCT,
+    id: FeedId.ACE,
+    label: 'A/C/E lines',
+    routes: ['A', 'C', 'E', 'H', 'FS'],
+  },
+  { ...NYCT, id: FeedId.BDFM, label: 'B/D/F/M lines', routes: ['B', 'D', 'F', 'M'] },
+  { ...NYCT, id: FeedId.G, label: 'G line', routes: ['G'] },
+  { ...NYCT, id: FeedId.JZ, label: 'J/Z lines', routes: ['J', 'Z'] },
+  { ...NYCT, id: FeedId.L, label: 'L line', routes: ['L'] },
+  { ...NYCT, id: FeedId.NQRW, label: 'N/Q/R/W lines', routes: ['N', 'Q', 'R', 'W'] },
+  {
+    ...NYCT,
+    id: FeedId.SI,
+    label: 'Staten Island Railway',
+    routes: ['SI'],
+  },
+  // Alerts for every line come from their own Mercury feed, not the trip feeds
+  {
+    id: FeedId.SubwayAlerts,
+    agency: 'nyct',
+    mode: 'subway',
+    content: 'alerts',
+    label: 'Subway alerts',
+    routes: 'all',
+    decoding: { nyctExtensions: false, mercuryExtensions: true },
+  },
+
+  // Commuter rail — route IDs are branch numbers from each railroad's static GTFS
+  {
+    id: FeedId.LIRR,
+    agency: 'lirr',
+    mode: 'rail',
+    label: 'LIRR',
+    routes: 'all',
+    decoding: { nyctExtensions: false, mercuryExtensions: false },
+  },
+  {
+    id: FeedId.MNR,
+    agency: 'mnr',
+    mode: 'rail',
+    label: 'Metro-North',
+    routes: 'all',
+    decoding: { nyctExtensions: false, mercuryExtensions: false },
+  },
+
+  // Buses
+  {
+    id: FeedId.BusVehicles,
+    agency: 'mtabus',
+    mode: 'bus',
+    label: 'Bus locations',
+    url: `${BUS_TIME_BASE}/vehiclePositions`,
+    apiKey: 'bus-time',
+    routes: 'all',
+    decoding: { nyctExtensions: false, mercuryExtensions: false },
+  },
+  {
+    id: FeedId.BusTrips,
+    agency: 'mtabus',
+    mode: 'bus',
+    label: 'Bus arrivals',
+    url: `${BUS_TIME_BASE}/tripUpdates`,
+    apiKey: 'bus-time',
+    routes: 'all',
+    decoding: { nyctExtensions: false, mercuryExtensions: false },
+  },
+];
+
+const definitionsById = new Map(FEED_DEFINITIONS.map((def) => [def.id, def]));
+
+function carries(def: FeedDefinition, content: FeedContent): boolean {
+  return (def.content ?? 'trips') === content;
+}
+
+/** Feeds with vehicles and trip updates — everything route lookups consider. */
+const TRIP_FEED_DEFINITIONS = FEED_DEFINITIONS.filter((def) => carries(def, 'trips'));
+
+/** Route → feed, per mode (route IDs overlap across agencies, e.g. LIRR "1"). */
+const routeIndex = new Map<TransitMode, Map<string, FeedId>>();
+for (const def of TRIP_FEED_DEFINITIONS) {
+  if (def.routes === 'all') continue;
+  let routes = routeIndex.get(def.mode);
+  if (!routes) {
+    routes = new Map();
+    routeIndex.set(def.mode, routes);
+  }
+  for (const route of def.routes) routes.set(route, def.id);
+}
+
+// ── Lookups ────────────────────────────────────────────────────────
+
+/** The registry entry for a feed. */
+export function getFeedDefinition(feedId: FeedId): FeedDefinition {
+  const def = definitionsById.get(feedId);
+  if (!def) throw new Error(`Feed ${feedId} is not registered`);
+  return def;
+}
+
+/**
+ * Rider-facing name for the lines a feed carries (e.g. "G line").
+ */
+export function getFeedLabel(feedId: FeedId): string {
+  return getFeedDefinition(feedId).label;
+}
+
+/** IDs of every trip feed serving `mode`. */
+export function getFeedsForMode(mode: TransitMode): FeedId[] {
+  return TRIP_FEED_DEFINITIONS.filter((def) => def.mode === mode).map((def) => def.id);
+}
+
+/** IDs of the service alert feeds for `mode`. */
+export function getAlertFeedsForMode(mode: TransitMode): FeedId[] {
+  return FEED_DEFINITIONS.filter((def) => def.mode === mode && carries(def, 'alerts')).map(
+    (def) => def.id,
+  );
+}
+
+/** All registered feed IDs, every mode and content. */
+export const ALL_FEEDS: FeedId[] = FEED_DEFINITIONS.map((def) => def.id);
+
+/** All subway trip feed IDs — what the subway map polls by default. */
+export const SUBWAY_FEEDS: FeedId[] = getFeedsForMode('subway');
+
+/** Subway service alert feed IDs — what `fetchAlerts` polls. */
+export const SUBWAY_ALERT_FEEDS: FeedId[] = getAlertFeedsForMode('subway');
+
+/**
+ * Returns the feed IDs that carry data for the given route.  Modes
+ * whose feeds carry every route (rail, bus) return all of them.
+ *
+ * @throws UnmappedRouteError if no `mode` feed carries the route
+ */
+export function getFeedsForRoute(route: string, mode: TransitMode = 'subway'): FeedId[] {
+  const routes = routeIndex.get(mode);
+  // Other spellings (e.g. the station data's "SIR") by their canonical ID
+  const feedId = routes?.get(route.toUpperCase()) ?? routes?.get(normalizeRouteId(route));
+  if (feedId) return [feedId];
+
+  const catchAll = TRIP_FEED_DEFINITIONS.filter((def) => def.mode === mode && def.routes === 'all');
+  if (catchAll.length > 0) return catchAll.map((def) => def.id);
+
+  throw new UnmappedRouteError(route, mode);
+}
+
+/**
+ * Returns the single feed carrying a subway route.
+ *
+ * @throws UnmappedRouteError for routes no subway feed carries
  */
 export function getFeedForRoute(route: string): FeedId {
-  return ROUTE_TO_FEED[route.toUpperCase()] ?? FeedId.Default;
+  return getFeedsForRoute(route, 'subway')[0];
 }
 
 /**
  * Returns the minimal, deduplicated set of feed IDs needed to cover
- * the given routes.  If `routes` is undefined or empty, returns all feeds.
+ * the given routes.  If `routes` is undefined or empty, returns every
+ * feed of `mode`.
+ *
+ * @throws UnmappedRouteError if any route has no feed
  *
  * @example
  * getFeedsForRoutes(['A', 'C', '7'])
  * // → [FeedId.ACE, FeedId.Default]   (A and C share ACE, 7 is in Default)
  */
-export function getFeedsForRoutes(routes?: string[]): FeedId[] {
+export function getFeedsForRoutes(routes?: string[], mode: TransitMode = 'subway'): FeedId[] {
   if (!routes || routes.length === 0) {
-    return ALL_FEEDS;
+    return getFeedsForMode(mode);
   }
 
   const unique = new Set<FeedId>();
   for (const route of routes) {
-    unique.add(getFeedForRoute(route));
+    for (const feedId of getFeedsForRoute(route, mode)) unique.add(feedId);
   }
   return [...unique];
 }
 
 /**
- * Returns all route IDs that are served by the given feed.
+ * Returns the route IDs listed for the given feed (empty for feeds
+ * that carry every route of their mode).
  * Useful for filtering results after fetching a feed.
  */
 export function getRoutesForFeed(feedId: FeedId): string[] {
-  const routes: string[] = [];
-  for (const [route, feed] of Object.entries(ROUTE_TO_FEED)) {
-    if (feed === feedId) routes.push(route);
-  }
-  return routes;
+  const { routes } = getFeedDefinition(feedId);
+  return routes === 'all' ? [] : [...routes];
 }
@@ -0,0 +1,276 @@
+import { transit_realtime } from 'gtfs-realtime-bindings';
+import type { Clock } from '../clock';
+import { FeedId } from '../types';
+import type { FeedSnapshot } from './feedRecorder';
+import { getFeedDefinition } from './feedRegistry';
+
+// ── Constants ──────────────────────────────────────────────────────
+
+export const MTA_FEED_BASE = 'https://api-endpoint.mta.info/Dataservice/mtagtfsfeeds';
+
+// ── Transport contract ─────────────────────────────────────────────
+
+export type FeedRequest = {
+  signal?: AbortSignal;
+  /** `etag` of the copy already held — the transport may answer "not modified" */
+  etag?: string;
+  /** `lastModified` of the copy already held */
+  lastModified?: string;
+};
+
+export type FeedPayload =
+  | {
+      status: 'ok';
+      bytes: Uint8Array;
+      /** Opaque validator to send back on the next request */
+      etag?: string;
+      lastModified?: string;
+    }
+  | { status: 'not-modified' };
+
+/**
+ * Source of raw GTFS-RT protobuf bytes.
+ *
+ * `feedFetcher` handles caching, retries and decoding on top of
+ * whichever transport is active, so a transport only has to hand back
+ * the undecoded payload for a feed — or say it hasn't changed since
+ * the validators in the request.
+ */
+export type FeedTransport = {
+  /** Short label used in error messages (e.g. "http", "file", "memory") */
+  readonly name: string;
+  fetchFeedBytes(feedId: FeedId, request?: FeedRequest): Promise<FeedPayload>;
+};
+
+// ── API key ────────────────────────────────────────────────────────
+
+function getApiKey(): string | undefined {
+  return process.env.EXPO_PUBLIC_MTA_API_KEY ?? undefined;
+}
+
+export function hasApiKey(): boolean {
+  return !!getApiKey();
+}
+
+/** MTA Bus Time uses its own key, passed as a query parameter. */
+function getBusTimeKey(): string | undefined {
+  return process.env.EXPO_PUBLIC_MTA_BUS_TIME_KEY ?? undefined;
+}
+
+// ── HTTP ───────────────────────────────────────────────────────────
+
+export type HttpTransportOptions = {
+  /**
+   * Base URL every feed ID is appended to.  Default: each feed's
+   * registered URL (the live MTA endpoints)
+   */
+  baseUrl?: string;
+  /** Sent as `x-api-key` when present. Default: `EXPO_PUBLIC_MTA_API_KEY` */
+  apiKey?: string;
+  /** Key for Bus Time feeds. Default: `EXPO_PUBLIC_MTA_BUS_TIME_KEY` */
+  busTimeKey?: string;
+};
+
+/**
+ * Fetches feeds over HTTP from their registered URLs (or
+ * `${baseUrl}/${feedId}`), sending `If-None-Match` /
+ * `If-Modified-Since` when validators are supplied.
+ *
+ * Point `baseUrl` at a local GTFS-RT stand-in server to run the app
+ * against mock data that is still real protobuf.
+ */
+export function createHttpTransport(options: HttpTransportOptions = {}): FeedTransport {
+  const baseUrl = options.baseUrl?.replace(/\/+$/, '');
+  const apiKey = options.apiKey ?? getApiKey();
+  const busTimeKey = options.busTimeKey ?? getBusTimeKey();
+
+  const feedUrl = (feedId: FeedId): string => {
+    if (baseUrl) return `${baseUrl}/${feedId}`;
+    const def = getFeedDefinition(feedId);
+    const url = def.url ?? `${MTA_FEED_BASE}/${feedId}`;
+    if (def.apiKey === 'bus-time') {
+      if (!busTimeKey) throw new Error(`${def.label} needs EXPO_PUBLIC_MTA_BUS_TIME_KEY`);
+      return `${url}?key=${encodeURIComponent(busTimeKey)}`;
+    }
+    return url;
+  };
+
+  return {
+    name: 'http',
+    async fetchFeedBytes(feedId, request = {}) {
+      const url = feedUrl(feedId);
+      const headers: Record<string, string> = {};
+      if (apiKey) headers['x-api-key'] = apiKey;
+      if (request.etag) headers['If-None-Match'] = request.etag;
+      if (request.lastModified) headers['If-Modified-Since'] = request.lastModified;
+
+      const response = await fetch(url, { headers, signal: request.signal });
+
+      if (response.status === 304) return { status: 'not-modified' };
+      if (!response.ok) {
+        throw new Error(`MTA feed ${feedId} failed with status ${response.status}`);
+      }
+
+      return {
+        status: 'ok',
+        bytes: new Uint8Array(await response.arrayBuffer()),
+        etag: response.headers.get('etag') ?? undefined,
+        lastModified: response.headers.get('last-modified') ?? undefined,
+      };
+    },
+  };
+}
+
+// ── File system / bundled assets ───────────────────────────────────
+
+export type FileTransportOptions = {
+  /** Directory (or URI prefix) holding one `.pb` capture per feed */
+  directory: string;
+  /**
+   * Reads a file's bytes.  Injected so the transport works with
+   * `expo-file-system`, resolved bundled asset URIs, or Node's `fs`
+   * in scripts, without this module depending on any of them.
+   */
+  readFile: (path: string) => Promise<ArrayBuffer | Uint8Array>;
+  /** Maps a feed ID to its file name. Default: `feedFileName` */
+  fileName?: (feedId: FeedId) => string;
+};
+
+/**
+ * Default capture file name for a feed.
+ *
+ * @example
+ * feedFileName(FeedId.ACE)     // → "gtfs-ace.pb"
+ * feedFileName(FeedId.Default) // → "gtfs.pb"
+ */
+export function feedFileName(feedId: FeedId): string {
+  const path = decodeURIComponent(feedId);
+  return `${path.slice(path.lastIndexOf('/') + 1)}.pb`;
+}
+
+/**
+ * Reads feeds from a directory of captured `.pb` files.
+ */
+export function createFileTransport(options: FileTransportOptions): FeedTransport {
+  const directory = options.directory.replace(/\/+$/, '');
+  const fileName = options.fileName ?? feedFileName;
+
+  return {
+    name: 'file',
+    async fetchFeedBytes(feedId, request = {}) {
+      const path = `${directory}/${fileName(feedId)}`;
+      const data = await options.readFile(path);
+      if (request.signal?.aborted) throw new Error(`Read of ${path} was aborted`);
+      return { status: 'ok', bytes: data instanceof Uint8Array ? data : new Uint8Array(data) };
+    },
+  };
+}
+
+// ── In-memory ──────────────────────────────────────────────────────
+
+export type MemoryFeedData = Uint8Array | transit_realtime.IFeedMessage;
+
+export type MemoryTransport = FeedTransport & {
+  /** Replace the payload served for a feed. */
+  set(feedId: FeedId, data: MemoryFeedData): void;
+  /** Stop serving a feed — subsequent fetches fail like a dead endpoint. */
+  remove(feedId: FeedId): void;
+};
+
+function toBytes(data: MemoryFeedData): Uint8Array {
+  if (data instanceof Uint8Array) return data;
+  return transit_realtime.FeedMessage.encode(
+    transit_realtime.FeedMessage.fromObject(data),
+  ).finish();
+}
+
+/**
+ * Serves feeds from memory.  Accepts raw protobuf bytes or plain
+ * `FeedMessage` objects (encoded once, on `set`).
+ */
+export function createMemoryTransport(
+  initial: Partial<Record<FeedId, MemoryFeedData>> = {},
+): MemoryTransport {
+  const feeds = new Map<FeedId, { bytes: Uint8Array; version: string }>();
+  let version = 0;
+  const store = (feedId: FeedId, data: MemoryFeedData) => {
+    feeds.set(feedId, { bytes: toBytes(data), version: String(++version) });
+  };
+  for (const [feedId, data] of Object.entries(initial)) {
+    if (data) store(feedId as FeedId, data);
+  }
+
+  return {
+    name: 'memory',
+    async fetchFeedBytes(feedId, request = {}) {
+      const entry = feeds.get(feedId);
+      if (!entry) throw new Error(`No in-memory data for feed ${feedId}`);
+      if (request.etag === entry.version) return { status: 'not-modified' };
+      return { status: 'ok', bytes: entry.bytes, etag: entry.version };
+    },
+    set: store,
+    remove(feedId) {
+      feeds.delete(feedId);
+    },
+  };
+}
+
+// ── Replay ─────────────────────────────────────────────────────────
+
+/**
+ * Plays recorded snapshots back against a (usually virtual) clock:
+ * each fetch returns the latest snapshot of that feed recorded at or
+ * before `clock.now()`.  Fails for a feed whose first snapshot is still in
+ * the future, just like an unreachable endpoint.
+ */
+export function createReplayTransport(snapshots: FeedSnapshot[], clock: Clock): FeedTransport {
+  const byFeed = new Map<FeedId, FeedSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const list = byFeed.get(snapshot.feedId) ?? [];
+    list.push(snapshot);
+    byFeed.set(snapshot.feedId, list);
+  }
+  for (const list of byFeed.values()) {
+    list.sort((a, b) => a.fetchedAt - b.fetchedAt);
+  }
+
+  return {
+    name: 'replay',
+    async fetchFeedBytes(feedId, request = {}) {
+      const list = byFeed.get(feedId) ?? [];
+      const at = clock.now();
+
+      // Binary search for the last snapshot with fetchedAt <= at
+      let lo = 0;
+      let hi = list.length - 1;
+      let found: FeedSnapshot | undefined;
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (list[mid].fetchedAt <= at) {
+          found = list[mid];
+          lo = mid + 1;
+        } else {
+          hi = mid - 1;
+        }
+      }
+
+      if (!found) throw new Error(`No recorded snapshot of feed ${feedId} at ${at}`);
+
+      // A snapshot is identified by its recording time
+      const etag = String(found.fetchedAt);
+      if (request.etag === etag) return { status: 'not-modified' };
+      return { status: 'ok', bytes: found.bytes, etag };
+    },
+  };
+}
+
+// ── Default ────────────────────────────────────────────────────────
+
+/**
+ * Transport used when `FetchFeedOptions.transport` is not set.
+ * Honors `EXPO_PUBLIC_MTA_FEED_BASE_URL` so a local stand-in server can
+ * be swapped in without code changes.
+ */
+export const defaultTransport: FeedTransport = createHttpTransport({
+  baseUrl: process.env.EXPO_PUBLIC_MTA_FEED_BASE_URL || undefined,
+});
@@ -0,0 +1,164 @@
+import { transit_realtime } from 'gtfs-realtime-bindings';
+import { readFields, readString, WireType, type WireField } from './protoWire';
+
+/**
+ * MTA "Mercury" extensions to GTFS-RT alerts (`mercury-gtfs-realtime.proto`).
+ *
+ * The MTA's alert system attaches its own alert type, timestamps and a
+ * rider-facing description of the active period to each Alert, and a
+ * sort order to each informed entity, all under extension field 1001.
+ * Like the NYCT extensions, `decodeFeed` re-reads them from the raw
+ * bytes and links them to the decoded objects.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export type MercuryAlert = {
+  /** Unix seconds */
+  createdAt: number | null;
+  /** Unix seconds */
+  updatedAt: number | null;
+  /** e.g. "Delays", "Part Suspended", "Planned - Stations Skipped" */
+  alertType: string | null;
+  /** Seconds before the active period the alert is shown */
+  displayBeforeActive: number | null;
+  /** e.g. "Weekends, 9:45 PM Fri to 5 AM Mon" */
+  humanReadableActivePeriod: string | null;
+  /** Short text written for station screens */
+  screensSummary: string | null;
+};
+
+export type MercuryEntitySelector = {
+  /** "<agency>:<route>:<priority>", e.g. "MTASBWY:A:22" */
+  sortOrder: string;
+};
+
+// ── Field numbers ──────────────────────────────────────────────────
+
+const EXTENSION_FIELD = 1001;
+
+const FEED_MESSAGE_ENTITY = 2;
+const ENTITY_ALERT = 5;
+const ALERT_INFORMED_ENTITY = 5;
+const TRANSLATED_STRING_TRANSLATION = 1;
+const TRANSLATION_TEXT = 1;
+const TRANSLATION_LANGUAGE = 2;
+
+// ── Lookup ─────────────────────────────────────────────────────────
+
+const alertExtensions = new WeakMap<object, MercuryAlert>();
+const selectorExtensions = new WeakMap<object, MercuryEntitySelector>();
+
+/** Mercury data for a decoded alert, if the feed carried any. */
+export function getMercuryAlert(
+  alert: transit_realtime.IAlert | null | undefined,
+): MercuryAlert | undefined {
+  return alert ? alertExtensions.get(alert) : undefined;
+}
+
+/** Mercury data for a decoded informed entity, if the feed carried any. */
+export function getMercuryEntitySelector(
+  selector: transit_realtime.IEntitySelector | null | undefined,
+): MercuryEntitySelector | undefined {
+  return selector ? selectorExtensions.get(selector) : undefined;
+}
+
+// ── Decoding ───────────────────────────────────────────────────────
+
+type Span = Extract<WireField, { wireType: WireType.LengthDelimited }>;
+
+function* messageFields(bytes: Uint8Array, span: Span, field: number): Generator<Span> {
+  for (const f of readFields(bytes, span.start, span.end)) {
+    if (f.field === field && f.wireType === WireType.LengthDelimited) yield f;
+  }
+}
+
+function firstField(bytes: Uint8Array, span: Span, field: number): Span | undefined {
+  for (const f of messageFields(bytes, span, field)) return f;
+  return undefined;
+}
+
+/** A `TranslatedString`'s English text, or its first translation. */
+function readTranslatedString(bytes: Uint8Array, span: Span): string | null {
+  let first: string | null = null;
+  for (const translation of messageFields(bytes, span, TRANSLATED_STRING_TRANSLATION)) {
+    let text: string | null = null;
+    let language: string | null = null;
+    for (const f of messageFields(bytes, translation, TRANSLATION_TEXT))
+      text = readString(bytes, f);
+    for (const f of messageFields(bytes, translation, TRANSLATION_LANGUAGE)) {
+      language = readString(bytes, f);
+    }
+    if (text === null) continue;
+    if (!language || language === 'en') return text;
+    first ??= text;
+  }
+  return first;
+}
+
+function decodeAlertExtension(bytes: Uint8Array, span: Span): MercuryAlert {
+  const ext: MercuryAlert = {
+    createdAt: null,
+    updatedAt: null,
+    alertType: null,
+    displayBeforeActive: null,
+    humanReadableActivePeriod: null,
+    screensSummary: null,
+  };
+  for (const f of readFields(bytes, span.start, span.end)) {
+    if (f.wireType === WireType.Varint) {
+      if (f.field === 1) ext.createdAt = f.value;
+      else if (f.field === 2) ext.updatedAt = f.value;
+      else if (f.field === 7) ext.displayBeforeActive = f.value;
+    } else if (f.wireType === WireType.LengthDelimited) {
+      if (f.field === 3) ext.alertType = readString(bytes, f);
+      else if (f.field === 8) ext.humanReadableActivePeriod = readTranslatedString(bytes, f);
+      else if (f.field === 11) ext.screensSummary = readTranslatedString(bytes, f);
+    }
+  }
+  return ext;
+}
+
+function decodeSelectorExtension(bytes: Uint8Array, span: Span): MercuryEntitySelector | null {
+  const sortOrder = firstField(bytes, span, 1);
+  return sortOrder ? { sortOrder: readString(bytes, sortOrder) } : null;
+}
+
+/**
+ * Reads the Mercury extensions from `bytes` and links them to the
+ * matching alerts and informed entities in `message`, its decoded
+ * form.  Paired by position, as repeated fields decode in wire order.
+ */
+export function attachMercuryExtensions(
+  message: transit_realtime.IFeedMessage,
+  bytes: Uint8Array,
+): void {
+  const root: Span = {
+    field: 0,
+    wireType: WireType.LengthDelimited,
+    start: 0,
+    end: bytes.length,
+  };
+
+  let entityIndex = 0;
+  for (const entitySpan of messageFields(bytes, root, FEED_MESSAGE_ENTITY)) {
+    const entity = message.entity?.[entityIndex++];
+    if (!entity) break;
+
+    const alertSpan = firstField(bytes, entitySpan, ENTITY_ALERT);
+    if (!alertSpan || !entity.alert) continue;
+
+    const ext = firstField(bytes, alertSpan, EXTENSION_FIELD);
+    if (ext) alertExtensions.set(entity.alert, decodeAlertExtension(bytes, ext));
+
+    const selectors = entity.alert.informedEntity ?? [];
+    let selectorIndex = 0;
+    for (const selectorSpan of messageFields(bytes, alertSpan, ALERT_INFORMED_ENTITY)) {
+      const selector = selectors[selectorIndex++];
+      if (!selector) break;
+      const selectorExt = firstField(bytes, selectorSpan, EXTENSION_FIELD);
+      const decoded = selectorExt && decodeSelectorExtension(bytes, selectorExt);
+      if (decoded) selectorExtensions.set(selector, decoded);
+    }
+  }
+}
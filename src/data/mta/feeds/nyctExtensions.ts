@@ -0,0 +1,164 @@
+import { transit_realtime } from 'gtfs-realtime-bindings';
+import type { CardinalDirection } from '../types';
+import { readFields, readString, WireType, type WireField } from './protoWire';
+
+/**
+ * NYCT extensions to GTFS-RT (`nyct-subway.proto`).
+ *
+ * The MTA attaches extra data to trip descriptors and stop time updates
+ * under extension field 1001.  The generated bindings drop it, so
+ * `decodeFeed` re-reads the raw bytes and hangs the result off the
+ * decoded objects, where the mappers look it up.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export type NyctTripDescriptor = {
+  /** Train ID shown to dispatchers, e.g. "06 0123+ PEL/BBR" */
+  trainId: string | null;
+  /** True once a physical train is assigned; false means the trip is only scheduled */
+  isAssigned: boolean;
+  /** Railroad direction of the trip (north/south for most lines) */
+  direction: CardinalDirection | null;
+};
+
+export type NyctStopTimeUpdate = {
+  /** Track the train is scheduled to use at this stop */
+  scheduledTrack: string | null;
+  /** Track the train actually uses, once known */
+  actualTrack: string | null;
+};
+
+// ── Field numbers ──────────────────────────────────────────────────
+
+const EXTENSION_FIELD = 1001;
+
+const FEED_MESSAGE_ENTITY = 2;
+const ENTITY_TRIP_UPDATE = 3;
+const ENTITY_VEHICLE = 4;
+const TRIP_UPDATE_TRIP = 1;
+const TRIP_UPDATE_STOP_TIME_UPDATE = 2;
+const VEHICLE_TRIP = 1;
+
+/** `NyctTripDescriptor.Direction` enum values */
+const NYCT_DIRECTION: Record<number, CardinalDirection> = {
+  1: 'N',
+  2: 'E',
+  3: 'S',
+  4: 'W',
+};
+
+// ── Lookup ─────────────────────────────────────────────────────────
+
+const tripExtensions = new WeakMap<object, NyctTripDescriptor>();
+const stopTimeExtensions = new WeakMap<object, NyctStopTimeUpdate>();
+
+/** NYCT data for a decoded trip descriptor, if the feed carried any. */
+export function getNyctTripDescriptor(
+  trip: transit_realtime.ITripDescriptor | null | undefined,
+): NyctTripDescriptor | undefined {
+  return trip ? tripExtensions.get(trip) : undefined;
+}
+
+/** NYCT data for a decoded stop time update, if the feed carried any. */
+export function getNyctStopTimeUpdate(
+  stopTime: transit_realtime.TripUpdate.IStopTimeUpdate | null | undefined,
+): NyctStopTimeUpdate | undefined {
+  return stopTime ? stopTimeExtensions.get(stopTime) : undefined;
+}
+
+// ── Decoding ───────────────────────────────────────────────────────
+
+type Span = Extract<WireField, { wireType: WireType.LengthDelimited }>;
+
+function* messageFields(bytes: Uint8Array, span: Span, field: number): Generator<Span> {
+  for (const f of readFields(bytes, span.start, span.end)) {
+    if (f.field === field && f.wireType === WireType.LengthDelimited) yield f;
+  }
+}
+
+function firstField(bytes: Uint8Array, span: Span, field: number): Span | undefined {
+  for (const f of messageFields(bytes, span, field)) return f;
+  return undefined;
+}
+
+function decodeTripExtension(bytes: Uint8Array, span: Span): NyctTripDescriptor {
+  const ext: NyctTripDescriptor = { trainId: null, isAssigned: false, direction: null };
+  for (const f of readFields(bytes, span.start, span.end)) {
+    if (f.field === 1 && f.wireType === WireType.LengthDelimited) {
+      ext.trainId = readString(bytes, f);
+    } else if (f.field === 2 && f.wireType === WireType.Varint) {
+      ext.isAssigned = f.value !== 0;
+    } else if (f.field === 3 && f.wireType === WireType.Varint) {
+      ext.direction = NYCT_DIRECTION[f.value] ?? null;
+    }
+  }
+  return ext;
+}
+
+function decodeStopTimeExtension(bytes: Uint8Array, span: Span): NyctStopTimeUpdate {
+  const ext: NyctStopTimeUpdate = { scheduledTrack: null, actualTrack: null };
+  for (const f of readFields(bytes, span.start, span.end)) {
+    if (f.wireType !== WireType.LengthDelimited) continue;
+    if (f.field === 1) ext.scheduledTrack = readString(bytes, f);
+    else if (f.field === 2) ext.actualTrack = readString(bytes, f);
+  }
+  return ext;
+}
+
+function attachTrip(
+  bytes: Uint8Array,
+  span: Span | undefined,
+  trip: transit_realtime.ITripDescriptor | null | undefined,
+): void {
+  if (!span || !trip) return;
+  const ext = firstField(bytes, span, EXTENSION_FIELD);
+  if (ext) tripExtensions.set(trip, decodeTripExtension(bytes, ext));
+}
+
+/**
+ * Reads the NYCT extensions from `bytes` and links them to the
+ * matching objects in `message`, its already-decoded form.  Repeated
+ * fields decode in wire order, so entities and stop time updates are
+ * paired by position.
+ */
+export function attachNyctExtensions(
+  message: transit_realtime.IFeedMessage,
+  bytes: Uint8Array,
+): void {
+  const root: Span = {
+    field: 0,
+    wireType: WireType.LengthDelimited,
+    start: 0,
+    end: bytes.length,
+  };
+
+  let entityIndex = 0;
+  for (const entitySpan of messageFields(bytes, root, FEED_MESSAGE_ENTITY)) {
+    const entity = message.entity?.[entityIndex++];
+    if (!entity) break;
+
+    const tripUpdateSpan = firstField(bytes, entitySpan, ENTITY_TRIP_UPDATE);
+    if (tripUpdateSpan && entity.tripUpdate) {
+      attachTrip(
+        bytes,
+        firstField(bytes, tripUpdateSpan, TRIP_UPDATE_TRIP),
+        entity.tripUpdate.trip,
+      );
+
+      const stopTimes = entity.tripUpdate.stopTimeUpdate ?? [];
+      let stopIndex = 0;
+      for (const stopSpan of messageFields(bytes, tripUpdateSpan, TRIP_UPDATE_STOP_TIME_UPDATE)) {
+        const stopTime = stopTimes[stopIndex++];
+        if (!stopTime) break;
+        const ext = firstField(bytes, stopSpan, EXTENSION_FIELD);
+        if (ext) stopTimeExtensions.set(stopTime, decodeStopTimeExtension(bytes, ext));
+      }
+    }
+
+    const vehicleSpan = firstField(bytes, entitySpan, ENTITY_VEHICLE);
+    if (vehicleSpan && entity.vehicle) {
+      attachTrip(bytes, firstField(bytes, vehicleSpan, VEHICLE_TRIP), entity.vehicle.trip);
+    }
+  }
+}
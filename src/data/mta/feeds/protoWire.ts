@@ -0,0 +1,95 @@
+import { Buffer } from 'buffer';
+
+/**
+ * Minimal protobuf wire-format reader.
+ *
+ * The generated GTFS-RT bindings discard fields they don't know, which
+ * includes every agency extension.  This walks the raw bytes instead,
+ * so extensions can be read without a schema compiler.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export enum WireType {
+  Varint = 0,
+  Fixed64 = 1,
+  LengthDelimited = 2,
+  Fixed32 = 5,
+}
+
+export type WireField =
+  | { field: number; wireType: WireType.Varint; value: number }
+  | { field: number; wireType: WireType.LengthDelimited; start: number; end: number }
+  | { field: number; wireType: WireType.Fixed64 | WireType.Fixed32 };
+
+// ── Reader ─────────────────────────────────────────────────────────
+
+/**
+ * Reads a base-128 varint.  Values past 2^53 lose precision, which is
+ * fine for the tags, lengths, enums and booleans read here.
+ */
+export function readVarint(bytes: Uint8Array, pos: number): [value: number, next: number] {
+  let value = 0;
+  let shift = 0;
+  while (pos < bytes.length) {
+    const byte = bytes[pos++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if (byte < 0x80) break;
+    shift += 7;
+  }
+  return [value, pos];
+}
+
+/**
+ * Iterates the fields of one message occupying `bytes[start, end)`.
+ *
+ * @throws on malformed input or deprecated group encoding
+ */
+export function* readFields(
+  bytes: Uint8Array,
+  start = 0,
+  end = bytes.length,
+): Generator<WireField> {
+  let pos = start;
+  while (pos < end) {
+    const [tag, afterTag] = readVarint(bytes, pos);
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 7;
+    pos = afterTag;
+
+    switch (wireType) {
+      case WireType.Varint: {
+        const [value, next] = readVarint(bytes, pos);
+        pos = next;
+        yield { field, wireType, value };
+        break;
+      }
+      case WireType.LengthDelimited: {
+        const [length, next] = readVarint(bytes, pos);
+        pos = next + length;
+        if (pos > end) throw new Error(`Truncated protobuf field ${field}`);
+        yield { field, wireType, start: next, end: pos };
+        break;
+      }
+      case WireType.Fixed64:
+        pos += 8;
+        yield { field, wireType };
+        break;
+      case WireType.Fixed32:
+        pos += 4;
+        yield { field, wireType };
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType} (field ${field})`);
+    }
+  }
+}
+
+/** Decodes a length-delimited field as UTF-8 text. */
+export function readString(bytes: Uint8Array, field: { start: number; end: number }): string {
+  return Buffer.from(
+    bytes.buffer,
+    bytes.byteOffset + field.start,
+    field.end - field.start,
+  ).toString('utf8');
+}
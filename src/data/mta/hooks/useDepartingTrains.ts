@@ -0,0 +1,57 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { VehiclePosition } from '../types';
+
+/** How long a train that dropped out of the feed stays on the map, fading out */
+export const DEPARTED_TRAIN_LINGER_MS = 2_000;
+
+export type TrainOnMap = {
+  train: VehiclePosition;
+  /** No longer in the feed — render it fading out */
+  departed: boolean;
+};
+
+type Departed = { train: VehiclePosition; departedAt: number };
+
+/**
+ * Keeps trains that vanish from `trains` around for `lingerMs`, flagged
+ * `departed`, so their markers can fade out instead of blinking off
+ * between refreshes.  A train that reappears is live again.
+ */
+export function useDepartingTrains(
+  trains: VehiclePosition[],
+  lingerMs: number = DEPARTED_TRAIN_LINGER_MS,
+): TrainOnMap[] {
+  const [previous, setPrevious] = useState(trains);
+  const [departed, setDeparted] = useState<Departed[]>([]);
+
+  // Diff against the last render's trains while rendering, so a departed
+  // marker is never unmounted for a frame before it reappears as a ghost
+  if (trains !== previous) {
+    const ids = new Set(trains.map((t) => t.id));
+    const departedAt = Date.now();
+    setPrevious(trains);
+    setDeparted([
+      ...departed.filter((d) => !ids.has(d.train.id)),
+      ...previous.filter((t) => !ids.has(t.id)).map((train) => ({ train, departedAt })),
+    ]);
+  }
+
+  // Drop ghosts once they've faded, oldest first
+  useEffect(() => {
+    if (departed.length === 0) return;
+    const oldest = Math.min(...departed.map((d) => d.departedAt));
+    const timer = setTimeout(
+      () => setDeparted((list) => list.filter((d) => Date.now() - d.departedAt < lingerMs)),
+      Math.max(0, oldest + lingerMs - Date.now()),
+    );
+    return () => clearTimeout(timer);
+  }, [departed, lingerMs]);
+
+  return useMemo(
+    () => [
+      ...trains.map((train) => ({ train, departed: false })),
+      ...departed.map((d) => ({ train: d.train, departed: true })),
+    ],
+    [trains, departed],
+  );
+}
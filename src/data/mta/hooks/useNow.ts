@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { clockNow, subscribeToClock } from '../clock';
+
+/**
+ * Returns the active clock's time, re-rendering every `intervalMs` and
+ * immediately whenever the active clock is swapped (e.g. replay starts).
+ *
+ * Use for countdowns ("3 min", "Now") instead of reading `Date.now()`
+ * during render.
+ */
+export function useNow(intervalMs: number): number {
+  const [now, setNow] = useState(clockNow);
+
+  useEffect(() => {
+    const update = () => setNow(clockNow());
+    const timer = setInterval(update, intervalMs);
+    const unsubscribe = subscribeToClock(update);
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [intervalMs]);
+
+  return now;
+}
@@ -1,69 +1,26 @@
-import { useCallback, useEffect, useRef } from 'react';
-import { useShallow } from 'zustand/react/shallow';
-import { subwayService } from '../services/mtaSubwayService';
+import { useEffect } from 'react';
+import { refreshScheduler } from '../services/refreshScheduler';
 import { useArrivalStore } from '../stores/arrivalStore';
 
-const REFRESH_MS = 30_000;
-
 /**
- * Polls the MTA subway service for arrival predictions at a specific
- * station every 30 s.
+ * Keeps `useArrivalStore` filled with arrival predictions for a specific
+ * station, refreshed by the shared `refreshScheduler`.
  *
- * @param stationId  The GTFS stop ID (e.g. "A15") to fetch arrivals for.
+ * @param stationId  The GTFS stop ID (e.g. "A15") or station complex ID
+ *                   (e.g. "complex:611") to fetch arrivals for.
  *                   Pass `null` to disable polling (e.g. when no station
  *                   is selected).
  */
 export function useStationArrivals(stationId: string | null) {
-  const { setArrivals, clearStation, setLoading, setError } = useArrivalStore(
-    useShallow((state) => ({
-      setArrivals: state.setArrivals,
-      clearStation: state.clearStation,
-      setLoading: state.setLoading,
-      setError: state.setError,
-    })),
-  );
-
-  const stationRef = useRef(stationId);
-  stationRef.current = stationId;
-
-  const refresh = useCallback(async () => {
-    const id = stationRef.current;
-    if (!id) return;
-
-    setLoading(true);
-    setError(null);
-    try {
-      const arrivals = await subwayService.fetchArrivals(id);
-      setArrivals(id, arrivals);
-    } catch (error) {
-      const message =
-        error instanceof Error ? error.message : 'Could not load arrival predictions.';
-      setError(message);
-    } finally {
-      setLoading(false);
-    }
-  }, [setArrivals, setLoading, setError]);
+  const clearStation = useArrivalStore((state) => state.clearStation);
 
   useEffect(() => {
     if (!stationId) return;
 
-    let isMounted = true;
-
-    const runRefresh = async () => {
-      if (!isMounted) return;
-      await refresh();
-    };
-
-    void runRefresh();
-
-    const interval = setInterval(() => {
-      void runRefresh();
-    }, REFRESH_MS);
-
+    const unsubscribe = refreshScheduler.subscribe({ kind: 'arrivals', stationId });
     return () => {
-      isMounted = false;
-      clearInterval(interval);
+      unsubscribe();
       clearStation(stationId);
     };
-  }, [stationId, refresh, clearStation]);
+  }, [stationId, clearStation]);
 }
@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { refreshScheduler } from '../services/refreshScheduler';
+import { useTripStore } from '../stores/tripStore';
+import type { Trip } from '../types';
+
+/**
+ * Keeps one trip and its remaining stops fresh in `useTripStore`,
+ * refreshed by the shared `refreshScheduler`.
+ *
+ * @param tripId   The trip to follow, or `null` to stop (e.g. when no
+ *                 train is selected).
+ * @param routeId  The trip's route, so only its feed is fetched.
+ * @returns The trip, or null until loaded / once it has left the feed.
+ */
+export function useTrip(tripId: string | null, routeId?: string): Trip | null {
+  const clearTrip = useTripStore((state) => state.clearTrip);
+  const trip = useTripStore((state) => (tripId ? state.trips[tripId] : undefined));
+
+  useEffect(() => {
+    if (!tripId) return;
+
+    const unsubscribe = refreshScheduler.subscribe({ kind: 'trip', tripId, routeId });
+    return () => {
+      unsubscribe();
+      clearTrip(tripId);
+    };
+  }, [tripId, routeId, clearTrip]);
+
+  return trip ?? null;
+}
@@ -1,17 +1,21 @@
 import { transit_realtime } from 'gtfs-realtime-bindings';
-import { AlertActivePeriod, ServiceAlert } from '../types';
+import { toSeconds } from '../feeds/feedDecoder';
+import { getMercuryAlert, getMercuryEntitySelector } from '../feeds/mercuryExtensions';
+import { normalizeRouteId } from '../routeColors';
+import { resolveStationIds } from '../stationComplexes';
+import {
+  AlertActivePeriod,
+  AlertCause,
+  AlertEffect,
+  AlertRoute,
+  AlertSeverity,
+  CardinalDirection,
+  ServiceAlert,
+} from '../types';
+import { parentStationId } from './stopLookup';
 
 // ── Helpers ────────────────────────────────────────────────────────
 
-function toSeconds(value: number | object | null | undefined): number | null {
-  if (value === null || value === undefined) return null;
-  if (typeof value === 'number') return value;
-  if (typeof (value as { toNumber?: unknown }).toNumber === 'function') {
-    return (value as { toNumber(): number }).toNumber();
-  }
-  return null;
-}
-
 /**
  * GTFS-RT TranslatedString may contain multiple translations.
  * We pick the first English one, or the first available.
@@ -25,11 +29,162 @@ function extractTranslatedText(
   return (english ?? translated.translation[0])?.text ?? '';
 }
 
+/** The `en-html` translation the MTA sends beside the plain text, if any. */
+function extractTranslatedHtml(
+  translated: transit_realtime.ITranslatedString | null | undefined,
+): string | null {
+  const html = translated?.translation?.find((t) => t.language === 'en-html');
+  return html?.text || null;
+}
+
+const { Cause, Effect, SeverityLevel } = transit_realtime.Alert;
+
+function toEffect(effect: transit_realtime.Alert.Effect | null | undefined): AlertEffect {
+  switch (effect) {
+    case Effect.NO_SERVICE:
+      return 'no-service';
+    case Effect.REDUCED_SERVICE:
+      return 'reduced-service';
+    case Effect.SIGNIFICANT_DELAYS:
+      return 'significant-delays';
+    case Effect.DETOUR:
+      return 'detour';
+    case Effect.ADDITIONAL_SERVICE:
+      return 'additional-service';
+    case Effect.MODIFIED_SERVICE:
+      return 'modified-service';
+    case Effect.STOP_MOVED:
+      return 'stop-moved';
+    case Effect.ACCESSIBILITY_ISSUE:
+      return 'accessibility-issue';
+    case Effect.NO_EFFECT:
+      return 'no-effect';
+    case Effect.OTHER_EFFECT:
+      return 'other';
+    default:
+      return 'unknown';
+  }
+}
+
+function toCause(cause: transit_realtime.Alert.Cause | null | undefined): AlertCause {
+  switch (cause) {
+    case Cause.TECHNICAL_PROBLEM:
+      return 'technical-problem';
+    case Cause.STRIKE:
+      return 'strike';
+    case Cause.DEMONSTRATION:
+      return 'demonstration';
+    case Cause.ACCIDENT:
+      return 'accident';
+    case Cause.HOLIDAY:
+      return 'holiday';
+    case Cause.WEATHER:
+      return 'weather';
+    case Cause.MAINTENANCE:
+      return 'maintenance';
+    case Cause.CONSTRUCTION:
+      return 'construction';
+    case Cause.POLICE_ACTIVITY:
+      return 'police-activity';
+    case Cause.MEDICAL_EMERGENCY:
+      return 'medical-emergency';
+    case Cause.OTHER_CAUSE:
+      return 'other';
+    default:
+      return 'unknown';
+  }
+}
+
+/** MTA alert types naming station facilities rather than train service. */
+const INFO_ALERT_TYPE = /elevator|escalator|accessib|station notice|information/i;
+/** Unplanned alert types meaning trains aren't running (or barely). */
+const SEVERE_ALERT_TYPE = /suspend|no (scheduled )?service|severe delays/i;
+const WARNING_ALERT_TYPE = /planned|delay|reroute|skip|express|local|detour|reduced|slow|change/i;
+
+/**
+ * The feed's own severity when it sends one, else judged from the MTA
+ * alert type, else from the effect.
+ */
+function toSeverity(
+  level: transit_realtime.Alert.SeverityLevel | null | undefined,
+  alertType: string | null,
+  effect: AlertEffect,
+): AlertSeverity {
+  switch (level) {
+    case SeverityLevel.SEVERE:
+      return 'severe';
+    case SeverityLevel.WARNING:
+      return 'warning';
+    case SeverityLevel.INFO:
+      return 'info';
+  }
+
+  if (alertType) {
+    if (INFO_ALERT_TYPE.test(alertType)) return 'info';
+    const isPlanned = /^planned/i.test(alertType);
+    if (!isPlanned && SEVERE_ALERT_TYPE.test(alertType)) return 'severe';
+    if (WARNING_ALERT_TYPE.test(alertType)) return 'warning';
+  }
+
+  switch (effect) {
+    case 'no-service':
+    case 'significant-delays':
+      return 'severe';
+    case 'reduced-service':
+    case 'detour':
+    case 'modified-service':
+    case 'stop-moved':
+      return 'warning';
+    default:
+      return 'info';
+  }
+}
+
+/** NYCT `direction_id`: 0 is northbound, 1 southbound. */
+function toDirection(directionId: number | null | undefined): CardinalDirection | null {
+  if (directionId === 0) return 'N';
+  if (directionId === 1) return 'S';
+  return null;
+}
+
+/** The priority at the end of a Mercury sort order, e.g. "MTASBWY:A:22" → 22. */
+function sortOrderPriority(sortOrder: string | undefined): number | null {
+  const priority = Number(sortOrder?.split(':').pop());
+  return Number.isFinite(priority) ? priority : null;
+}
+
+/**
+ * Affected routes with their direction and priority.  A route named
+ * for both directions, or once without one, counts as both.
+ */
+function collectRoutes(informedEntities: transit_realtime.IEntitySelector[]): AlertRoute[] {
+  const routes = new Map<string, AlertRoute>();
+  for (const informed of informedEntities) {
+    const routeId = (informed.routeId ?? informed.trip?.routeId)?.toUpperCase();
+    if (!routeId) continue;
+
+    const direction = toDirection(informed.directionId ?? informed.trip?.directionId);
+    const priority = sortOrderPriority(getMercuryEntitySelector(informed)?.sortOrder);
+    const existing = routes.get(routeId);
+    if (!existing) {
+      routes.set(routeId, { routeId, direction, priority });
+      continue;
+    }
+    if (existing.direction !== direction) existing.direction = null;
+    if (priority !== null && (existing.priority === null || priority > existing.priority)) {
+      existing.priority = priority;
+    }
+  }
+  return [...routes.values()];
+}
+
 // ── Public mapper ──────────────────────────────────────────────────
 
 /**
  * Extracts service alerts from Alert entities in a decoded GTFS-RT
- * FeedMessage.  Pure function — no side effects.
+ * FeedMessage, with the MTA's Mercury extensions (alert type, update
+ * time, rider-facing active period) where the feed carries them.
+ * Pure function — no side effects.
  */
 export function mapAlerts(feed: transit_realtime.IFeedMessage): ServiceAlert[] {
   const alerts: ServiceAlert[] = [];
@@ -38,17 +193,18 @@ export function mapAlerts(feed: transit_realtime.IFeedMessage): ServiceAlert[] {
     const alert = entity.alert;
     if (!alert) continue;
 
-    // Collect affected route IDs
-    const routeIds = new Set<string>();
-    for (const informed of alert.informedEntity ?? []) {
-      const routeId = informed.routeId?.toUpperCase();
-      if (routeId) routeIds.add(routeId);
+    // Collect affected routes and stops
+    const informedEntities = alert.informedEntity ?? [];
+    const routes = collectRoutes(informedEntities);
+    const stopIds = new Set<string>();
+    for (const informed of informedEntities) {
+      if (informed.stopId) stopIds.add(informed.stopId);
     }
 
     // Parse active periods
     const activePeriods: AlertActivePeriod[] = (alert.activePeriod ?? []).map((period) => ({
-      startTime: toSeconds(period.start),
-      endTime: toSeconds(period.end),
+      startTime: toSeconds(period.start) || null,
+      endTime: toSeconds(period.end) || null,
     }));
 
     const header = extractTranslatedText(alert.headerText);
@@ -57,12 +213,26 @@ export function mapAlerts(feed: transit_realtime.IFeedMessage): ServiceAlert[] {
     // Skip alerts with no useful information
     if (!header && !description) continue;
 
+    const mercury = getMercuryAlert(alert);
+    const alertType = mercury?.alertType || null;
+    const effect = toEffect(alert.effect);
+
     alerts.push({
       id: entity.id ?? `alert-${alerts.length}`,
-      routeIds: [...routeIds],
+      routeIds: routes.map((r) => r.routeId),
+      routes,
+      stopIds: [...stopIds],
       header,
       description,
+      headerHtml: extractTranslatedHtml(alert.headerText),
+      descriptionHtml: extractTranslatedHtml(alert.descriptionText),
       activePeriods,
+      effect,
+      cause: toCause(alert.cause),
+      severity: toSeverity(alert.severityLevel, alertType, effect),
+      alertType,
+      activePeriodText: mercury?.humanReadableActivePeriod || null,
+      updatedAt: mercury?.updatedAt ?? mercury?.createdAt ?? null,
     });
   }
 
@@ -71,10 +241,43 @@ export function mapAlerts(feed: transit_realtime.IFeedMessage): ServiceAlert[] {
 
 /**
  * Filters alerts to only include those affecting the given routes.
- * If `routes` is empty or undefined, returns all alerts.
+ * If `routes` is empty or undefined, returns all alerts.  Route IDs
+ * are compared by their canonical spelling (see `normalizeRouteId`).
  */
 export function filterAlertsForRoutes(alerts: ServiceAlert[], routes?: string[]): ServiceAlert[] {
   if (!routes || routes.length === 0) return alerts;
-  const routeSet = new Set(routes.map((r) => r.toUpperCase()));
-  return alerts.filter((a) => a.routeIds.some((rid) => routeSet.has(rid)));
+  const routeSet = new Set(routes.map(normalizeRouteId));
+  return alerts.filter((a) => a.routeIds.some((rid) => routeSet.has(normalizeRouteId(rid))));
+}
+
+/**
+ * Filters alerts to those naming a stop of the given station — or of
+ * any platform, for a complex ID.  Line-wide alerts are left out.
+ */
+export function filterAlertsForStation(alerts: ServiceAlert[], stationId: string): ServiceAlert[] {
+  const stationIds = new Set(resolveStationIds(stationId).map(parentStationId));
+  return alerts.filter((a) => a.stopIds.some((stopId) => stationIds.has(parentStationId(stopId))));
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { severe: 0, warning: 1, info: 2 };
+
+/** Orders severities most severe first. */
+export function compareAlertSeverity(a: AlertSeverity, b: AlertSeverity): number {
+  return SEVERITY_RANK[a] - SEVERITY_RANK[b];
+}
+
+function topPriority(alert: ServiceAlert): number {
+  return Math.max(-1, ...alert.routes.map((r) => r.priority ?? -1));
+}
+
+/**
+ * Orders alerts most disruptive first: by severity, then the MTA's
+ * own priority, then most recently updated.
+ */
+export function compareAlerts(a: ServiceAlert, b: ServiceAlert): number {
+  return (
+    compareAlertSeverity(a.severity, b.severity) ||
+    topPriority(b) - topPriority(a) ||
+    (b.updatedAt ?? 0) - (a.updatedAt ?? 0)
+  );
 }
@@ -0,0 +1,52 @@
+import type { AlertEffect, ServiceAlert } from '../types';
+import { trackSpanningStops } from './trackGeometry';
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** A stretch of one route's track affected by an alert. */
+export type AlertSegment = {
+  /** Unique per alert, route and stretch */
+  id: string;
+  alert: ServiceAlert;
+  routeId: string;
+  coordinates: Array<{ latitude: number; longitude: number }>;
+};
+
+// ── Constants ──────────────────────────────────────────────────────
+
+/** Effects that change where or whether trains run */
+const MAPPED_EFFECTS = new Set<AlertEffect>([
+  'no-service',
+  'reduced-service',
+  'significant-delays',
+  'detour',
+  'modified-service',
+  'stop-moved',
+  'other',
+  'unknown',
+]);
+
+// ── Public mapper ──────────────────────────────────────────────────
+
+/**
+ * Where alerts disrupt service on the map: for each affected route,
+ * the track between the stops the alert names — e.g. "No A trains
+ * between 59 St and 125 St" becomes the A line from 59 St to 125 St.
+ *
+ * Pass active alerts only.  Notices (severity "info"), line-wide
+ * alerts and alerts naming a single station are left out.
+ */
+export function mapAlertSegments(alerts: ServiceAlert[]): AlertSegment[] {
+  const segments: AlertSegment[] = [];
+  for (const alert of alerts) {
+    if (alert.severity === 'info' || !MAPPED_EFFECTS.has(alert.effect)) continue;
+    if (alert.stopIds.length < 2) continue;
+
+    for (const routeId of alert.routeIds) {
+      trackSpanningStops(routeId, alert.stopIds).forEach((coordinates, index) => {
+        segments.push({ id: `${alert.id}-${routeId}-${index}`, alert, routeId, coordinates });
+      });
+    }
+  }
+  return segments;
+}
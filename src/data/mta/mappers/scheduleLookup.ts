@@ -0,0 +1,266 @@
+/**
+ * Joins real-time trips to the static timetable in `subwaySchedule`,
+ * so lateness can be measured against the schedule rather than taken
+ * from the feed (which reports a delay of 0 for almost every stop).
+ *
+ * NYCT real-time trip IDs ("000650_1..N03R") are the tail of the
+ * static ones ("AFA25GEN-1092-Weekday-00_000650_1..N03R"); the service
+ * day picks between the weekday, Saturday and Sunday runs sharing it.
+ *
+ * The timetable is split by route, and a route's runs are only parsed
+ * the first time a lookup needs them.
+ */
+
+import { normalizeRouteId } from '../routeColors';
+import { subwaySchedule, type RouteSchedule, type ScheduleService } from '../subwaySchedule';
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** GTFS stop ID → scheduled arrival as Unix timestamp (seconds) */
+export type ScheduledStopTimes = Map<string, number>;
+
+/** One timetabled run on a given day, in stop order. */
+export type ScheduledRunTimes = {
+  /** Real-time style trip ID, e.g. "000650_1..N" */
+  tripId: string;
+  /** The route the run operates as — "W" for a run keyed "N" */
+  routeId: string;
+  stops: Array<{ stopId: string; time: number }>;
+};
+
+// ── Constants ──────────────────────────────────────────────────────
+
+const SCHEDULE_TIME_ZONE = 'America/New_York';
+
+/** Origin time, route and direction — the part of a trip ID both feeds share. */
+const TRIP_KEY_PATTERN = /(\d{6}_[A-Z0-9]+\.+[NS])/i;
+
+/** NYCT trip IDs carry the route after the underscore (e.g. "036000_6..S03R"). */
+const TRIP_ROUTE_PATTERN = /_([A-Z0-9]+)\./i;
+
+// ── Service days ───────────────────────────────────────────────────
+
+let zoneFormat: Intl.DateTimeFormat | null | undefined;
+
+/**
+ * New York's UTC offset at an instant, in ms.  Falls back to the
+ * device's own zone where Intl has no time zone support.
+ */
+function zoneOffsetMs(atMs: number): number {
+  if (zoneFormat === undefined) {
+    try {
+      zoneFormat = new Intl.DateTimeFormat('en-US', {
+        timeZone: SCHEDULE_TIME_ZONE,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      zoneFormat = null;
+    }
+  }
+  if (!zoneFormat) return -new Date(atMs).getTimezoneOffset() * 60_000;
+
+  const parts: Record<string, number> = {};
+  for (const part of zoneFormat.formatToParts(new Date(atMs))) {
+    parts[part.type] = Number(part.value);
+  }
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return wallClock - Math.floor(atMs / 1000) * 1000;
+}
+
+function toServiceDate(year: number, month: number, day: number): number {
+  return year * 10_000 + month * 100 + day;
+}
+
+/** The New York calendar date (YYYYMMDD) of a Unix timestamp, `daysBack` days earlier. */
+function serviceDateAt(timeSec: number, daysBack: number): number {
+  const ms = timeSec * 1000;
+  const local = new Date(ms + zoneOffsetMs(ms) - daysBack * 86_400_000);
+  return toServiceDate(local.getUTCFullYear(), local.getUTCMonth() + 1, local.getUTCDate());
+}
+
+/**
+ * Unix time (seconds) GTFS times on `date` count from: noon minus 12
+ * hours, which is midnight except on daylight-saving change days.
+ */
+function serviceDayStartSec(date: number): number {
+  const noonUtc = Date.UTC(
+    Math.floor(date / 10_000),
+    (Math.floor(date / 100) % 100) - 1,
+    date % 100,
+    12,
+  );
+  return Math.round((noonUtc - zoneOffsetMs(noonUtc)) / 1000) - 12 * 3600;
+}
+
+function runsOn(service: ScheduleService, date: number): boolean {
+  if (service.removed.includes(date)) return false;
+  if (service.added.includes(date)) return true;
+  if (date < service.start || date > service.end) return false;
+  const weekday = new Date(
+    Date.UTC(Math.floor(date / 10_000), (Math.floor(date / 100) % 100) - 1, date % 100),
+  ).getUTCDay();
+  // Bit 0 is Monday; getUTCDay() counts from Sunday
+  return (service.days & (1 << ((weekday + 6) % 7))) !== 0;
+}
+
+/** Absolute times (Unix seconds) of a run leaving at `firstTime` with running times `profile`. */
+function runTimes(dayStart: number, firstTime: number, profile: number[]): number[] {
+  let t = dayStart + firstTime;
+  const times = [t];
+  for (const gap of profile) {
+    t += gap;
+    times.push(t);
+  }
+  return times;
+}
+
+// ── Route shards ───────────────────────────────────────────────────
+
+/** A route's runs, parsed on first use; null when the timetable has none. */
+function routeSchedule(routeId: string): RouteSchedule | null {
+  return subwaySchedule.routes[routeId]?.() ?? null;
+}
+
+/** Timetable routes serving `routes` under any spelling, or every route when none are given. */
+function scheduleRoutesFor(routes: string[] | undefined): string[] {
+  const all = Object.keys(subwaySchedule.routes);
+  if (!routes?.length) return all;
+  const wanted = new Set(routes.map(normalizeRouteId));
+  return all.filter((id) => wanted.has(normalizeRouteId(id)));
+}
+
+// ── Public API ─────────────────────────────────────────────────────
+
+/**
+ * The route encoded in an NYCT trip ID or trip key, or null for other formats.
+ *
+ * @example
+ * routeFromTripId('036000_6..S03R') // → '6'
+ */
+export function routeFromTripId(tripId: string): string | null {
+  return tripId.match(TRIP_ROUTE_PATTERN)?.[1].toUpperCase() ?? null;
+}
+
+/**
+ * Whether a timetable has been compiled into the app (see
+ * `scripts/generateSchedule.mjs`) and, given `atSec`, whether it has
+ * service then — a timetable past its last day has no runs to offer.
+ */
+export function hasSchedule(atSec?: number): boolean {
+  if (subwaySchedule.version === null) return false;
+  if (atSec === undefined) return true;
+  // Runs past midnight belong to the previous service day
+  const dates = [serviceDateAt(atSec, 0), serviceDateAt(atSec, 1)];
+  return subwaySchedule.services.some((service) => dates.some((date) => runsOn(service, date)));
+}
+
+/**
+ * The scheduled stop times of the run a real-time trip is operating.
+ *
+ * @param startDate     The trip descriptor's `startDate` (YYYYMMDD), when the feed sends one
+ * @param referenceSec  Any predicted time on the trip; picks the service day when
+ *                      `startDate` is missing, and the closest run if several match
+ * @returns null when the trip isn't in the timetable
+ */
+export function getScheduledStopTimes(
+  tripId: string,
+  startDate: string | null | undefined,
+  referenceSec: number,
+): ScheduledStopTimes | null {
+  const key = tripId.match(TRIP_KEY_PATTERN)?.[1].toUpperCase();
+  const keyRoute = key && routeFromTripId(key);
+  if (!key || !keyRoute) return null;
+  const candidates = (subwaySchedule.keyRoutes[keyRoute] ?? []).flatMap((routeId) => {
+    const shard = routeSchedule(routeId);
+    return shard?.trips[key] ? [{ shard, runs: shard.trips[key] }] : [];
+  });
+  if (candidates.length === 0) return null;
+
+  // Trips past midnight belong to the previous service day
+  const dates = startDate
+    ? [Number(startDate)]
+    : [serviceDateAt(referenceSec, 0), serviceDateAt(referenceSec, 1)];
+
+  let best: { times: number[]; pattern: number[]; distance: number } | null = null;
+  for (const date of dates) {
+    const dayStart = serviceDayStartSec(date);
+    for (const { shard, runs } of candidates) {
+      for (const [service, pattern, profile, firstTime] of runs) {
+        if (!runsOn(subwaySchedule.services[service], date)) continue;
+
+        const times = runTimes(dayStart, firstTime, shard.profiles[profile]);
+        const first = times[0];
+        const last = times[times.length - 1];
+        const distance =
+          referenceSec < first
+            ? first - referenceSec
+            : referenceSec > last
+              ? referenceSec - last
+              : 0;
+        if (!best || distance < best.distance) {
+          best = { times, pattern: shard.patterns[pattern], distance };
+        }
+      }
+    }
+  }
+  if (!best) return null;
+
+  const { times, pattern } = best;
+  return new Map(pattern.map((stop, i) => [subwaySchedule.stops[stop], times[i]]));
+}
+
+/**
+ * Every timetabled run on the road at some point between `fromSec` and
+ * `toSec` (Unix seconds) — what should be running when no live feed
+ * can say what is.
+ *
+ * @param routes  Only runs of these routes, under any spelling (all
+ *                when omitted); only their runs are parsed and walked,
+ *                so pass them whenever known
+ */
+export function getScheduledRuns(
+  fromSec: number,
+  toSec: number,
+  routes?: string[],
+): ScheduledRunTimes[] {
+  const dates = [serviceDateAt(fromSec, 0), serviceDateAt(fromSec, 1)];
+  const days = dates.map((date) => ({ date, start: serviceDayStartSec(date) }));
+  const result: ScheduledRunTimes[] = [];
+
+  for (const routeId of scheduleRoutesFor(routes)) {
+    const shard = routeSchedule(routeId);
+    if (!shard) continue;
+
+    for (const [tripId, runs] of Object.entries(shard.trips)) {
+      for (const { date, start } of days) {
+        for (const [service, pattern, profile, firstTime] of runs) {
+          // Cheap bound before decoding: the run can't start after `toSec`
+          if (start + firstTime > toSec) continue;
+          if (!runsOn(subwaySchedule.services[service], date)) continue;
+
+          const times = runTimes(start, firstTime, shard.profiles[profile]);
+          if (times[times.length - 1] < fromSec) continue;
+          const stops = shard.patterns[pattern].map((stop, i) => ({
+            stopId: subwaySchedule.stops[stop],
+            time: times[i],
+          }));
+          result.push({ tripId, routeId, stops });
+        }
+      }
+    }
+  }
+  return result;
+}
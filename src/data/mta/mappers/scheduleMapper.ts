@@ -0,0 +1,166 @@
+import { clockNow } from '../clock';
+import type {
+  ArrivalPrediction,
+  SubwaySnapshot,
+  Trip,
+  TripStop,
+  VehicleMotion,
+  VehiclePosition,
+} from '../types';
+import { getScheduledRuns, type ScheduledRunTimes } from './scheduleLookup';
+import { getStationName, getStopCoords, parentStationId } from './stopLookup';
+import { positionBetweenStops } from './trackGeometry';
+import { extractDirection } from './tripUpdateMapper';
+
+// ── Constants ──────────────────────────────────────────────────────
+
+/** How far ahead timetabled arrivals are listed */
+const ARRIVAL_HORIZON_SEC = 90 * 60;
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+function toArrival(
+  run: ScheduledRunTimes,
+  routeId: string,
+  stop: { stopId: string; time: number },
+): ArrivalPrediction {
+  const destinationStopId = run.stops[run.stops.length - 1].stopId;
+  return {
+    id: `${run.tripId}-${stop.stopId}`,
+    routeId,
+    tripId: run.tripId,
+    stopId: stop.stopId,
+    direction: extractDirection(run.tripId),
+    destinationStopId,
+    headsign: getStationName(destinationStopId) ?? null,
+    arrivalTime: stop.time,
+    departureTime: stop.time,
+    delay: 0,
+    scheduledTime: stop.time,
+    trainId: null,
+    // Nothing confirms the train is running
+    isAssigned: false,
+    scheduledTrack: null,
+    actualTrack: null,
+  };
+}
+
+function toTrip(run: ScheduledRunTimes, routeId: string, nowSec: number): Trip {
+  const stops: TripStop[] = run.stops
+    .filter((s) => s.time >= nowSec)
+    .map((s) => ({
+      stopId: s.stopId,
+      arrivalTime: s.time,
+      departureTime: s.time,
+      delay: 0,
+      scheduledTime: s.time,
+      scheduledTrack: null,
+      actualTrack: null,
+    }));
+  return {
+    tripId: run.tripId,
+    routeId,
+    direction: extractDirection(run.tripId),
+    firstListedStopId: run.stops[0].stopId,
+    destinationStopId: run.stops[run.stops.length - 1].stopId,
+    stops,
+    trainId: null,
+    isAssigned: false,
+  };
+}
+
+/**
+ * Where the timetable says a run is at `nowSec`: on the track between
+ * the last stop it should have left and the next, moving at the
+ * scheduled pace.  Null before it starts, after it ends, or off the
+ * station data.
+ */
+function toVehicle(
+  run: ScheduledRunTimes,
+  routeId: string,
+  nowSec: number,
+  nowMs: number,
+): VehiclePosition | null {
+  const nextIndex = run.stops.findIndex((s) => s.time > nowSec);
+  if (nextIndex <= 0) return null;
+
+  const previous = run.stops[nextIndex - 1];
+  const next = run.stops[nextIndex];
+  const span = next.time - previous.time;
+  const fraction = span > 0 ? (nowSec - previous.time) / span : 1;
+
+  const onTrack = positionBetweenStops(routeId, previous.stopId, next.stopId, fraction);
+  const from = getStopCoords(previous.stopId);
+  const to = getStopCoords(next.stopId);
+  if (!onTrack && (!from || !to)) return null;
+
+  const latitude = onTrack?.latitude ?? from!.lat + (to!.lat - from!.lat) * fraction;
+  const longitude = onTrack?.longitude ?? from!.lng + (to!.lng - from!.lng) * fraction;
+  const direction = extractDirection(run.tripId);
+  const motion: VehicleMotion | null = onTrack
+    ? {
+        fromStopId: parentStationId(previous.stopId),
+        toStopId: next.stopId,
+        departureTime: previous.time,
+        arrivalTime: next.time,
+      }
+    : null;
+
+  return {
+    id: `scheduled-${run.tripId}`,
+    routeId,
+    latitude,
+    longitude,
+    bearing: onTrack?.bearing ?? (direction === 'S' ? 180 : 0),
+    direction,
+    tripId: run.tripId,
+    currentStopId: next.stopId,
+    status: 'in-transit',
+    previousStopId: parentStationId(previous.stopId),
+    nextStopId: next.stopId,
+    tripDirection: direction,
+    trainId: null,
+    isAssigned: false,
+    motion,
+    // Recomputed on every refresh, so never ages
+    lastUpdatedMs: nowMs,
+  };
+}
+
+// ── Public mapper ──────────────────────────────────────────────────
+
+/**
+ * Builds a snapshot from the static timetable alone — the fallback
+ * when no live feed answers.  Trains are placed where their runs are
+ * due to be and arrivals are the timetabled times, all marked as not
+ * assigned to a train.
+ *
+ * Returns an empty snapshot until a timetable has been compiled.
+ *
+ * @param routes  Filter for vehicles, arrivals and trips (all when omitted)
+ * @param nowMs   Default: the active clock
+ */
+export function mapScheduledService(routes?: string[], nowMs: number = clockNow()): SubwaySnapshot {
+  const nowSec = Math.floor(nowMs / 1000);
+
+  const vehicles: VehiclePosition[] = [];
+  const arrivals: ArrivalPrediction[] = [];
+  const trips: Trip[] = [];
+
+  for (const run of getScheduledRuns(nowSec, nowSec + ARRIVAL_HORIZON_SEC, routes)) {
+    const { routeId } = run;
+    for (const stop of run.stops) {
+      if (stop.time >= nowSec && stop.time <= nowSec + ARRIVAL_HORIZON_SEC) {
+        arrivals.push(toArrival(run, routeId, stop));
+      }
+    }
+
+    const vehicle = toVehicle(run, routeId, nowSec, nowMs);
+    if (vehicle) {
+      vehicles.push(vehicle);
+      trips.push(toTrip(run, routeId, nowSec));
+    }
+  }
+
+  return { vehicles, arrivals, alerts: [], trips, feedTimestampMs: null };
+}
@@ -0,0 +1,146 @@
+import { transit_realtime } from 'gtfs-realtime-bindings';
+import type {
+  ArrivalPrediction,
+  ServiceAlert,
+  SubwaySnapshot,
+  Trip,
+  VehiclePosition,
+} from '../types';
+import { filterAlertsForRoutes, mapAlerts } from './alertMapper';
+import { mapTrips } from './tripMapper';
+import { mapTripUpdates } from './tripUpdateMapper';
+import { mapVehiclePositions } from './vehicleMapper';
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** Everything the app uses from one decoded feed. */
+export type MappedFeed = {
+  vehicles: VehiclePosition[];
+  arrivals: ArrivalPrediction[];
+  alerts: ServiceAlert[];
+  trips: Trip[];
+  /** GTFS-RT header timestamp, in ms */
+  headerTimestampMs: number | null;
+};
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+/** Deduplicate vehicles by ID, keeping the last occurrence. */
+export function deduplicateVehicles(vehicles: VehiclePosition[]): VehiclePosition[] {
+  const map = new Map<string, VehiclePosition>();
+  for (const v of vehicles) {
+    map.set(v.id, v);
+  }
+  return [...map.values()];
+}
+
+/**
+ * Filters vehicles to the given routes.
+ * If `routes` is empty or undefined, returns all vehicles.
+ */
+export function filterVehiclesForRoutes(
+  vehicles: VehiclePosition[],
+  routes?: string[],
+): VehiclePosition[] {
+  if (!routes || routes.length === 0) return vehicles;
+  const routeSet = new Set(routes.map((r) => r.toUpperCase()));
+  return vehicles.filter((v) => routeSet.has(v.routeId));
+}
+
+/** Drops predictions whose arrival time has passed — mapped rows may be reused later. */
+export function dropExpiredArrivals(
+  arrivals: ArrivalPrediction[],
+  nowMs: number,
+): ArrivalPrediction[] {
+  const nowSec = Math.floor(nowMs / 1000);
+  return arrivals.filter((a) => a.arrivalTime >= nowSec);
+}
+
+/**
+ * Filters trips to the given routes.
+ * If `routes` is empty or undefined, returns all trips.
+ */
+export function filterTripsForRoutes(trips: Trip[], routes?: string[]): Trip[] {
+  if (!routes || routes.length === 0) return trips;
+  const routeSet = new Set(routes.map((r) => r.toUpperCase()));
+  return trips.filter((t) => routeSet.has(t.routeId));
+}
+
+/**
+ * Drops stops a trip has already left, and trips with none left —
+ * mapped trips may be reused later.
+ */
+export function dropPassedTripStops(trips: Trip[], nowMs: number): Trip[] {
+  const nowSec = Math.floor(nowMs / 1000);
+  const result: Trip[] = [];
+  for (const trip of trips) {
+    const passed = trip.stops.findIndex((s) => s.departureTime >= nowSec);
+    if (passed === -1) continue;
+    result.push(passed === 0 ? trip : { ...trip, stops: trip.stops.slice(passed) });
+  }
+  return result;
+}
+
+/** The oldest of several feed timestamps, or null if none is known. */
+export function oldestTimestampMs(timestamps: Iterable<number | null>): number | null {
+  let oldest: number | null = null;
+  for (const ts of timestamps) {
+    if (ts !== null && (oldest === null || ts < oldest)) oldest = ts;
+  }
+  return oldest;
+}
+
+// ── Mapping ────────────────────────────────────────────────────────
+
+/**
+ * Maps one decoded feed into domain types.
+ *
+ * @param headerTimestampMs  The feed's header timestamp, in ms
+ * @param nowMs  "Now" for dropping expired predictions and placing trains between stops
+ */
+export function mapFeed(
+  feed: transit_realtime.IFeedMessage,
+  headerTimestampMs: number | null,
+  nowMs: number,
+): MappedFeed {
+  return {
+    vehicles: mapVehiclePositions(feed, nowMs),
+    arrivals: mapTripUpdates(feed, nowMs),
+    alerts: mapAlerts(feed),
+    trips: mapTrips(feed, nowMs),
+    headerTimestampMs,
+  };
+}
+
+/**
+ * Combines mapped feeds into one `SubwaySnapshot`.  Vehicles, alerts
+ * and trips are filtered to `routes` (all when empty); arrivals are
+ * kept for every route so station lookups still work.
+ */
+export function assembleSnapshot(
+  feeds: Iterable<MappedFeed>,
+  routes: string[] | undefined,
+  nowMs: number,
+): SubwaySnapshot {
+  const vehicles: VehiclePosition[] = [];
+  const arrivals: ArrivalPrediction[] = [];
+  const alerts: ServiceAlert[] = [];
+  const trips: Trip[] = [];
+  const timestamps: Array<number | null> = [];
+
+  for (const feed of feeds) {
+    vehicles.push(...feed.vehicles);
+    arrivals.push(...feed.arrivals);
+    alerts.push(...feed.alerts);
+    trips.push(...feed.trips);
+    timestamps.push(feed.headerTimestampMs);
+  }
+
+  return {
+    vehicles: filterVehiclesForRoutes(deduplicateVehicles(vehicles), routes),
+    arrivals: dropExpiredArrivals(arrivals, nowMs),
+    alerts: filterAlertsForRoutes(alerts, routes),
+    trips: filterTripsForRoutes(dropPassedTripStops(trips, nowMs), routes),
+    feedTimestampMs: oldestTimestampMs(timestamps),
+  };
+}
@@ -10,6 +10,7 @@ import { subwayStations } from '../subwayStations';
 export type StopCoords = { lat: number; lng: number };
 
 let _lookup: Map<string, StopCoords> | null = null;
+let _names: Map<string, string> | null = null;
 
 /**
  * Get the stop lookup map.  Lazily constructed on first call.
@@ -49,3 +50,12 @@ export function getStopCoords(stopId: string): StopCoords | undefined {
   // Try exact match first (handles parent IDs), then strip suffix
   return lookup.get(stopId) ?? lookup.get(parentStationId(stopId));
 }
+
+/**
+ * Look up the station name for a GTFS stop ID (e.g. "701N" →
+ * "Flushing-Main St").  Returns `undefined` for unknown stops.
+ */
+export function getStationName(stopId: string): string | undefined {
+  _names ??= new Map(subwayStations.map((s) => [s.id, s.name]));
+  return _names.get(stopId) ?? _names.get(parentStationId(stopId));
+}
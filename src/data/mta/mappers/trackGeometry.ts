@@ -0,0 +1,350 @@
+/**
+ * Places trains on the drawn subway lines.
+ *
+ * Station-to-station straight lines cut corners and point markers the
+ * wrong way on curves, so positions between stops are measured along
+ * the `subwayLineSegments` polylines instead, and bearings follow the
+ * local track direction.
+ *
+ * Geometry is projected onto a flat plane in metres — accurate enough
+ * at city scale.  Per-route tracks are built lazily on first use.
+ */
+
+import { normalizeRouteId } from '../routeColors';
+import { subwayLineSegments, type LatLng } from '../subwayLines';
+import { subwayStations } from '../subwayStations';
+import { parentStationId } from './stopLookup';
+
+// ── Constants ──────────────────────────────────────────────────────
+
+/** Metres per degree near New York City's latitude */
+const M_PER_DEG_LAT = 110_574;
+const M_PER_DEG_LNG = 111_320 * Math.cos((40.73 * Math.PI) / 180);
+
+/** A station further than this from a polyline isn't on it. */
+const MAX_STATION_OFFSET_M = 250;
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export type TrackPosition = {
+  latitude: number;
+  longitude: number;
+  /** Compass bearing of the track at this point, in the direction of travel */
+  bearing: number;
+};
+
+type Point = { x: number; y: number };
+
+type Polyline = {
+  points: Point[];
+  /** Distance from the first point to each point, in metres */
+  cumulative: number[];
+};
+
+type StationOnTrack = {
+  stationId: string;
+  polyline: number;
+  /** Distance along the polyline, in metres */
+  distance: number;
+};
+
+type RouteTrack = {
+  polylines: Polyline[];
+  /** Sorted by polyline, then distance */
+  stations: StationOnTrack[];
+};
+
+// ── Plane geometry ─────────────────────────────────────────────────
+
+function toPoint(lat: number, lng: number): Point {
+  return { x: lng * M_PER_DEG_LNG, y: lat * M_PER_DEG_LAT };
+}
+
+function toLatLng(p: Point): { latitude: number; longitude: number } {
+  return { latitude: p.y / M_PER_DEG_LAT, longitude: p.x / M_PER_DEG_LNG };
+}
+
+/** Compass bearing (0–360°, 0 = north) of the vector a → b. */
+function bearingOf(a: Point, b: Point): number {
+  const deg = (Math.atan2(b.x - a.x, b.y - a.y) * 180) / Math.PI;
+  return (deg + 360) % 360;
+}
+
+function buildPolyline(coords: LatLng[]): Polyline {
+  const points = coords.map(([lat, lng]) => toPoint(lat, lng));
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    const dx = points[i].x - points[i - 1].x;
+    const dy = points[i].y - points[i - 1].y;
+    cumulative.push(cumulative[i - 1] + Math.hypot(dx, dy));
+  }
+  return { points, cumulative };
+}
+
+/** Closest point on a polyline: distance along it and how far off it `p` lies. */
+function project(line: Polyline, p: Point): { distance: number; offset: number } {
+  let best = { distance: 0, offset: Infinity };
+  for (let i = 1; i < line.points.length; i++) {
+    const a = line.points[i - 1];
+    const b = line.points[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t =
+      lengthSq === 0
+        ? 0
+        : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+    const offset = Math.hypot(a.x + t * dx - p.x, a.y + t * dy - p.y);
+    if (offset < best.offset) {
+      best = { distance: line.cumulative[i - 1] + t * Math.sqrt(lengthSq), offset };
+    }
+  }
+  return best;
+}
+
+/** The point `distance` metres along a polyline, with the local tangent. */
+function pointAt(line: Polyline, distance: number, forward: boolean): TrackPosition {
+  const { points, cumulative } = line;
+  const total = cumulative[cumulative.length - 1];
+  const d = Math.max(0, Math.min(total, distance));
+
+  // First vertex at or past `d`
+  let lo = 1;
+  let hi = points.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (cumulative[mid] < d) lo = mid + 1;
+    else hi = mid;
+  }
+
+  const a = points[lo - 1];
+  const b = points[lo];
+  const span = cumulative[lo] - cumulative[lo - 1];
+  const t = span === 0 ? 0 : (d - cumulative[lo - 1]) / span;
+  const position = toLatLng({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+  const bearing = forward ? bearingOf(a, b) : bearingOf(b, a);
+  return { ...position, bearing };
+}
+
+/** The polyline between two distances along it, ends interpolated. */
+function slicePolyline(
+  line: Polyline,
+  from: number,
+  to: number,
+): Array<{ latitude: number; longitude: number }> {
+  const start = Math.min(from, to);
+  const end = Math.max(from, to);
+  const { latitude, longitude } = pointAt(line, start, true);
+  const coordinates = [{ latitude, longitude }];
+  line.points.forEach((point, i) => {
+    if (line.cumulative[i] > start && line.cumulative[i] < end) coordinates.push(toLatLng(point));
+  });
+  const last = pointAt(line, end, true);
+  coordinates.push({ latitude: last.latitude, longitude: last.longitude });
+  return coordinates;
+}
+
+// ── Route tracks ───────────────────────────────────────────────────
+
+const tracks = new Map<string, RouteTrack | null>();
+const stationPoints = new Map(subwayStations.map((s) => [s.id, toPoint(s.lat, s.lng)]));
+
+function getTrack(routeId: string): RouteTrack | null {
+  const key = normalizeRouteId(routeId);
+  const cached = tracks.get(key);
+  if (cached !== undefined) return cached;
+
+  const segments = subwayLineSegments[key];
+  if (!segments) {
+    tracks.set(key, null);
+    return null;
+  }
+
+  const polylines = segments.filter((s) => s.length >= 2).map(buildPolyline);
+  const stations: StationOnTrack[] = [];
+  for (const station of subwayStations) {
+    if (!station.routes.some((r) => normalizeRouteId(r) === key)) continue;
+    const placed = placeOnTrack(polylines, toPoint(station.lat, station.lng));
+    if (placed) stations.push({ stationId: station.id, ...placed });
+  }
+  stations.sort((a, b) => a.polyline - b.polyline || a.distance - b.distance);
+
+  const track = { polylines, stations };
+  tracks.set(key, track);
+  return track;
+}
+
+function placeOnTrack(
+  polylines: Polyline[],
+  p: Point,
+): { polyline: number; distance: number } | null {
+  let best: { polyline: number; distance: number; offset: number } | null = null;
+  polylines.forEach((line, polyline) => {
+    const { distance, offset } = project(line, p);
+    if (offset <= MAX_STATION_OFFSET_M && (!best || offset < best.offset)) {
+      best = { polyline, distance, offset };
+    }
+  });
+  return best;
+}
+
+/**
+ * Where two stops sit on a common polyline of the route, or null if
+ * no single polyline passes both.
+ */
+function locatePair(
+  track: RouteTrack,
+  fromStopId: string,
+  toStopId: string,
+): { line: Polyline; from: number; to: number } | null {
+  const a = stationPoints.get(parentStationId(fromStopId));
+  const b = stationPoints.get(parentStationId(toStopId));
+  if (!a || !b) return null;
+
+  let best: { line: Polyline; from: number; to: number; offset: number } | null = null;
+  for (const line of track.polylines) {
+    const pa = project(line, a);
+    const pb = project(line, b);
+    if (pa.offset > MAX_STATION_OFFSET_M || pb.offset > MAX_STATION_OFFSET_M) continue;
+    const offset = pa.offset + pb.offset;
+    if (!best || offset < best.offset) {
+      best = { line, from: pa.distance, to: pb.distance, offset };
+    }
+  }
+  return best;
+}
+
+/**
+ * The nearest station to `stopId` where it ends its polyline — the
+ * only way into a terminal.  Null when it has stations on both sides,
+ * since the direction of travel can't be told.
+ */
+function lineEndNeighbour(track: RouteTrack, stopId: string): string | null {
+  const id = parentStationId(stopId);
+  let nearest: { stationId: string; gap: number } | null = null;
+  for (const here of track.stations.filter((s) => s.stationId === id)) {
+    const others = track.stations.filter((s) => s.polyline === here.polyline && s.stationId !== id);
+    const before = others.some((s) => s.distance < here.distance);
+    const after = others.some((s) => s.distance > here.distance);
+    if (before && after) return null;
+
+    for (const s of others) {
+      const gap = Math.abs(s.distance - here.distance);
+      if (!nearest || gap < nearest.gap) nearest = { stationId: s.stationId, gap };
+    }
+  }
+  return nearest?.stationId ?? null;
+}
+
+// ── Public API ─────────────────────────────────────────────────────
+
+/**
+ * A point `fraction` (0–1) of the way along the track from one stop to
+ * the next, with the bearing of the track there.
+ *
+ * @returns null when the route has no geometry linking the two stops
+ */
+export function positionBetweenStops(
+  routeId: string,
+  fromStopId: string,
+  toStopId: string,
+  fraction: number,
+): TrackPosition | null {
+  const track = getTrack(routeId);
+  if (!track) return null;
+  const pair = locatePair(track, fromStopId, toStopId);
+  if (!pair) return null;
+
+  const f = Math.max(0, Math.min(1, fraction));
+  return pointAt(pair.line, pair.from + (pair.to - pair.from) * f, pair.to >= pair.from);
+}
+
+/**
+ * Track length between two stops, in metres, or null if unknown.
+ */
+export function trackDistance(
+  routeId: string,
+  fromStopId: string,
+  toStopId: string,
+): number | null {
+  const track = getTrack(routeId);
+  const pair = track && locatePair(track, fromStopId, toStopId);
+  return pair ? Math.abs(pair.to - pair.from) : null;
+}
+
+/**
+ * The station before `nextStopId` on the route, judged from the
+ * direction of travel toward `followingStopId` (the stop after it).
+ * Without a following stop — a train bound for its last stop — only
+ * a stop at the end of the drawn line has an unambiguous neighbour.
+ *
+ * @returns A parent station ID, or null at a terminal / without geometry
+ */
+export function previousStationOnTrack(
+  routeId: string,
+  nextStopId: string,
+  followingStopId: string | null,
+): string | null {
+  const track = getTrack(routeId);
+  if (!track) return null;
+  if (!followingStopId) return lineEndNeighbour(track, nextStopId);
+
+  const pair = locatePair(track, nextStopId, followingStopId);
+  if (!pair) return null;
+  const forward = pair.to >= pair.from;
+  const polyline = track.polylines.indexOf(pair.line);
+
+  const nextId = parentStationId(nextStopId);
+  const onLine = track.stations.filter((s) => s.polyline === polyline && s.stationId !== nextId);
+  const behind = onLine.filter((s) => (forward ? s.distance < pair.from : s.distance > pair.from));
+  if (behind.length === 0) return null;
+
+  // Closest station behind the train
+  return behind.reduce((a, b) =>
+    Math.abs(a.distance - pair.from) <= Math.abs(b.distance - pair.from) ? a : b,
+  ).stationId;
+}
+
+/**
+ * Snaps a stop onto the route's track, facing toward `towardStopId`.
+ *
+ * @returns null when the route has no geometry linking the two stops
+ */
+export function positionAtStop(
+  routeId: string,
+  stopId: string,
+  towardStopId: string,
+): TrackPosition | null {
+  return positionBetweenStops(routeId, stopId, towardStopId, 0);
+}
+
+/**
+ * The stretches of a route's track spanning the given stops: on each
+ * polyline passing two or more of them, the track from the first to
+ * the last.  Stops off the route's geometry are ignored.
+ */
+export function trackSpanningStops(
+  routeId: string,
+  stopIds: string[],
+): Array<Array<{ latitude: number; longitude: number }>> {
+  const track = getTrack(routeId);
+  if (!track) return [];
+
+  const stationIds = new Set(stopIds.map(parentStationId));
+  const byPolyline = new Map<number, number[]>();
+  for (const station of track.stations) {
+    if (!stationIds.has(station.stationId)) continue;
+    const distances = byPolyline.get(station.polyline) ?? [];
+    distances.push(station.distance);
+    byPolyline.set(station.polyline, distances);
+  }
+
+  const spans: Array<Array<{ latitude: number; longitude: number }>> = [];
+  for (const [polyline, distances] of byPolyline) {
+    if (distances.length < 2) continue;
+    const from = Math.min(...distances);
+    const to = Math.max(...distances);
+    if (to > from) spans.push(slicePolyline(track.polylines[polyline], from, to));
+  }
+  return spans;
+}
@@ -0,0 +1,75 @@
+import { transit_realtime } from 'gtfs-realtime-bindings';
+import { clockNow } from '../clock';
+import { toSeconds } from '../feeds/feedDecoder';
+import { getNyctStopTimeUpdate, getNyctTripDescriptor } from '../feeds/nyctExtensions';
+import type { Trip, TripStop } from '../types';
+import { getScheduledStopTimes } from './scheduleLookup';
+import { extractDirection, firstStopTime, stopDelay } from './tripUpdateMapper';
+
+// ── Public mapper ──────────────────────────────────────────────────
+
+/**
+ * Extracts whole trips from the TripUpdate entities in a decoded
+ * GTFS-RT FeedMessage, keeping each trip's stops together and in
+ * order — unlike `mapTripUpdates`, which flattens them into one
+ * prediction per stop.
+ *
+ * Stops already served are left out; trips with none left are skipped.
+ *
+ * @param nowMs  Reference time for dropping past stops. Default: the active clock
+ */
+export function mapTrips(feed: transit_realtime.IFeedMessage, nowMs: number = clockNow()): Trip[] {
+  const nowSec = Math.floor(nowMs / 1000);
+  const trips: Trip[] = [];
+
+  for (const entity of feed.entity ?? []) {
+    const tripUpdate = entity.tripUpdate;
+    if (!tripUpdate) continue;
+
+    const routeId = tripUpdate.trip?.routeId?.toUpperCase();
+    const tripId = tripUpdate.trip?.tripId;
+    if (!routeId || !tripId) continue;
+
+    const nyctTrip = getNyctTripDescriptor(tripUpdate.trip);
+    const stopTimes = (tripUpdate.stopTimeUpdate ?? []).filter((s) => !!s.stopId);
+    const schedule = getScheduledStopTimes(
+      tripId,
+      tripUpdate.trip?.startDate,
+      firstStopTime(stopTimes) || nowSec,
+    );
+
+    const stops: TripStop[] = [];
+    for (const stopTime of stopTimes) {
+      const arrivalTime = toSeconds(stopTime.arrival?.time);
+      const departureTime = toSeconds(stopTime.departure?.time);
+      const effectiveArrival = arrivalTime || departureTime;
+      if (!effectiveArrival || (departureTime || effectiveArrival) < nowSec) continue;
+
+      const nyctStop = getNyctStopTimeUpdate(stopTime);
+      const scheduledTime = schedule?.get(stopTime.stopId!) ?? null;
+      stops.push({
+        stopId: stopTime.stopId!,
+        arrivalTime: effectiveArrival,
+        departureTime: departureTime || effectiveArrival,
+        delay: stopDelay(stopTime, effectiveArrival, scheduledTime),
+        scheduledTime,
+        scheduledTrack: nyctStop?.scheduledTrack ?? null,
+        actualTrack: nyctStop?.actualTrack ?? null,
+      });
+    }
+    if (stops.length === 0) continue;
+
+    trips.push({
+      tripId,
+      routeId,
+      direction: nyctTrip?.direction ?? extractDirection(tripId),
+      firstListedStopId: stopTimes[0]?.stopId ?? null,
+      destinationStopId: stopTimes[stopTimes.length - 1]?.stopId ?? null,
+      stops,
+      trainId: nyctTrip?.trainId ?? null,
+      isAssigned: nyctTrip?.isAssigned ?? null,
+    });
+  }
+
+  return trips;
+}
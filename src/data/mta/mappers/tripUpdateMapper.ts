@@ -1,23 +1,43 @@
 import { transit_realtime } from 'gtfs-realtime-bindings';
+import { clockNow } from '../clock';
+import { toSeconds } from '../feeds/feedDecoder';
+import { getNyctStopTimeUpdate, getNyctTripDescriptor } from '../feeds/nyctExtensions';
 import { ArrivalPrediction, CardinalDirection } from '../types';
+import { getScheduledStopTimes } from './scheduleLookup';
+import { resolveStationIds } from '../stationComplexes';
+import { getStationName, parentStationId } from './stopLookup';
 
 // ── Helpers ────────────────────────────────────────────────────────
 
-function toSeconds(value: number | object | null | undefined): number {
-  if (value === null || value === undefined) return 0;
-  if (typeof value === 'number') return value;
-  // gtfs-realtime-bindings may return Long objects for timestamps
-  if (typeof (value as { toNumber?: unknown }).toNumber === 'function') {
-    return (value as { toNumber(): number }).toNumber();
+/** The first predicted time on a trip, in seconds (0 if none). */
+export function firstStopTime(stopTimes: transit_realtime.TripUpdate.IStopTimeUpdate[]): number {
+  for (const stopTime of stopTimes) {
+    const time = toSeconds(stopTime.arrival?.time) || toSeconds(stopTime.departure?.time);
+    if (time) return time;
   }
   return 0;
 }
 
-function extractDirection(tripId: string | null | undefined): CardinalDirection {
-  const token = tripId?.split('_').pop();
-  if (token === 'N') return 'N';
-  if (token === 'S') return 'S';
-  return 'UNK';
+/**
+ * Seconds late at a stop: measured against the timetable when the trip
+ * is in it, otherwise the feed's own arrival (or departure) delay.
+ */
+export function stopDelay(
+  stopTime: transit_realtime.TripUpdate.IStopTimeUpdate,
+  effectiveArrival: number,
+  scheduledTime: number | null,
+): number {
+  if (scheduledTime !== null) return effectiveArrival - scheduledTime;
+  return toSeconds(stopTime.arrival?.delay ?? stopTime.departure?.delay);
+}
+
+/**
+ * Fallback when the feed has no NYCT trip descriptor: MTA trip IDs
+ * encode the direction after a double dot (e.g. "036000_6..S03R").
+ */
+export function extractDirection(tripId: string | null | undefined): CardinalDirection {
+  const match = tripId?.match(/\.\.([NS])/);
+  return match ? (match[1] as CardinalDirection) : 'UNK';
 }
 
 // ── Public mapper ──────────────────────────────────────────────────
@@ -26,11 +46,17 @@ function extractDirection(tripId: string | null | undefined): CardinalDirection
  * Extracts arrival predictions from TripUpdate entities in a
  * decoded GTFS-RT FeedMessage.
  *
- * Each `StopTimeUpdate` in a trip produces one `ArrivalPrediction`.
- * Only entries with a future arrival time are included.
+ * Each `StopTimeUpdate` in a trip produces one `ArrivalPrediction`,
+ * headed with the name of the trip's last stop.  Only entries with a
+ * future arrival time are included.
+ *
+ * @param nowMs  Reference time for dropping past arrivals. Default: the active clock
  */
-export function mapTripUpdates(feed: transit_realtime.IFeedMessage): ArrivalPrediction[] {
-  const nowSec = Math.floor(Date.now() / 1000);
+export function mapTripUpdates(
+  feed: transit_realtime.IFeedMessage,
+  nowMs: number = clockNow(),
+): ArrivalPrediction[] {
+  const nowSec = Math.floor(nowMs / 1000);
   const predictions: ArrivalPrediction[] = [];
 
   for (const entity of feed.entity ?? []) {
@@ -41,9 +67,20 @@ export function mapTripUpdates(feed: transit_realtime.IFeedMessage): ArrivalPred
     const tripId = tripUpdate.trip?.tripId ?? '';
     if (!routeId) continue;
 
-    const direction = extractDirection(tripId);
+    const nyctTrip = getNyctTripDescriptor(tripUpdate.trip);
+    const direction = nyctTrip?.direction ?? extractDirection(tripId);
+
+    // The last stop listed is where the trip terminates
+    const stopTimes = tripUpdate.stopTimeUpdate ?? [];
+    const destinationStopId = stopTimes[stopTimes.length - 1]?.stopId || null;
+    const headsign = destinationStopId ? (getStationName(destinationStopId) ?? null) : null;
+    const schedule = getScheduledStopTimes(
+      tripId,
+      tripUpdate.trip?.startDate,
+      firstStopTime(stopTimes) || nowSec,
+    );
 
-    for (const stopTime of tripUpdate.stopTimeUpdate ?? []) {
+    for (const stopTime of stopTimes) {
       const stopId = stopTime.stopId;
       if (!stopId) continue;
 
@@ -54,7 +91,8 @@ export function mapTripUpdates(feed: transit_realtime.IFeedMessage): ArrivalPred
       const effectiveArrival = arrivalTime || departureTime;
       if (!effectiveArrival || effectiveArrival < nowSec) continue;
 
-      const delay = toSeconds(stopTime.arrival?.delay);
+      const scheduledTime = schedule?.get(stopId) ?? null;
+      const nyctStop = getNyctStopTimeUpdate(stopTime);
 
       predictions.push({
         id: `${tripId}-${stopId}`,
@@ -62,9 +100,16 @@ export function mapTripUpdates(feed: transit_realtime.IFeedMessage): ArrivalPred
         tripId,
         stopId,
         direction,
+        destinationStopId,
+        headsign,
         arrivalTime: effectiveArrival,
         departureTime: departureTime || effectiveArrival,
-        delay,
+        delay: stopDelay(stopTime, effectiveArrival, scheduledTime),
+        scheduledTime,
+        trainId: nyctTrip?.trainId ?? null,
+        isAssigned: nyctTrip?.isAssigned ?? null,
+        scheduledTrack: nyctStop?.scheduledTrack ?? null,
+        actualTrack: nyctStop?.actualTrack ?? null,
       });
     }
   }
@@ -73,18 +118,19 @@ export function mapTripUpdates(feed: transit_realtime.IFeedMessage): ArrivalPred
 }
 
 /**
- * Filters arrival predictions for a specific station.
+ * Filters arrival predictions for a station or station complex.
  *
  * MTA stop IDs include a direction suffix (e.g. "A15N", "A15S").
  * This function matches by the base stop ID (without the trailing
- * N/S) so both directions are returned.
+ * N/S) so both directions are returned.  A complex ID
+ * ("complex:611") matches every member platform, merged in time order.
  */
 export function filterArrivalsForStation(
   predictions: ArrivalPrediction[],
   stationStopId: string,
 ): ArrivalPrediction[] {
-  const baseId = stationStopId.replace(/[NS]$/, '');
+  const baseIds = new Set(resolveStationIds(stationStopId).map(parentStationId));
   return predictions
-    .filter((p) => p.stopId.replace(/[NS]$/, '') === baseId)
+    .filter((p) => baseIds.has(parentStationId(p.stopId)))
     .sort((a, b) => a.arrivalTime - b.arrivalTime);
 }
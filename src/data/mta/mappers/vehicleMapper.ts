@@ -1,12 +1,41 @@
 import { transit_realtime } from 'gtfs-realtime-bindings';
-import { CardinalDirection, VehiclePosition } from '../types';
-import { getStopCoords, StopCoords } from './stopLookup';
+import { clockNow } from '../clock';
+import { headerTimestampMs, toSeconds } from '../feeds/feedDecoder';
+import { getNyctTripDescriptor } from '../feeds/nyctExtensions';
+import { CardinalDirection, VehicleMotion, VehiclePosition, VehicleStatus } from '../types';
+import { getStopCoords, parentStationId, StopCoords } from './stopLookup';
+import {
+  positionAtStop,
+  positionBetweenStops,
+  previousStationOnTrack,
+  trackDistance,
+  type TrackPosition,
+} from './trackGeometry';
 
 // ── Helpers ────────────────────────────────────────────────────────
 
 const DEG_TO_RAD = Math.PI / 180;
 const RAD_TO_DEG = 180 / Math.PI;
 
+/** Typical running speed between stations, used to estimate departure times */
+const AVG_RUN_SPEED_MPS = 9;
+
+const { VehicleStopStatus } = transit_realtime.VehiclePosition;
+
+/** GTFS-RT stop status → domain status.  The spec default is IN_TRANSIT_TO. */
+function toVehicleStatus(
+  status: transit_realtime.VehiclePosition.VehicleStopStatus | null | undefined,
+): VehicleStatus {
+  switch (status) {
+    case VehicleStopStatus.INCOMING_AT:
+      return 'incoming';
+    case VehicleStopStatus.STOPPED_AT:
+      return 'stopped';
+    default:
+      return 'in-transit';
+  }
+}
+
 /**
  * Compute the initial compass bearing (0–360°) from point A to point B.
  */
@@ -61,25 +90,80 @@ function createVehicleId(
   return `${tripId ?? 'unknown'}-${stopId ?? 'unknown'}`;
 }
 
+/**
+ * Estimate where along the track a train is, from its stop status and
+ * the predicted arrival at the stop it is heading for.
+ *
+ * A train in transit is placed between the previous station and
+ * `stopId`: the closer its predicted arrival, the further along.  The
+ * run time between the two is estimated from the track length, which
+ * also gives the `motion` the map uses to keep the train moving.  Only
+ * a stopped train needs `followingStopId`, to face the right way.
+ */
+function estimateTrackPosition(
+  routeId: string,
+  status: VehicleStatus,
+  stopId: string,
+  previousStopId: string | null,
+  followingStopId: string | null,
+  arrivalSec: number,
+  nowSec: number,
+): { position: TrackPosition | null; motion: VehicleMotion | null } {
+  if (status === 'stopped' || !previousStopId) {
+    const position = followingStopId ? positionAtStop(routeId, stopId, followingStopId) : null;
+    return { position, motion: null };
+  }
+
+  let fraction = status === 'incoming' ? 0.9 : 0.5;
+  let motion: VehicleMotion | null = null;
+  const distance = trackDistance(routeId, previousStopId, stopId);
+  if (arrivalSec > 0 && distance) {
+    const runTimeSec = distance / AVG_RUN_SPEED_MPS;
+    fraction = 1 - Math.max(0, Math.min(1, (arrivalSec - nowSec) / runTimeSec));
+    motion = {
+      fromStopId: previousStopId,
+      toStopId: stopId,
+      departureTime: arrivalSec - runTimeSec,
+      arrivalTime: arrivalSec,
+    };
+  }
+  return { position: positionBetweenStops(routeId, previousStopId, stopId, fraction), motion };
+}
+
 // ── Public mapper ──────────────────────────────────────────────────
 
 /**
  * Extracts vehicle positions from a decoded GTFS-RT FeedMessage.
  *
  * For each vehicle we:
- *   1. Look up its current stop's coordinates from our station data.
- *   2. Find the matching trip update to determine the *next* stop.
- *   3. Compute the real compass bearing between current → next stop.
+ *   1. Find the matching trip update to determine the stops before
+ *      and after the one the train is at or heading to.
+ *   2. Place the train on the drawn line according to its stop status:
+ *      at the station when STOPPED_AT, otherwise between the previous
+ *      station and its next stop, according to the predicted arrival
+ *      time (`trackGeometry`).
+ *   3. Take the bearing from the track tangent at that point.
  *   4. Derive the cardinal direction (N/S/E/W) from the bearing.
  *
+ * Where the line geometry doesn't cover the stops, the train sits on
+ * its stop with the straight-line bearing toward the following stop.
  * For the ~7% of trains at terminals with no next stop, we fall back
- * to the raw N/S from the feed's stop ID suffix.
+ * to the trip's official direction (NYCT extension), then to the raw
+ * N/S from the feed's stop ID suffix.
+ *
+ * `lastUpdatedMs` is the vehicle's own report time, falling back to
+ * the feed header's for vehicles without one, so a train that stopped
+ * reporting ages instead of looking fresh on every poll.
  *
  * Pure function — no side effects, no network calls.
+ *
+ * @param nowMs  "Now" for placing trains between stops; also the last
+ *               resort for `lastUpdatedMs`. Default: the active clock
  */
-export function mapVehiclePositions(feed: transit_realtime.IFeedMessage): VehiclePosition[] {
-  const nowMs = Date.now();
-
+export function mapVehiclePositions(
+  feed: transit_realtime.IFeedMessage,
+  nowMs: number = clockNow(),
+): VehiclePosition[] {
   // ── Index trip updates by tripId for fast lookup ──────────────
   const tripUpdates = new Map<string, transit_realtime.ITripUpdate>();
   for (const entity of feed.entity ?? []) {
@@ -90,6 +174,8 @@ export function mapVehiclePositions(feed: transit_realtime.IFeedMessage): Vehicl
   }
 
   // ── Map vehicles ─────────────────────────────────────────────
+  const nowSec = Math.floor(nowMs / 1000);
+  const feedMs = headerTimestampMs(feed) ?? nowMs;
   const vehicles: VehiclePosition[] = [];
 
   for (const entity of feed.entity ?? []) {
@@ -106,26 +192,42 @@ export function mapVehiclePositions(feed: transit_realtime.IFeedMessage): Vehicl
     if (!curCoords) continue;
 
     const tripId = vehicle.trip?.tripId ?? null;
+    const nyctTrip = getNyctTripDescriptor(vehicle.trip);
+    const tripDirection = nyctTrip?.direction ?? fallbackDirection(stopId, tripId);
 
-    // Try to compute a real bearing from current → next stop
-    let bearing: number | null = null;
-    let nextCoords: StopCoords | undefined;
-
-    if (tripId) {
-      const tu = tripUpdates.get(tripId);
-      if (tu?.stopTimeUpdate) {
-        const stops = tu.stopTimeUpdate;
-        const curIdx = stops.findIndex((s) => s.stopId === stopId);
-        if (curIdx !== -1 && curIdx < stops.length - 1) {
-          const nextStopId = stops[curIdx + 1].stopId;
-          if (nextStopId) {
-            nextCoords = getStopCoords(nextStopId);
-          }
-        }
-      }
+    // Find the stops either side of this one, and the predicted arrival here
+    let previousStopId: string | null = null;
+    let followingStopId: string | null = null;
+    let arrivalSec = 0;
+    const stops = (tripId && tripUpdates.get(tripId)?.stopTimeUpdate) || [];
+    const curIdx = stops.findIndex((s) => s.stopId === stopId);
+    if (curIdx !== -1) {
+      const cur = stops[curIdx];
+      arrivalSec = toSeconds(cur.arrival?.time) || toSeconds(cur.departure?.time);
+      previousStopId = stops[curIdx - 1]?.stopId ?? null;
+      followingStopId = stops[curIdx + 1]?.stopId ?? null;
     }
+    // Trip updates usually drop stops already served — ask the track
+    if (!previousStopId) {
+      previousStopId = previousStationOnTrack(routeId, stopId, followingStopId);
+    }
+
+    const status = toVehicleStatus(vehicle.currentStatus);
+    const { position: onTrack, motion } = estimateTrackPosition(
+      routeId,
+      status,
+      stopId,
+      previousStopId,
+      followingStopId,
+      arrivalSec,
+      nowSec,
+    );
 
-    if (nextCoords) {
+    // Bearing from the track, else straight toward the following stop
+    let bearing: number | null = onTrack?.bearing ?? null;
+    const nextCoords: StopCoords | undefined =
+      followingStopId !== null ? getStopCoords(followingStopId) : undefined;
+    if (bearing === null && nextCoords) {
       bearing = computeBearing(curCoords.lat, curCoords.lng, nextCoords.lat, nextCoords.lng);
     }
 
@@ -134,7 +236,7 @@ export function mapVehiclePositions(feed: transit_realtime.IFeedMessage): Vehicl
     if (bearing !== null) {
       direction = cardinalFromBearing(bearing);
     } else {
-      direction = fallbackDirection(stopId, tripId);
+      direction = tripDirection;
       // Assign a coarse bearing for the fallback
       if (direction === 'N') bearing = 0;
       else if (direction === 'S') bearing = 180;
@@ -146,15 +248,57 @@ export function mapVehiclePositions(feed: transit_realtime.IFeedMessage): Vehicl
     vehicles.push({
       id: createVehicleId(entity, tripId, stopId),
       routeId,
-      latitude: curCoords.lat,
-      longitude: curCoords.lng,
+      latitude: onTrack?.latitude ?? curCoords.lat,
+      longitude: onTrack?.longitude ?? curCoords.lng,
       bearing,
       direction,
       tripId,
       currentStopId: stopId,
-      lastUpdatedMs: nowMs,
+      status,
+      previousStopId,
+      nextStopId: status === 'stopped' ? followingStopId : stopId,
+      tripDirection,
+      trainId: nyctTrip?.trainId ?? null,
+      isAssigned: nyctTrip?.isAssigned ?? null,
+      motion,
+      lastUpdatedMs: toSeconds(vehicle.timestamp) * 1000 || feedMs,
     });
   }
 
   return vehicles;
 }
+
+/**
+ * Dead-reckons a moving train's position at `nowMs` from its `motion`,
+ * so the map can advance it along the track between feed refreshes.
+ * Trains hold at the next stop once their predicted arrival passes.
+ *
+ * @returns null for trains without a motion estimate (stopped, or off
+ *          the drawn geometry) — keep them at their reported position
+ */
+export function predictVehiclePosition(
+  vehicle: VehiclePosition,
+  nowMs: number = clockNow(),
+): TrackPosition | null {
+  const { motion } = vehicle;
+  if (!motion) return null;
+
+  const runTimeSec = motion.arrivalTime - motion.departureTime;
+  if (runTimeSec <= 0) return null;
+  const fraction = (nowMs / 1000 - motion.departureTime) / runTimeSec;
+  return positionBetweenStops(vehicle.routeId, motion.fromStopId, motion.toStopId, fraction);
+}
+
+/**
+ * How a train stands relative to a station: sitting at its platform,
+ * pulling in, or neither (`null`).
+ */
+export function stationApproach(
+  vehicle: VehiclePosition,
+  stationId: string,
+): 'at-station' | 'approaching' | null {
+  if (!vehicle.currentStopId || parentStationId(vehicle.currentStopId) !== stationId) return null;
+  if (vehicle.status === 'stopped') return 'at-station';
+  if (vehicle.status === 'incoming') return 'approaching';
+  return null;
+}
@@ -1,3 +1,4 @@
+import { clockNow } from './clock';
 import type { Train } from './types';
 
 const SEED_TRAINS: Array<Pick<Train, 'id' | 'routeId' | 'latitude' | 'longitude' | 'bearing'>> = [
@@ -19,7 +20,7 @@ function jitter(base: number, amount: number): number {
 }
 
 export function getMockTrains(): Train[] {
-  const now = Date.now();
+  const now = clockNow();
   return SEED_TRAINS.map((seed) => {
     const nextBearing = wrapBearing(seed.bearing + (Math.random() - 0.5) * 16);
     return {
@@ -38,6 +39,13 @@ export function getMockTrains(): Train[] {
               : 'W',
       tripId: null,
       currentStopId: null,
+      status: 'in-transit',
+      previousStopId: null,
+      nextStopId: null,
+      tripDirection: 'UNK',
+      trainId: null,
+      isAssigned: null,
+      motion: null,
       lastUpdatedMs: now,
     };
   });
@@ -52,6 +52,38 @@ const ROUTE_LINE_NAME: Record<string, string> = {
   SI: 'Staten Island Railway',
 };
 
+/**
+ * Route IDs spelled differently across the feeds, alerts and station
+ * data, alias → the route whose bullet and track they share.
+ */
+const ROUTE_ALIASES: Record<string, string> = {
+  '6X': '6',
+  '7X': '7',
+  FX: 'F',
+  GS: 'S',
+  FS: 'S',
+  H: 'S',
+  SIR: 'SI',
+};
+
+/**
+ * The canonical spelling of a route ID: express variants fold into
+ * their line, every shuttle into "S" and the station data's "SIR" into
+ * "SI".  Compare route IDs from different sources through this.
+ *
+ * @example
+ * normalizeRouteId('GS') // → 'S'
+ */
+export function normalizeRouteId(routeId: string): string {
+  const id = routeId.toUpperCase();
+  return ROUTE_ALIASES[id] ?? id;
+}
+
+/** Whether `routeId` is a subway route with its own bullet color. */
+export function isKnownRoute(routeId: string): boolean {
+  return routeId?.toUpperCase() in ROUTE_COLOR_MAP;
+}
+
 export function getRouteColor(routeId: string): string {
   return ROUTE_COLOR_MAP[routeId?.toUpperCase()] ?? '#2C2C2E';
 }
@@ -1,153 +1,367 @@
 import { transit_realtime } from 'gtfs-realtime-bindings';
-import { fetchFeeds } from '../feeds/feedFetcher';
-import type { FetchFeedOptions } from '../feeds/feedFetcher';
-import { ALL_FEEDS, getFeedsForRoutes } from '../feeds/feedRegistry';
-import { filterAlertsForRoutes, mapAlerts } from '../mappers/alertMapper';
+import { type Clock, getClock } from '../clock';
+import {
+  discardFeedData,
+  fetchFeeds,
+  fetchFeedsData,
+  headerTimestampMs,
+} from '../feeds/feedFetcher';
+import type { FeedData, FetchFeedOptions } from '../feeds/feedFetcher';
+import { SUBWAY_ALERT_FEEDS, SUBWAY_FEEDS, getFeedsForRoutes } from '../feeds/feedRegistry';
+import { compareAlerts, filterAlertsForRoutes, mapAlerts } from '../mappers/alertMapper';
+import {
+  deduplicateVehicles,
+  dropExpiredArrivals,
+  dropPassedTripStops,
+  filterTripsForRoutes,
+  filterVehiclesForRoutes,
+  oldestTimestampMs,
+} from '../mappers/snapshotMapper';
+import { hasSchedule, routeFromTripId } from '../mappers/scheduleLookup';
+import { mapScheduledService } from '../mappers/scheduleMapper';
+import { mapTrips } from '../mappers/tripMapper';
 import { filterArrivalsForStation, mapTripUpdates } from '../mappers/tripUpdateMapper';
 import { mapVehiclePositions } from '../mappers/vehicleMapper';
 import { getMockTrains } from '../mockTrainFeed';
+import { getStationRoutes } from '../stationComplexes';
 import type {
   ArrivalPrediction,
   FeedMode,
   ServiceAlert,
   SubwayService,
   SubwaySnapshot,
+  Trip,
   VehiclePosition,
 } from '../types';
 import { FeedId } from '../types';
+import { defaultFeedWorker, type FeedWorkerClient } from '../worker/feedWorkerClient';
 
 // ── Helpers ────────────────────────────────────────────────────────
 
-/** Deduplicate vehicles by ID, keeping the last occurrence. */
-function deduplicateVehicles(vehicles: VehiclePosition[]): VehiclePosition[] {
-  const map = new Map<string, VehiclePosition>();
-  for (const v of vehicles) {
-    map.set(v.id, v);
-  }
-  return [...map.values()];
+/** Publication time of the oldest feed in a result set, in ms. */
+function oldestHeaderTimestampMs(
+  results: Map<FeedId, transit_realtime.FeedMessage>,
+): number | null {
+  return oldestTimestampMs([...results.values()].map(headerTimestampMs));
 }
 
-/** Collect all decoded messages into a flat entity list. */
-function collectMessages(
-  results: Map<FeedId, transit_realtime.FeedMessage>,
-): transit_realtime.IFeedMessage {
-  const entities: transit_realtime.IFeedEntity[] = [];
-  for (const msg of results.values()) {
-    entities.push(...(msg.entity ?? []));
-  }
-  return { entity: entities } as transit_realtime.IFeedMessage;
+function firstError(errors: Map<FeedId, Error>): Error {
+  return errors.values().next().value ?? new Error('No feeds to fetch');
 }
 
+const EMPTY_SNAPSHOT: SubwaySnapshot = {
+  vehicles: [],
+  arrivals: [],
+  alerts: [],
+  trips: [],
+  feedTimestampMs: null,
+};
+
+/** Mapped output of one decoded feed, filled in lazily. */
+type MappedFeed = {
+  vehicles?: VehiclePosition[];
+  arrivals?: ArrivalPrediction[];
+  alerts?: ServiceAlert[];
+  trips?: Trip[];
+};
+
+// ── Options ────────────────────────────────────────────────────────
+
+export type MTASubwayServiceOptions = FetchFeedOptions & {
+  /** Time source handed to the mappers. Default: the active clock (`getClock()`) */
+  clock?: Clock;
+  /** Serve the static timetable when every feed fails. Default: true */
+  scheduleFallback?: boolean;
+  /**
+   * Serve mock trains when every feed fails and there is no timetable.
+   * Default: false — the failure is reported instead of made-up trains
+   */
+  mockFallback?: boolean;
+  /**
+   * Decode and map in this worker instead of inline, so the work stays
+   * off the JS thread. Default: none (inline)
+   */
+  worker?: FeedWorkerClient;
+};
+
 // ── Service implementation ─────────────────────────────────────────
 
 /**
  * MTA GTFS-RT implementation of `SubwayService`.
  *
  * Fetches data directly from the MTA's open protobuf feeds (no API key
- * required), decodes, and maps them into domain types.
+ * required), decodes, and maps them into domain types.  Pass a
+ * `transport` to read from a local stand-in server, captured `.pb`
+ * files or memory instead:
+ *
+ * ```ts
+ * new MTASubwayService({ transport: createHttpTransport({ baseUrl: 'http://localhost:8080' }) });
+ * ```
+ *
+ * When all live feeds fail (e.g. no network connectivity) it serves
+ * the static timetable instead, with `mode` set to `'scheduled'`.
+ * Without a timetable covering today the fetch fails (or serves mock
+ * data when `mockFallback` is on).
  *
- * Falls back to mock data only when all live feeds fail (e.g. no
- * network connectivity).
+ * With a `worker`, raw payloads are handed to it and every method is
+ * answered from the plain `SubwaySnapshot` it returns.
  */
 export class MTASubwayService implements SubwayService {
   private fetchOptions: FetchFeedOptions;
+  private clock: Clock | undefined;
+  private scheduleFallback: boolean;
+  private mockFallback: boolean;
+  private worker: FeedWorkerClient | undefined;
   private _lastMode: FeedMode = 'live';
+  private _feedTimestampMs: number | null = null;
+  /**
+   * `fetchFeed` hands back the same `FeedMessage` object while a feed is
+   * unchanged, so mapped results are memoized by message identity.
+   */
+  private mapped = new WeakMap<transit_realtime.FeedMessage, MappedFeed>();
 
-  constructor(options: FetchFeedOptions = {}) {
-    this.fetchOptions = options;
+  constructor(options: MTASubwayServiceOptions = {}) {
+    const {
+      clock,
+      scheduleFallback = true,
+      mockFallback = false,
+      worker,
+      ...fetchOptions
+    } = options;
+    this.fetchOptions = fetchOptions;
+    this.clock = clock;
+    this.scheduleFallback = scheduleFallback;
+    this.mockFallback = mockFallback;
+    this.worker = worker;
   }
 
-  /** Returns the mode from the last fetch (`'live'` or `'mock'`). */
+  /** Returns the mode from the last fetch (`'live'`, `'scheduled'` or `'mock'`). */
   get mode(): FeedMode {
     return this._lastMode;
   }
 
-  // ── SubwayService interface ────────────────────────────────────
+  /**
+   * Publication time (GTFS-RT header timestamp) of the oldest feed used
+   * by the last fetch, or `null` if unknown.  Compare against the clock
+   * to flag stale data.
+   */
+  get feedTimestampMs(): number | null {
+    return this._feedTimestampMs;
+  }
 
-  async fetchVehicles(routes?: string[]): Promise<VehiclePosition[]> {
-    const feedIds = getFeedsForRoutes(routes);
-    const { results, errors } = await fetchFeeds(feedIds, this.fetchOptions);
+  /** Resolved per call so `setClock` also reaches the shared singleton. */
+  private now(): number {
+    return (this.clock ?? getClock()).now();
+  }
 
-    // Fall back to mock data if every feed failed
-    if (results.size === 0) {
-      console.warn(
-        'All MTA feeds failed, using mock data:',
-        [...errors.values()].map((e) => e.message).join(' | '),
-      );
-      this._lastMode = 'mock';
-      return getMockTrains();
+  private mappedFor(msg: transit_realtime.FeedMessage): MappedFeed {
+    let entry = this.mapped.get(msg);
+    if (!entry) {
+      entry = {};
+      this.mapped.set(msg, entry);
     }
+    return entry;
+  }
 
-    this._lastMode = 'live';
-
-    let vehicles: VehiclePosition[] = [];
+  private vehiclesOf(results: Map<FeedId, transit_realtime.FeedMessage>): VehiclePosition[] {
+    const vehicles: VehiclePosition[] = [];
     for (const msg of results.values()) {
-      vehicles.push(...mapVehiclePositions(msg));
+      const entry = this.mappedFor(msg);
+      entry.vehicles ??= mapVehiclePositions(msg, this.now());
+      vehicles.push(...entry.vehicles);
     }
+    return deduplicateVehicles(vehicles);
+  }
 
-    vehicles = deduplicateVehicles(vehicles);
+  private arrivalsOf(results: Map<FeedId, transit_realtime.FeedMessage>): ArrivalPrediction[] {
+    const nowMs = this.now();
+    const arrivals: ArrivalPrediction[] = [];
+    for (const msg of results.values()) {
+      const entry = this.mappedFor(msg);
+      entry.arrivals ??= mapTripUpdates(msg, nowMs);
+      arrivals.push(...entry.arrivals);
+    }
+    // Memoized rows may have passed since they were mapped
+    return dropExpiredArrivals(arrivals, nowMs);
+  }
 
-    // Filter by requested routes if specified
-    if (routes && routes.length > 0) {
-      const routeSet = new Set(routes.map((r) => r.toUpperCase()));
-      vehicles = vehicles.filter((v) => routeSet.has(v.routeId));
+  private alertsOf(results: Map<FeedId, transit_realtime.FeedMessage>): ServiceAlert[] {
+    const alerts: ServiceAlert[] = [];
+    for (const msg of results.values()) {
+      const entry = this.mappedFor(msg);
+      entry.alerts ??= mapAlerts(msg);
+      alerts.push(...entry.alerts);
     }
+    return alerts;
+  }
 
-    return vehicles;
+  private tripsOf(results: Map<FeedId, transit_realtime.FeedMessage>): Trip[] {
+    const nowMs = this.now();
+    const trips: Trip[] = [];
+    for (const msg of results.values()) {
+      const entry = this.mappedFor(msg);
+      entry.trips ??= mapTrips(msg, nowMs);
+      trips.push(...entry.trips);
+    }
+    return dropPassedTripStops(trips, nowMs);
   }
 
-  async fetchArrivals(stationId: string): Promise<ArrivalPrediction[]> {
-    const { results } = await fetchFeeds(ALL_FEEDS, this.fetchOptions);
-    if (results.size === 0) return [];
+  /**
+   * Logs the failures and switches to scheduled or mock mode.
+   *
+   * @throws when neither fallback is available, so callers surface the
+   *         outage rather than an empty map
+   */
+  private fallbackSnapshot(errors: Map<FeedId, Error>, routes?: string[]): SubwaySnapshot {
+    const reasons = [...errors.values()].map((e) => e.message).join(' | ');
+    const useSchedule = this.scheduleFallback && hasSchedule(Math.floor(this.now() / 1000));
+    if (!useSchedule && !this.mockFallback) {
+      throw new Error(`All MTA feeds failed: ${reasons}`);
+    }
+    console.warn(
+      `All MTA feeds failed, using ${useSchedule ? 'scheduled' : 'mock'} data:`,
+      reasons,
+    );
+    this._feedTimestampMs = null;
+    if (useSchedule) {
+      this._lastMode = 'scheduled';
+      return mapScheduledService(routes, this.now());
+    }
+    this._lastMode = 'mock';
+    return { ...EMPTY_SNAPSHOT, vehicles: getMockTrains() };
+  }
 
-    const merged = collectMessages(results);
-    const allPredictions = mapTripUpdates(merged);
-    return filterArrivalsForStation(allPredictions, stationId);
+  /**
+   * Decodes fetched payloads in the worker.  Feeds that fail to decode
+   * move to `errors` and are evicted from the cache so the next request
+   * refetches them.
+   *
+   * @returns null when none of them decoded
+   */
+  private async decodeInWorker(
+    worker: FeedWorkerClient,
+    results: Map<FeedId, FeedData>,
+    errors: Map<FeedId, Error>,
+    routes?: string[],
+  ): Promise<SubwaySnapshot | null> {
+    const { snapshot, failed } = await worker.snapshot([...results.values()], routes, this.now());
+    for (const { feedId, message } of failed) {
+      discardFeedData(results.get(feedId)!, this.fetchOptions);
+      errors.set(feedId, new Error(message));
+    }
+    return failed.length < results.size ? snapshot : null;
   }
 
-  async fetchAlerts(routes?: string[]): Promise<ServiceAlert[]> {
-    const { results } = await fetchFeeds(ALL_FEEDS, this.fetchOptions);
-    if (results.size === 0) return [];
+  /** Fetches raw payloads and lets the worker decode and map them. */
+  private async snapshotFromWorker(
+    worker: FeedWorkerClient,
+    feedIds: FeedId[],
+    routes?: string[],
+  ): Promise<SubwaySnapshot> {
+    const { results, errors } = await fetchFeedsData(feedIds, this.fetchOptions);
+    const snapshot =
+      results.size > 0 ? await this.decodeInWorker(worker, results, errors, routes) : null;
+
+    // Fall back to the timetable if every feed failed
+    if (!snapshot) return this.fallbackSnapshot(errors, routes);
 
-    const merged = collectMessages(results);
-    const allAlerts = mapAlerts(merged);
-    return filterAlertsForRoutes(allAlerts, routes);
+    this._lastMode = 'live';
+    this._feedTimestampMs = snapshot.feedTimestampMs;
+    return snapshot;
   }
 
-  async fetchAll(routes?: string[]): Promise<SubwaySnapshot> {
+  // ── SubwayService interface ────────────────────────────────────
+
+  async fetchVehicles(routes?: string[]): Promise<VehiclePosition[]> {
     const feedIds = getFeedsForRoutes(routes);
+    if (this.worker) {
+      return (await this.snapshotFromWorker(this.worker, feedIds, routes)).vehicles;
+    }
+
     const { results, errors } = await fetchFeeds(feedIds, this.fetchOptions);
 
-    // Fall back to mock data if every feed failed
+    // Fall back to the timetable if every feed failed
+    if (results.size === 0) return this.fallbackSnapshot(errors, routes).vehicles;
+
+    this._lastMode = 'live';
+    this._feedTimestampMs = oldestHeaderTimestampMs(results);
+
+    return filterVehiclesForRoutes(this.vehiclesOf(results), routes);
+  }
+
+  async fetchArrivals(stationId: string): Promise<ArrivalPrediction[]> {
+    // Only the feeds carrying the station's lines
+    const routes = getStationRoutes(stationId);
+    const feedIds = getFeedsForRoutes(routes);
+    if (this.worker) {
+      const { arrivals } = await this.snapshotFromWorker(this.worker, feedIds, routes);
+      return filterArrivalsForStation(arrivals, stationId);
+    }
+
+    const { results, errors } = await fetchFeeds(feedIds, this.fetchOptions);
     if (results.size === 0) {
-      console.warn(
-        'All MTA feeds failed, using mock data:',
-        [...errors.values()].map((e) => e.message).join(' | '),
-      );
-      this._lastMode = 'mock';
-      return {
-        vehicles: getMockTrains(),
-        arrivals: [],
-        alerts: [],
-      };
+      return filterArrivalsForStation(this.fallbackSnapshot(errors, routes).arrivals, stationId);
     }
 
-    this._lastMode = 'live';
-    const merged = collectMessages(results);
+    return filterArrivalsForStation(this.arrivalsOf(results), stationId);
+  }
+
+  /**
+   * Alerts come from the subway alerts feed alone, and never fall back
+   * to scheduled or mock data.
+   *
+   * @throws the feed's error when it can't be fetched
+   */
+  async fetchAlerts(routes?: string[]): Promise<ServiceAlert[]> {
+    if (this.worker) {
+      const { results, errors } = await fetchFeedsData(SUBWAY_ALERT_FEEDS, this.fetchOptions);
+      const snapshot =
+        results.size > 0 ? await this.decodeInWorker(this.worker, results, errors, routes) : null;
+      if (!snapshot) throw firstError(errors);
+      return snapshot.alerts.sort(compareAlerts);
+    }
 
-    let vehicles = deduplicateVehicles(mapVehiclePositions(merged));
-    const arrivals = mapTripUpdates(merged);
-    const alerts = mapAlerts(merged);
+    const { results, errors } = await fetchFeeds(SUBWAY_ALERT_FEEDS, this.fetchOptions);
+    if (results.size === 0) throw firstError(errors);
 
-    if (routes && routes.length > 0) {
-      const routeSet = new Set(routes.map((r) => r.toUpperCase()));
-      vehicles = vehicles.filter((v) => routeSet.has(v.routeId));
+    return filterAlertsForRoutes(this.alertsOf(results), routes).sort(compareAlerts);
+  }
+
+  async fetchTrip(tripId: string, routeId?: string): Promise<Trip | null> {
+    const route = routeId ?? routeFromTripId(tripId);
+    const feedIds = route ? getFeedsForRoutes([route]) : SUBWAY_FEEDS;
+    if (this.worker) {
+      const { trips } = await this.snapshotFromWorker(this.worker, feedIds);
+      return trips.find((t) => t.tripId === tripId) ?? null;
     }
 
+    const { results, errors } = await fetchFeeds(feedIds, this.fetchOptions);
+    if (results.size === 0) {
+      const fallback = this.fallbackSnapshot(errors, route ? [route] : undefined);
+      return fallback.trips.find((t) => t.tripId === tripId) ?? null;
+    }
+
+    return this.tripsOf(results).find((t) => t.tripId === tripId) ?? null;
+  }
+
+  async fetchAll(routes?: string[]): Promise<SubwaySnapshot> {
+    const feedIds = getFeedsForRoutes(routes);
+    if (this.worker) return this.snapshotFromWorker(this.worker, feedIds, routes);
+
+    const { results, errors } = await fetchFeeds(feedIds, this.fetchOptions);
+
+    // Fall back to the timetable if every feed failed
+    if (results.size === 0) return this.fallbackSnapshot(errors, routes);
+
+    this._lastMode = 'live';
+    this._feedTimestampMs = oldestHeaderTimestampMs(results);
+
     return {
-      vehicles,
-      arrivals,
-      alerts: filterAlertsForRoutes(alerts, routes),
+      vehicles: filterVehiclesForRoutes(this.vehiclesOf(results), routes),
+      arrivals: this.arrivalsOf(results),
+      alerts: filterAlertsForRoutes(this.alertsOf(results), routes),
+      trips: filterTripsForRoutes(this.tripsOf(results), routes),
+      feedTimestampMs: this._feedTimestampMs,
     };
   }
 }
@@ -157,6 +371,7 @@ export class MTASubwayService implements SubwayService {
 /**
  * Shared service instance used by hooks and stores.
  * Import this rather than constructing your own unless you need
- * custom fetch options (e.g. different cache TTL for tests).
+ * custom fetch options (e.g. different cache TTL or transport for tests).
+ * Decoding runs through `defaultFeedWorker`.
  */
-export const subwayService = new MTASubwayService();
+export const subwayService = new MTASubwayService({ worker: defaultFeedWorker });
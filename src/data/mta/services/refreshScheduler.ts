@@ -0,0 +1,334 @@
+import { AppState, type AppStateStatus, type NativeEventSubscription } from 'react-native';
+import { clockNow } from '../clock';
+import { filterVehiclesForRoutes } from '../mappers/snapshotMapper';
+import { routeFromTripId } from '../mappers/scheduleLookup';
+import { filterArrivalsForStation } from '../mappers/tripUpdateMapper';
+import { useAlertStore } from '../stores/alertStore';
+import { useArrivalStore } from '../stores/arrivalStore';
+import { useTrainStore } from '../stores/trainStore';
+import { useTripStore } from '../stores/tripStore';
+import { dropExpiredVehicles } from '../staleness';
+import { getStationRoutes } from '../stationComplexes';
+import type { FeedMode, SubwayService, SubwaySnapshot } from '../types';
+import { subwayService } from './mtaSubwayService';
+
+const REFRESH_MS = 15_000;
+/** Alerts change far less often than positions; poll them every fourth tick */
+const ALERTS_REFRESH_MS = 60_000;
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** What a mounted hook wants kept fresh. */
+export type RefreshInterest =
+  | { kind: 'trains'; routes?: string[] }
+  /** `stationId` may be a complex ID */
+  | { kind: 'arrivals'; stationId: string }
+  | { kind: 'alerts'; routes?: string[] }
+  | { kind: 'trip'; tripId: string; routeId?: string };
+
+/** A service the scheduler can poll — `MTASubwayService` or `ReplaySubwayService`. */
+export type ScheduledService = SubwayService & { readonly mode: FeedMode };
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+/**
+ * Union of the route filters in `filters`, or `undefined` (everything)
+ * if any of them is unfiltered.
+ */
+function unionRoutes(filters: Array<string[] | undefined>): string[] | undefined {
+  const union = new Set<string>();
+  for (const routes of filters) {
+    if (!routes || routes.length === 0) return undefined;
+    for (const route of routes) union.add(route.toUpperCase());
+  }
+  return [...union];
+}
+
+function routesOf(interest: RefreshInterest): string[] | undefined {
+  switch (interest.kind) {
+    case 'arrivals':
+      return getStationRoutes(interest.stationId);
+    case 'trip': {
+      const route = interest.routeId ?? routeFromTripId(interest.tripId);
+      return route ? [route] : undefined;
+    }
+    default:
+      return interest.routes;
+  }
+}
+
+// ── Scheduler ──────────────────────────────────────────────────────
+
+/**
+ * One polling loop for the whole app.
+ *
+ * Hooks register what they need (`subscribe`) instead of running their
+ * own timers.  Each tick fetches the smallest feed set covering every
+ * registered interest with a single `fetchAll`, then fans the snapshot
+ * out to the train, arrival and trip stores.  Alerts are fetched from
+ * their own feed alongside, on a slower cadence (`alertsIntervalMs`).
+ * Polling stops while the app is in the background and catches up as
+ * soon as it returns.
+ */
+export class RefreshScheduler {
+  private service: ScheduledService;
+  private intervalMs: number;
+  private alertsIntervalMs: number;
+  private interests = new Set<RefreshInterest>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  /** Coalesces subscriptions made in the same render into one refresh */
+  private pendingRefresh: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private appState: AppStateStatus = AppState.currentState;
+  private refreshing = false;
+  /** Interests changed mid-refresh; run again once it settles */
+  private dirty = false;
+  private lastRefreshAt: number | null = null;
+  /** null until alerts are first fetched, or when a new alerts interest needs them now */
+  private lastAlertsAt: number | null = null;
+
+  constructor(
+    service: ScheduledService,
+    intervalMs: number = REFRESH_MS,
+    alertsIntervalMs: number = ALERTS_REFRESH_MS,
+  ) {
+    this.service = service;
+    this.intervalMs = intervalMs;
+    this.alertsIntervalMs = alertsIntervalMs;
+  }
+
+  /** Whether polling is currently suspended because the app is backgrounded. */
+  get isPaused(): boolean {
+    return this.appState === 'background';
+  }
+
+  /**
+   * Keep `interest` fresh until the returned function is called.
+   * Triggers a refresh right away so new screens don't wait a full tick.
+   */
+  subscribe(interest: RefreshInterest): () => void {
+    this.interests.add(interest);
+    if (interest.kind === 'alerts') this.lastAlertsAt = null;
+    if (this.interests.size === 1) this.start();
+    this.requestRefresh();
+
+    return () => {
+      this.interests.delete(interest);
+      if (this.interests.size === 0) this.stop();
+    };
+  }
+
+  /** Poll a different service (e.g. a replay) from the next refresh on. */
+  setService(service: ScheduledService): void {
+    this.service = service;
+    this.lastAlertsAt = null;
+    if (this.interests.size > 0) this.requestRefresh();
+  }
+
+  /** Refresh now instead of waiting for the next tick. */
+  refreshNow(): Promise<void> {
+    return this.refresh();
+  }
+
+  // ── Lifecycle ──────────────────────────────────────────────────
+
+  private start(): void {
+    this.appState = AppState.currentState;
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppState);
+    if (!this.isPaused) this.startTimer();
+  }
+
+  private stop(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.stopTimer();
+    if (this.pendingRefresh) {
+      clearTimeout(this.pendingRefresh);
+      this.pendingRefresh = null;
+    }
+  }
+
+  private startTimer(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.refresh();
+    }, this.intervalMs);
+  }
+
+  private stopTimer(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private handleAppState = (next: AppStateStatus): void => {
+    const wasPaused = this.isPaused;
+    this.appState = next;
+
+    if (this.isPaused) {
+      this.stopTimer();
+      return;
+    }
+    if (!wasPaused) return;
+
+    // Back in the foreground — catch up if a tick was missed
+    this.startTimer();
+    if (this.lastRefreshAt === null || Date.now() - this.lastRefreshAt >= this.intervalMs) {
+      this.requestRefresh();
+    }
+  };
+
+  private requestRefresh(): void {
+    if (this.pendingRefresh || this.isPaused) return;
+    this.pendingRefresh = setTimeout(() => {
+      this.pendingRefresh = null;
+      void this.refresh();
+    }, 0);
+  }
+
+  // ── Refresh ────────────────────────────────────────────────────
+
+  private async refresh(): Promise<void> {
+    if (this.refreshing) {
+      this.dirty = true;
+      return;
+    }
+    if (this.interests.size === 0) return;
+
+    const feedInterests = [...this.interests].filter((i) => i.kind !== 'alerts');
+    const alertInterests = this.alertsDue()
+      ? [...this.interests].filter((i) => i.kind === 'alerts')
+      : [];
+    const interests = [...feedInterests, ...alertInterests];
+    if (interests.length === 0) return;
+
+    this.refreshing = true;
+    this.dirty = false;
+    // Stamped up front so an alerts interest added mid-refresh still forces a fetch
+    if (alertInterests.length > 0) this.lastAlertsAt = Date.now();
+    this.setLoading(interests, true);
+
+    // Alerts come from their own feed, so neither fetch holds up the other
+    await Promise.all([
+      feedInterests.length > 0 && this.refreshFeeds(feedInterests),
+      alertInterests.length > 0 && this.refreshAlerts(alertInterests),
+    ]);
+    this.lastRefreshAt = Date.now();
+    this.setLoading(interests, false);
+    this.refreshing = false;
+
+    if (this.dirty) this.requestRefresh();
+  }
+
+  /**
+   * Whether this tick should fetch alerts.  Half a tick of slack keeps
+   * timer jitter from pushing a due refresh to the tick after.
+   */
+  private alertsDue(): boolean {
+    if (this.lastAlertsAt === null) return true;
+    return Date.now() - this.lastAlertsAt >= this.alertsIntervalMs - this.intervalMs / 2;
+  }
+
+  private async refreshFeeds(interests: RefreshInterest[]): Promise<void> {
+    try {
+      this.publish(await this.service.fetchAll(this.routesFor(interests)));
+    } catch (error) {
+      this.publishError(interests, error);
+    }
+  }
+
+  private async refreshAlerts(interests: RefreshInterest[]): Promise<void> {
+    try {
+      const alerts = await this.service.fetchAlerts(this.routesFor(interests));
+      const { setAlerts, setError } = useAlertStore.getState();
+      setAlerts(alerts);
+      setError(null);
+    } catch (error) {
+      this.publishError(interests, error);
+    }
+  }
+
+  /**
+   * Routes covering every interest — stations contribute the lines
+   * that stop there, trips their own route.  `undefined` means all
+   * feeds are needed.
+   */
+  private routesFor(interests: RefreshInterest[]): string[] | undefined {
+    return unionRoutes(interests.map(routesOf));
+  }
+
+  /** Fans a snapshot out to the stores, for the interests registered now (alerts aside). */
+  private publish(snapshot: SubwaySnapshot): void {
+    const interests = [...this.interests];
+    const trainRoutes: Array<string[] | undefined> = [];
+    const stationIds = new Set<string>();
+    const tripIds = new Set<string>();
+
+    for (const interest of interests) {
+      if (interest.kind === 'trains') trainRoutes.push(interest.routes);
+      else if (interest.kind === 'alerts') continue;
+      else if (interest.kind === 'trip') tripIds.add(interest.tripId);
+      else stationIds.add(interest.stationId);
+    }
+
+    if (trainRoutes.length > 0) {
+      const { setTrains, setError } = useTrainStore.getState();
+      setTrains(
+        dropExpiredVehicles(
+          filterVehiclesForRoutes(snapshot.vehicles, unionRoutes(trainRoutes)),
+          clockNow(),
+        ),
+        this.service.mode,
+        snapshot.feedTimestampMs,
+      );
+      setError(null);
+    }
+
+    if (stationIds.size > 0) {
+      const { setArrivals, setError } = useArrivalStore.getState();
+      for (const stationId of stationIds) {
+        setArrivals(stationId, filterArrivalsForStation(snapshot.arrivals, stationId));
+      }
+      setError(null);
+    }
+
+    if (tripIds.size > 0) {
+      const { setTrip, setError } = useTripStore.getState();
+      for (const tripId of tripIds) {
+        setTrip(tripId, snapshot.trips.find((t) => t.tripId === tripId) ?? null);
+      }
+      setError(null);
+    }
+  }
+
+  private publishError(interests: RefreshInterest[], error: unknown): void {
+    const detail = error instanceof Error ? error.message : null;
+    const kinds = new Set(interests.map((i) => i.kind));
+
+    if (kinds.has('trains')) {
+      useTrainStore.getState().setError(detail ?? 'Could not load live trains at the moment.');
+    }
+    if (kinds.has('arrivals')) {
+      useArrivalStore.getState().setError(detail ?? 'Could not load arrival predictions.');
+    }
+    if (kinds.has('alerts')) {
+      useAlertStore.getState().setError(detail ?? 'Could not load service alerts.');
+    }
+    if (kinds.has('trip')) {
+      useTripStore.getState().setError(detail ?? 'Could not load this trip.');
+    }
+  }
+
+  private setLoading(interests: RefreshInterest[], isLoading: boolean): void {
+    const kinds = new Set(interests.map((i) => i.kind));
+    if (kinds.has('trains')) useTrainStore.getState().setLoading(isLoading);
+    if (kinds.has('arrivals')) useArrivalStore.getState().setLoading(isLoading);
+    if (kinds.has('alerts')) useAlertStore.getState().setLoading(isLoading);
+    if (kinds.has('trip')) useTripStore.getState().setLoading(isLoading);
+  }
+}
+
+// ── Default singleton ──────────────────────────────────────────────
+
+/** Shared scheduler behind `useLiveTrains`, `useStationArrivals`, `useServiceAlerts` and `useTrip`. */
+export const refreshScheduler = new RefreshScheduler(subwayService);
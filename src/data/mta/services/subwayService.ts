@@ -10,5 +10,6 @@ export type {
   VehiclePosition,
   ArrivalPrediction,
   ServiceAlert,
+  Trip,
   FeedMode,
 } from '../types';
@@ -0,0 +1,66 @@
+import { clockNow } from './clock';
+import type { VehiclePosition } from './types';
+
+/**
+ * When a train's reported position is too old to trust.
+ *
+ * The feeds keep listing a train for a while after it stops reporting
+ * (dead transponder, laid up at a yard), leaving a "ghost" parked on
+ * the map.  Each vehicle's `lastUpdatedMs` comes from the feed's own
+ * per-vehicle timestamp, so its age says how stale it really is.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export type StalenessPolicy = {
+  /** Older than this, a train is drawn as stale (faded, not animated) */
+  staleAfterMs: number;
+  /** Older than this, a train is dropped from the map altogether */
+  dropAfterMs: number;
+};
+
+export type VehicleFreshness = 'fresh' | 'stale' | 'expired';
+
+// ── Policy ─────────────────────────────────────────────────────────
+
+export const DEFAULT_STALENESS_POLICY: StalenessPolicy = {
+  staleAfterMs: 90_000,
+  dropAfterMs: 5 * 60_000,
+};
+
+let activePolicy: StalenessPolicy = DEFAULT_STALENESS_POLICY;
+
+/**
+ * Adjust the thresholds, e.g. to keep ghosts visible while debugging:
+ * `setStalenessPolicy({ dropAfterMs: Infinity })`.
+ */
+export function setStalenessPolicy(policy: Partial<StalenessPolicy>): void {
+  activePolicy = { ...activePolicy, ...policy };
+}
+
+export function getStalenessPolicy(): StalenessPolicy {
+  return activePolicy;
+}
+
+// ── Checks ─────────────────────────────────────────────────────────
+
+/** How much to trust a vehicle's position at `nowMs`. */
+export function vehicleFreshness(
+  vehicle: VehiclePosition,
+  nowMs: number = clockNow(),
+  policy: StalenessPolicy = activePolicy,
+): VehicleFreshness {
+  const ageMs = nowMs - vehicle.lastUpdatedMs;
+  if (ageMs > policy.dropAfterMs) return 'expired';
+  if (ageMs > policy.staleAfterMs) return 'stale';
+  return 'fresh';
+}
+
+/** Removes vehicles the policy says are too old to show. */
+export function dropExpiredVehicles(
+  vehicles: VehiclePosition[],
+  nowMs: number = clockNow(),
+  policy: StalenessPolicy = activePolicy,
+): VehiclePosition[] {
+  return vehicles.filter((v) => vehicleFreshness(v, nowMs, policy) !== 'expired');
+}
@@ -0,0 +1,122 @@
+import { subwayStations, type SubwayStation } from './subwayStations';
+
+/**
+ * Station complexes: platforms riders treat as one station.
+ *
+ * The station data lists each line group's platforms separately, so
+ * Times Sq-42 St appears once for the 1/2/3, once for the N/Q/R/W and
+ * so on.  Platforms sharing an MTA complex ID are merged here — which
+ * also joins differently named platforms the MTA connects, like
+ * 42 St-Port Authority Bus Terminal with Times Sq-42 St.
+ *
+ * Built lazily on first access.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export type StationComplex = {
+  /** "complex:" + the MTA complex ID — never collides with a GTFS stop ID */
+  id: string;
+  /** Name of the busiest member platform */
+  name: string;
+  /** Centre of the member platforms */
+  lat: number;
+  lng: number;
+  /** Every route serving any member, in first-seen order */
+  routes: string[];
+  borough: string;
+  /** True if any member platform is accessible */
+  ada: boolean;
+  /** Member station IDs (e.g. ["127", "725", "902", "R16"]) */
+  stationIds: string[];
+};
+
+// ── Constants ──────────────────────────────────────────────────────
+
+const COMPLEX_ID_PREFIX = 'complex:';
+
+// ── Index ──────────────────────────────────────────────────────────
+
+let _complexes: Map<string, StationComplex> | null = null;
+let _byStation: Map<string, StationComplex> | null = null;
+
+/** Groups platforms by their MTA complex ID. */
+function groupStations(): SubwayStation[][] {
+  const byComplexId = new Map<string, SubwayStation[]>();
+  for (const station of subwayStations) {
+    const group = byComplexId.get(station.complexId) ?? [];
+    group.push(station);
+    byComplexId.set(station.complexId, group);
+  }
+  return [...byComplexId.values()];
+}
+
+function toComplex(members: SubwayStation[]): StationComplex {
+  const busiest = members.reduce((a, b) => (b.routes.length > a.routes.length ? b : a));
+  const routes = [...new Set(members.flatMap((s) => s.routes))];
+  return {
+    id: COMPLEX_ID_PREFIX + members[0].complexId,
+    name: busiest.name,
+    lat: members.reduce((sum, s) => sum + s.lat, 0) / members.length,
+    lng: members.reduce((sum, s) => sum + s.lng, 0) / members.length,
+    routes,
+    borough: members[0].borough,
+    ada: members.some((s) => s.ada),
+    stationIds: members.map((s) => s.id),
+  };
+}
+
+function buildIndex(): void {
+  _complexes = new Map();
+  _byStation = new Map();
+  for (const members of groupStations()) {
+    const complex = toComplex(members);
+    _complexes.set(complex.id, complex);
+    for (const stationId of complex.stationIds) _byStation.set(stationId, complex);
+  }
+}
+
+// ── Public API ─────────────────────────────────────────────────────
+
+/** Whether `id` names a complex rather than a single station. */
+export function isComplexId(id: string): boolean {
+  return id.startsWith(COMPLEX_ID_PREFIX);
+}
+
+/** Every complex, one per physical station. */
+export function getStationComplexes(): StationComplex[] {
+  if (!_complexes) buildIndex();
+  return [..._complexes!.values()];
+}
+
+/** Look up a complex by its ID (e.g. "complex:611"). */
+export function getComplex(complexId: string): StationComplex | undefined {
+  if (!_complexes) buildIndex();
+  return _complexes!.get(complexId);
+}
+
+/**
+ * The complex a station belongs to.  Every station has one — a lone
+ * platform is a complex of one.
+ */
+export function getComplexForStation(stationId: string): StationComplex | undefined {
+  if (!_byStation) buildIndex();
+  return _byStation!.get(stationId);
+}
+
+/**
+ * Station IDs behind a station or complex ID: the members of a
+ * complex, or the station itself.
+ */
+export function resolveStationIds(id: string): string[] {
+  return isComplexId(id) ? (getComplex(id)?.stationIds ?? []) : [id];
+}
+
+/**
+ * Routes serving a station or complex ID — the lines whose feeds carry
+ * its arrivals.  Undefined for unknown IDs.
+ */
+export function getStationRoutes(id: string): string[] | undefined {
+  if (isComplexId(id)) return getComplex(id)?.routes;
+  return subwayStations.find((s) => s.id === id)?.routes;
+}
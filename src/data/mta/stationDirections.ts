@@ -0,0 +1,45 @@
+import type { SubwayStation } from './subwayStations';
+import type { ArrivalPrediction, CardinalDirection } from './types';
+
+/**
+ * Rider-facing name for a direction of travel at a station.
+ *
+ * Uses the MTA's own per-station labels ("Manhattan", "Coney Island",
+ * "Queens") from the station data.  A station without a label for that
+ * direction gets Uptown/Downtown in Manhattan and Northbound/Southbound
+ * elsewhere.
+ *
+ * @returns null when the direction is unknown
+ */
+export function stationDirectionLabel(
+  station: Pick<SubwayStation, 'borough' | 'northLabel' | 'southLabel'> | null | undefined,
+  direction: CardinalDirection,
+): string | null {
+  const inManhattan = station?.borough === 'M';
+  switch (direction) {
+    case 'N':
+      return station?.northLabel ?? (inManhattan ? 'Uptown' : 'Northbound');
+    case 'S':
+      return station?.southLabel ?? (inManhattan ? 'Downtown' : 'Southbound');
+    case 'E':
+      return 'Eastbound';
+    case 'W':
+      return 'Westbound';
+    default:
+      return null;
+  }
+}
+
+/**
+ * An arrival's direction, read from its platform stop ID ("A15N") when
+ * the feed leaves it unknown.
+ */
+export function arrivalDirection(
+  arrival: Pick<ArrivalPrediction, 'direction' | 'stopId'>,
+): CardinalDirection {
+  if (arrival.direction !== 'UNK') return arrival.direction;
+  const last = arrival.stopId?.charAt(arrival.stopId.length - 1);
+  if (last === 'N') return 'N';
+  if (last === 'S') return 'S';
+  return 'UNK';
+}
@@ -1,5 +1,8 @@
 import { create } from 'zustand';
-import type { ServiceAlert } from '../types';
+import { clockNow } from '../clock';
+import { compareAlertSeverity } from '../mappers/alertMapper';
+import { normalizeRouteId } from '../routeColors';
+import type { AlertSeverity, ServiceAlert } from '../types';
 
 type AlertState = {
   alerts: ServiceAlert[];
@@ -21,7 +24,7 @@ export const useAlertStore = create<AlertState>((set) => ({
   setAlerts: (alerts) =>
     set({
       alerts,
-      lastUpdatedMs: Date.now(),
+      lastUpdatedMs: clockNow(),
     }),
 
   setLoading: (isLoading) => set({ isLoading }),
@@ -30,18 +33,60 @@ export const useAlertStore = create<AlertState>((set) => ({
 
 // ── Derived selectors ──────────────────────────────────────────────
 
+/**
+ * True when any of the alert's active periods covers `nowMs`
+ * (alerts without periods are always active).
+ */
+export function isAlertActive(alert: ServiceAlert, nowMs: number = clockNow()): boolean {
+  const now = Math.floor(nowMs / 1000);
+  if (alert.activePeriods.length === 0) return true;
+  return alert.activePeriods.some((p) => {
+    const started = !p.startTime || p.startTime <= now;
+    const notEnded = !p.endTime || p.endTime >= now;
+    return started && notEnded;
+  });
+}
+
 /**
  * Returns the count of currently active alerts.
  * Can be used directly: `const count = activeAlertCount();`
  */
-export function activeAlertCount(): number {
-  const now = Math.floor(Date.now() / 1000);
-  return useAlertStore.getState().alerts.filter((alert) => {
-    if (alert.activePeriods.length === 0) return true;
-    return alert.activePeriods.some((p) => {
-      const started = !p.startTime || p.startTime <= now;
-      const notEnded = !p.endTime || p.endTime >= now;
-      return started && notEnded;
-    });
-  }).length;
+export function activeAlertCount(nowMs: number = clockNow()): number {
+  return useAlertStore.getState().alerts.filter((alert) => isAlertActive(alert, nowMs)).length;
+}
+
+/** Whether `alert` affects `routeId`, however either side spells it (see `normalizeRouteId`). */
+export function alertAffectsRoute(alert: ServiceAlert, routeId: string): boolean {
+  const route = normalizeRouteId(routeId);
+  return alert.routeIds.some((id) => normalizeRouteId(id) === route);
+}
+
+/**
+ * The worst severity among the active alerts for each affected route —
+ * what a route badge's warning indicator shows.  Keyed by canonical
+ * route ID; read it with `routeAlertSeverity`.
+ */
+export function activeRouteSeverities(
+  alerts: ServiceAlert[],
+  nowMs: number = clockNow(),
+): Map<string, AlertSeverity> {
+  const severities = new Map<string, AlertSeverity>();
+  for (const alert of alerts) {
+    if (!isAlertActive(alert, nowMs)) continue;
+    for (const routeId of alert.routeIds.map(normalizeRouteId)) {
+      const current = severities.get(routeId);
+      if (!current || compareAlertSeverity(alert.severity, current) < 0) {
+        severities.set(routeId, alert.severity);
+      }
+    }
+  }
+  return severities;
+}
+
+/** A route's entry in `activeRouteSeverities`, under any of its spellings. */
+export function routeAlertSeverity(
+  severities: Map<string, AlertSeverity> | undefined,
+  routeId: string,
+): AlertSeverity | undefined {
+  return severities?.get(normalizeRouteId(routeId));
 }
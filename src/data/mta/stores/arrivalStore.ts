@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import { clockNow } from '../clock';
 import type { ArrivalPrediction } from '../types';
 
 type ArrivalState = {
@@ -23,7 +24,7 @@ export const useArrivalStore = create<ArrivalState>((set) => ({
   setArrivals: (stationId, arrivals) =>
     set((state) => ({
       arrivals: { ...state.arrivals, [stationId]: arrivals },
-      lastUpdatedMs: Date.now(),
+      lastUpdatedMs: clockNow(),
     })),
 
   clearStation: (stationId) =>
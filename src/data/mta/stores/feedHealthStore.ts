@@ -0,0 +1,32 @@
+import { create } from 'zustand';
+import { type FeedHealth, getAllFeedHealth, subscribeToFeedHealth } from '../feeds/feedHealth';
+import type { FeedId } from '../types';
+
+type FeedHealthState = {
+  /** Keyed by feed ID; feeds never requested are absent */
+  feeds: Partial<Record<FeedId, FeedHealth>>;
+};
+
+/**
+ * Mirrors the feed health registry (`feeds/feedHealth.ts`) so UI can
+ * react to feeds going down or recovering.
+ */
+export const useFeedHealthStore = create<FeedHealthState>(() => ({
+  feeds: getAllFeedHealth(),
+}));
+
+subscribeToFeedHealth(() => {
+  useFeedHealthStore.setState({ feeds: getAllFeedHealth() });
+});
+
+// ── Derived selectors ──────────────────────────────────────────────
+
+/**
+ * Feeds currently refused by their circuit breaker.
+ * Use with `useShallow`: `useFeedHealthStore(useShallow(selectUnavailableFeeds))`.
+ */
+export function selectUnavailableFeeds(state: FeedHealthState): FeedId[] {
+  return Object.values(state.feeds)
+    .filter((h) => h.circuit !== 'closed')
+    .map((h) => h.feedId);
+}
@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import { clockNow } from '../clock';
 import type { FeedMode, VehiclePosition } from '../types';
 
 type TrainState = {
@@ -6,10 +7,12 @@ type TrainState = {
   isLoading: boolean;
   errorMessage: string | null;
   lastUpdatedMs: number | null;
+  /** Publication time of the underlying feed data (GTFS-RT header timestamp) */
+  feedTimestampMs: number | null;
   mode: FeedMode;
   setLoading: (isLoading: boolean) => void;
   setError: (errorMessage: string | null) => void;
-  setTrains: (trains: VehiclePosition[], mode: FeedMode) => void;
+  setTrains: (trains: VehiclePosition[], mode: FeedMode, feedTimestampMs?: number | null) => void;
 };
 
 export const useTrainStore = create<TrainState>((set) => ({
@@ -17,13 +20,15 @@ export const useTrainStore = create<TrainState>((set) => ({
   isLoading: false,
   errorMessage: null,
   lastUpdatedMs: null,
+  feedTimestampMs: null,
   mode: 'live',
   setLoading: (isLoading) => set({ isLoading }),
   setError: (errorMessage) => set({ errorMessage }),
-  setTrains: (trains, mode) =>
+  setTrains: (trains, mode, feedTimestampMs = null) =>
     set({
       trains,
       mode,
-      lastUpdatedMs: Date.now(),
+      feedTimestampMs,
+      lastUpdatedMs: clockNow(),
     }),
 }));
@@ -0,0 +1,41 @@
+import { create } from 'zustand';
+import { clockNow } from '../clock';
+import type { Trip } from '../types';
+
+type TripState = {
+  /** Keyed by trip ID; a trip that has left the feed is removed */
+  trips: Record<string, Trip>;
+  isLoading: boolean;
+  errorMessage: string | null;
+  lastUpdatedMs: number | null;
+
+  setTrip: (tripId: string, trip: Trip | null) => void;
+  clearTrip: (tripId: string) => void;
+  setLoading: (isLoading: boolean) => void;
+  setError: (errorMessage: string | null) => void;
+};
+
+export const useTripStore = create<TripState>((set) => ({
+  trips: {},
+  isLoading: false,
+  errorMessage: null,
+  lastUpdatedMs: null,
+
+  setTrip: (tripId, trip) =>
+    set((state) => {
+      const { [tripId]: _, ...rest } = state.trips;
+      return {
+        trips: trip ? { ...rest, [tripId]: trip } : rest,
+        lastUpdatedMs: clockNow(),
+      };
+    }),
+
+  clearTrip: (tripId) =>
+    set((state) => {
+      const { [tripId]: _, ...rest } = state.trips;
+      return { trips: rest };
+    }),
+
+  setLoading: (isLoading) => set({ isLoading }),
+  setError: (errorMessage) => set({ errorMessage }),
+}));
@@ -0,0 +1,1107 @@
+// Auto-generated – do not edit manually.
+// Source: MTA NYCT static GTFS (https://rrgtfsfeeds.s3.amazonaws.com/gtfs_subway.zip)
+// Regenerate with: node scripts/generateSchedule.mjs
+/* eslint-disable @typescript-eslint/no-require-imports */
+
+/** One service calendar (calendar.txt plus its calendar_dates.txt exceptions). */
+export type ScheduleService = {
+  /** Days the service runs, bit 0 = Monday … bit 6 = Sunday */
+  days: number;
+  /** First and last day of service, YYYYMMDD */
+  start: number;
+  end: number;
+  /** Extra days of service, YYYYMMDD */
+  added: number[];
+  /** Days without service, YYYYMMDD */
+  removed: number[];
+};
+
+/**
+ * One scheduled run: `[service, pattern, profile, firstTime]`.
+ * `firstTime` is seconds after midnight of the service day (past 86400
+ * for trips that run over midnight).
+ */
+export type ScheduledRun = [service: number, pattern: number, profile: number, firstTime: number];
+
+/** One route's runs, from `scheduleData/<route>.json`. */
+export type RouteSchedule = {
+  /** Distinct stop sequences, as indices into `subwaySchedule.stops` */
+  patterns: number[][];
+  /** Distinct running times: seconds from each stop of a pattern to the next */
+  profiles: number[][];
+  /** Real-time trip key (e.g. "000650_1..N") → scheduled runs sharing it */
+  trips: Record<string, ScheduledRun[]>;
+};
+
+export type SubwaySchedule = {
+  /** feed_info version of the source GTFS, or null before the first build */
+  version: string | null;
+  services: ScheduleService[];
+  /** GTFS stop IDs, referenced by index from the route patterns */
+  stops: string[];
+  /** Route in a trip key → the routes whose runs use it (W runs are keyed "N") */
+  keyRoutes: Record<string, string[]>;
+  /** Route → its runs, parsed the first time they're needed */
+  routes: Record<string, () => RouteSchedule>;
+};
+
+export const subwaySchedule: SubwaySchedule = {
+  version: '20260826-X-long-term-supplement-trip-ids',
+  services: [
+    { days: 64, start: 20260526, end: 20261031, added: [20260907], removed: [] },
+    { days: 64, start: 20260526, end: 20260907, added: [20260907], removed: [] },
+    { days: 64, start: 20260908, end: 20261031, added: [], removed: [] },
+    { days: 32, start: 20260526, end: 20261031, added: [20260703], removed: [] },
+    { days: 32, start: 20260526, end: 20260907, added: [20260703], removed: [] },
+    { days: 32, start: 20260908, end: 20261031, added: [], removed: [] },
+    { days: 31, start: 20260526, end: 20261031, added: [], removed: [20260703, 20260907] },
+  ],
+  stops: [
+    '101S',
+    '103S',
+    '104S',
+    '106S',
+    '107S',
+    '108S',
+    '109S',
+    '110S',
+    '111S',
+    '112S',
+    '113S',
+    '114S',
+    '115S',
+    '116S',
+    '117S',
+    '118S',
+    '119S',
+    '120S',
+    '121S',
+    '122S',
+    '123S',
+    '124S',
+    '125S',
+    '126S',
+    '127S',
+    '128S',
+    '129S',
+    '130S',
+    '131S',
+    '132S',
+    '133S',
+    '134S',
+    '135S',
+    '136S',
+    '137S',
+    '138S',
+    '139S',
+    '142S',
+    '142N',
+    '139N',
+    '138N',
+    '137N',
+    '136N',
+    '135N',
+    '134N',
+    '133N',
+    '132N',
+    '131N',
+    '130N',
+    '129N',
+    '128N',
+    '127N',
+    '126N',
+    '125N',
+    '124N',
+    '123N',
+    '122N',
+    '121N',
+    '120N',
+    '119N',
+    '118N',
+    '117N',
+    '116N',
+    '115N',
+    '114N',
+    '113N',
+    '112N',
+    '111N',
+    '110N',
+    '109N',
+    '108N',
+    '107N',
+    '106N',
+    '104N',
+    '103N',
+    '101N',
+    '201S',
+    '204S',
+    '205S',
+    '206S',
+    '207S',
+    '208S',
+    '209S',
+    '210S',
+    '211S',
+    '212S',
+    '213S',
+    '214S',
+    '215S',
+    '216S',
+    '217S',
+    '218S',
+    '219S',
+    '220S',
+    '221S',
+    '222S',
+    '224S',
+    '225S',
+    '226S',
+    '227S',
+    '228S',
+    '229S',
+    '230S',
+    '231S',
+    '232S',
+    '233S',
+    '234S',
+    '235S',
+    '236S',
+    '237S',
+    '238S',
+    '239S',
+    '241S',
+    '242S',
+    '243S',
+    '244S',
+    '245S',
+    '246S',
+    '247S',
+    '247N',
+    '246N',
+    '245N',
+    '244N',
+    '243N',
+    '242N',
+    '241N',
+    '239N',
+    '238N',
+    '237N',
+    '236N',
+    '235N',
+    '234N',
+    '233N',
+    '232N',
+    '231N',
+    '230N',
+    '229N',
+    '228N',
+    '227N',
+    '226N',
+    '225N',
+    '224N',
+    '222N',
+    '221N',
+    '220N',
+    '219N',
+    '218N',
+    '217N',
+    '216N',
+    '215N',
+    '214N',
+    '213N',
+    '212N',
+    '211N',
+    '210N',
+    '209N',
+    '208N',
+    '207N',
+    '206N',
+    '205N',
+    '204N',
+    '201N',
+    '257N',
+    '256N',
+    '255N',
+    '254N',
+    '253N',
+    '252N',
+    '251N',
+    '250N',
+    '249N',
+    '248N',
+    '248S',
+    '249S',
+    '250S',
+    '251S',
+    '252S',
+    '253S',
+    '254S',
+    '255S',
+    '256S',
+    '257S',
+    '301S',
+    '302S',
+    '302N',
+    '301N',
+    '401S',
+    '402S',
+    '405S',
+    '406S',
+    '407S',
+    '408S',
+    '409S',
+    '410S',
+    '411S',
+    '412S',
+    '413S',
+    '414S',
+    '415S',
+    '416S',
+    '621S',
+    '626S',
+    '629S',
+    '631S',
+    '635S',
+    '640S',
+    '418S',
+    '419S',
+    '420S',
+    '423S',
+    '622S',
+    '623S',
+    '624S',
+    '625S',
+    '627S',
+    '628S',
+    '630S',
+    '632S',
+    '633S',
+    '634S',
+    '636S',
+    '637S',
+    '638S',
+    '639S',
+    '423N',
+    '420N',
+    '419N',
+    '418N',
+    '640N',
+    '639N',
+    '638N',
+    '637N',
+    '636N',
+    '635N',
+    '634N',
+    '633N',
+    '632N',
+    '631N',
+    '630N',
+    '629N',
+    '628N',
+    '627N',
+    '626N',
+    '625N',
+    '624N',
+    '623N',
+    '622N',
+    '621N',
+    '416N',
+    '415N',
+    '414N',
+    '413N',
+    '412N',
+    '411N',
+    '410N',
+    '409N',
+    '408N',
+    '407N',
+    '406N',
+    '405N',
+    '402N',
+    '401N',
+    '501S',
+    '502S',
+    '503S',
+    '504S',
+    '505S',
+    '505N',
+    '504N',
+    '503N',
+    '502N',
+    '501N',
+    '601S',
+    '602S',
+    '603S',
+    '604S',
+    '606S',
+    '607S',
+    '608S',
+    '609S',
+    '610S',
+    '611S',
+    '612S',
+    '613S',
+    '614S',
+    '615S',
+    '616S',
+    '617S',
+    '618S',
+    '619S',
+    '619N',
+    '618N',
+    '617N',
+    '616N',
+    '615N',
+    '614N',
+    '613N',
+    '612N',
+    '611N',
+    '610N',
+    '609N',
+    '608N',
+    '607N',
+    '606N',
+    '604N',
+    '603N',
+    '602N',
+    '601N',
+    '901N',
+    '902N',
+    '902S',
+    '901S',
+    'A02S',
+    'A03S',
+    'A05S',
+    'A06S',
+    'A07S',
+    'A09S',
+    'A10S',
+    'A11S',
+    'A12S',
+    'A14S',
+    'A15S',
+    'A16S',
+    'A17S',
+    'A18S',
+    'A19S',
+    'A20S',
+    'A21S',
+    'A22S',
+    'A24S',
+    'A25S',
+    'A27S',
+    'A28S',
+    'A30S',
+    'A31S',
+    'A32S',
+    'A33S',
+    'A34S',
+    'A36S',
+    'A38S',
+    'A40S',
+    'A41S',
+    'A42S',
+    'A43S',
+    'A44S',
+    'A45S',
+    'A46S',
+    'A47S',
+    'A48S',
+    'A49S',
+    'A50S',
+    'A51S',
+    'A52S',
+    'A53S',
+    'A54S',
+    'A55S',
+    'A57S',
+    'A59S',
+    'A60S',
+    'A61S',
+    'H02S',
+    'H03S',
+    'H04S',
+    'H06S',
+    'H07S',
+    'H08S',
+    'H09S',
+    'H10S',
+    'H11S',
+    'A65N',
+    'A64N',
+    'A63N',
+    'A61N',
+    'A60N',
+    'A59N',
+    'A57N',
+    'A55N',
+    'A63S',
+    'A64S',
+    'A65S',
+    'H11N',
+    'H10N',
+    'H09N',
+    'H08N',
+    'H07N',
+    'H06N',
+    'H04N',
+    'H03N',
+    'H02N',
+    'H01N',
+    'A54N',
+    'A53N',
+    'A52N',
+    'A51N',
+    'A50N',
+    'A49N',
+    'A48N',
+    'A47N',
+    'A46N',
+    'A45N',
+    'A44N',
+    'A43N',
+    'A42N',
+    'A41N',
+    'A40N',
+    'A38N',
+    'A36N',
+    'A34N',
+    'A33N',
+    'A32N',
+    'A31N',
+    'A30N',
+    'A28N',
+    'A27N',
+    'A25N',
+    'A24N',
+    'A22N',
+    'A21N',
+    'A20N',
+    'A19N',
+    'A18N',
+    'A17N',
+    'A16N',
+    'A15N',
+    'A14N',
+    'A12N',
+    'A11N',
+    'A10N',
+    'A09N',
+    'A07N',
+    'A06N',
+    'A05N',
+    'A03N',
+    'A02N',
+    'H15N',
+    'H14N',
+    'H13N',
+    'H12N',
+    'H12S',
+    'H13S',
+    'H14S',
+    'H15S',
+    'D03S',
+    'D04S',
+    'D05S',
+    'D06S',
+    'D07S',
+    'D08S',
+    'D09S',
+    'D10S',
+    'D11S',
+    'D12S',
+    'D13S',
+    'D14S',
+    'D15S',
+    'D16S',
+    'D17S',
+    'D20S',
+    'D21S',
+    'D22S',
+    'R30S',
+    'D24S',
+    'D25S',
+    'D26S',
+    'D28S',
+    'D31S',
+    'D35S',
+    'D39S',
+    'D40S',
+    'D40N',
+    'D39N',
+    'D35N',
+    'D31N',
+    'D28N',
+    'D26N',
+    'D25N',
+    'D24N',
+    'R30N',
+    'D22N',
+    'D21N',
+    'D20N',
+    'D17N',
+    'D16N',
+    'D15N',
+    'D14N',
+    'D13N',
+    'D12N',
+    'D11N',
+    'D10N',
+    'D09N',
+    'D08N',
+    'D07N',
+    'D06N',
+    'D05N',
+    'D04N',
+    'D03N',
+    'D01S',
+    'R31S',
+    'R32S',
+    'R33S',
+    'R34S',
+    'R35S',
+    'R36S',
+    'B12S',
+    'B13S',
+    'B14S',
+    'B15S',
+    'B16S',
+    'B17S',
+    'B18S',
+    'B19S',
+    'B20S',
+    'B21S',
+    'B22S',
+    'B23S',
+    'D43S',
+    'D43N',
+    'B23N',
+    'B22N',
+    'B21N',
+    'B20N',
+    'B19N',
+    'B18N',
+    'B17N',
+    'B16N',
+    'B15N',
+    'B14N',
+    'B13N',
+    'B12N',
+    'R36N',
+    'R35N',
+    'R34N',
+    'R33N',
+    'R32N',
+    'R31N',
+    'D01N',
+    'G05S',
+    'G06S',
+    'G07S',
+    'F05S',
+    'F06S',
+    'F07S',
+    'G08S',
+    'G09S',
+    'G10S',
+    'G11S',
+    'G12S',
+    'G13S',
+    'G14S',
+    'G15S',
+    'G16S',
+    'G18S',
+    'G19S',
+    'G20S',
+    'G21S',
+    'F09S',
+    'F11S',
+    'F12S',
+    'E01S',
+    'E01N',
+    'F12N',
+    'F11N',
+    'F09N',
+    'G21N',
+    'G20N',
+    'G19N',
+    'G18N',
+    'G16N',
+    'G15N',
+    'G14N',
+    'G13N',
+    'G12N',
+    'G11N',
+    'G10N',
+    'G09N',
+    'G08N',
+    'F07N',
+    'F06N',
+    'F05N',
+    'G07N',
+    'G06N',
+    'G05N',
+    'F01S',
+    'F03S',
+    'F03N',
+    'F01N',
+    'F04N',
+    'F02N',
+    'F02S',
+    'F04S',
+    'B04S',
+    'B06S',
+    'B08S',
+    'B10S',
+    'D18S',
+    'D19S',
+    'F14S',
+    'F15S',
+    'F16S',
+    'F18S',
+    'F20S',
+    'F21S',
+    'F22S',
+    'F23S',
+    'F24S',
+    'F25S',
+    'F26S',
+    'F27S',
+    'F29S',
+    'F30S',
+    'F31S',
+    'F32S',
+    'F33S',
+    'F34S',
+    'F35S',
+    'F36S',
+    'F38S',
+    'F39S',
+    'D42S',
+    'D42N',
+    'F39N',
+    'F38N',
+    'F36N',
+    'F35N',
+    'F34N',
+    'F33N',
+    'F32N',
+    'F31N',
+    'F30N',
+    'F29N',
+    'F27N',
+    'F26N',
+    'F25N',
+    'F24N',
+    'F23N',
+    'F22N',
+    'F21N',
+    'F20N',
+    'F18N',
+    'F16N',
+    'F15N',
+    'F14N',
+    'D19N',
+    'D18N',
+    'B10N',
+    'B08N',
+    'B06N',
+    'B04N',
+    'S01S',
+    'S03S',
+    'S04S',
+    'S04N',
+    'S03N',
+    'S01N',
+    'G22S',
+    'G24S',
+    'G26S',
+    'G28S',
+    'G29S',
+    'G30S',
+    'G31S',
+    'G32S',
+    'G33S',
+    'G34S',
+    'G35S',
+    'G36S',
+    'G36N',
+    'G35N',
+    'G34N',
+    'G33N',
+    'G32N',
+    'G31N',
+    'G30N',
+    'G29N',
+    'G28N',
+    'G26N',
+    'G24N',
+    'G22N',
+    'L29N',
+    'L28N',
+    'L27N',
+    'L26N',
+    'L25N',
+    'L24N',
+    'L22N',
+    'L21N',
+    'L20N',
+    'L19N',
+    'L17N',
+    'L16N',
+    'L15N',
+    'L14N',
+    'L13N',
+    'L12N',
+    'L11N',
+    'L10N',
+    'L08N',
+    'L06N',
+    'L05N',
+    'L03N',
+    'L02N',
+    'L01N',
+    'L01S',
+    'L02S',
+    'L03S',
+    'L05S',
+    'L06S',
+    'L08S',
+    'L10S',
+    'L11S',
+    'L12S',
+    'L13S',
+    'L14S',
+    'L15S',
+    'L16S',
+    'L17S',
+    'L19S',
+    'L20S',
+    'L21S',
+    'L22S',
+    'L24S',
+    'L25S',
+    'L26S',
+    'L27S',
+    'L28S',
+    'L29S',
+    'M11S',
+    'M10S',
+    'M09S',
+    'M08S',
+    'M06S',
+    'M05S',
+    'M04S',
+    'M01S',
+    'M01N',
+    'M04N',
+    'M05N',
+    'M06N',
+    'M08N',
+    'M09N',
+    'M10N',
+    'M11N',
+    'M12N',
+    'M13N',
+    'M14N',
+    'M16N',
+    'M18N',
+    'M18S',
+    'M16S',
+    'M14S',
+    'M13S',
+    'M12S',
+    'R01S',
+    'R03S',
+    'R04S',
+    'R05S',
+    'R06S',
+    'R08S',
+    'R09S',
+    'R11S',
+    'R13S',
+    'R14S',
+    'R15S',
+    'R16S',
+    'R17S',
+    'R18S',
+    'R19S',
+    'R20S',
+    'R21S',
+    'R22S',
+    'R23S',
+    'R24S',
+    'R25S',
+    'R26S',
+    'R27S',
+    'R28S',
+    'R29S',
+    'R39S',
+    'R40S',
+    'R41S',
+    'N02S',
+    'N03S',
+    'N04S',
+    'N05S',
+    'N06S',
+    'N07S',
+    'N08S',
+    'N09S',
+    'N10S',
+    'N10N',
+    'N09N',
+    'N08N',
+    'N07N',
+    'N06N',
+    'N05N',
+    'N04N',
+    'N03N',
+    'N02N',
+    'R41N',
+    'R40N',
+    'R39N',
+    'R29N',
+    'R28N',
+    'R27N',
+    'R26N',
+    'R25N',
+    'R24N',
+    'R23N',
+    'R22N',
+    'R21N',
+    'R20N',
+    'R19N',
+    'R18N',
+    'R17N',
+    'R16N',
+    'R15N',
+    'R14N',
+    'R13N',
+    'R11N',
+    'R09N',
+    'R08N',
+    'R06N',
+    'R05N',
+    'R04N',
+    'R03N',
+    'R01N',
+    'Q01N',
+    'Q01S',
+    'Q03N',
+    'Q04N',
+    'Q05N',
+    'Q05S',
+    'Q04S',
+    'Q03S',
+    'D27S',
+    'D29S',
+    'D30S',
+    'D32S',
+    'D33S',
+    'D34S',
+    'D37S',
+    'D38S',
+    'D41S',
+    'D41N',
+    'D38N',
+    'D37N',
+    'D34N',
+    'D33N',
+    'D32N',
+    'D30N',
+    'D29N',
+    'D27N',
+    'R42S',
+    'R43S',
+    'R44S',
+    'R45S',
+    'R45N',
+    'R44N',
+    'R43N',
+    'R42N',
+    '701S',
+    '702S',
+    '705S',
+    '706S',
+    '707S',
+    '708S',
+    '709S',
+    '710S',
+    '711S',
+    '712S',
+    '713S',
+    '714S',
+    '715S',
+    '716S',
+    '718S',
+    '719S',
+    '720S',
+    '721S',
+    '723S',
+    '724S',
+    '725S',
+    '726S',
+    '726N',
+    '725N',
+    '724N',
+    '723N',
+    '721N',
+    '720N',
+    '719N',
+    '718N',
+    '716N',
+    '715N',
+    '714N',
+    '712N',
+    '710N',
+    '709N',
+    '708N',
+    '707N',
+    '706N',
+    '705N',
+    '702N',
+    '701N',
+    'J12S',
+    'J13S',
+    'J14S',
+    'J15S',
+    'J16S',
+    'J17S',
+    'J19S',
+    'J20S',
+    'J21S',
+    'J22S',
+    'J23S',
+    'J24S',
+    'J27S',
+    'J28S',
+    'J29S',
+    'J30S',
+    'J31S',
+    'M19S',
+    'M20S',
+    'M21S',
+    'M22S',
+    'M23S',
+    'M23N',
+    'M22N',
+    'M21N',
+    'M20N',
+    'M19N',
+    'J31N',
+    'J30N',
+    'J29N',
+    'J28N',
+    'J27N',
+    'J24N',
+    'J23N',
+    'J22N',
+    'J21N',
+    'J20N',
+    'J19N',
+    'J17N',
+    'J16N',
+    'J15N',
+    'J14N',
+    'J13N',
+    'J12N',
+    'S31S',
+    'S30S',
+    'S29S',
+    'S28S',
+    'S27S',
+    'S26S',
+    'S25S',
+    'S24S',
+    'S23S',
+    'S22S',
+    'S21S',
+    'S20S',
+    'S19S',
+    'S18S',
+    'S17S',
+    'S16S',
+    'S15S',
+    'S14S',
+    'S13S',
+    'S11S',
+    'S09S',
+    'S09N',
+    'S11N',
+    'S13N',
+    'S14N',
+    'S15N',
+    'S16N',
+    'S17N',
+    'S18N',
+    'S19N',
+    'S20N',
+    'S21N',
+    'S22N',
+    'S23N',
+    'S24N',
+    'S25N',
+    'S26N',
+    'S27N',
+    'S28N',
+    'S29N',
+    'S30N',
+    'S31N',
+  ],
+  keyRoutes: {
+    '1': ['1'],
+    '2': ['2'],
+    '3': ['3'],
+    '4': ['4'],
+    '5': ['5'],
+    '6': ['6', '6X'],
+    '7': ['7', '7X'],
+    A: ['A'],
+    B: ['B'],
+    C: ['C'],
+    D: ['D'],
+    E: ['E'],
+    F: ['F', 'FX'],
+    FS: ['FS'],
+    G: ['G'],
+    GS: ['GS'],
+    H: ['H'],
+    J: ['J', 'Z'],
+    L: ['L'],
+    M: ['M'],
+    N: ['N', 'W'],
+    Q: ['Q'],
+    R: ['R'],
+    SI: ['SI'],
+  },
+  routes: {
+    '1': () => require('./scheduleData/1.json'),
+    '2': () => require('./scheduleData/2.json'),
+    '3': () => require('./scheduleData/3.json'),
+    '4': () => require('./scheduleData/4.json'),
+    '5': () => require('./scheduleData/5.json'),
+    '6': () => require('./scheduleData/6.json'),
+    '6X': () => require('./scheduleData/6X.json'),
+    '7': () => require('./scheduleData/7.json'),
+    '7X': () => require('./scheduleData/7X.json'),
+    A: () => require('./scheduleData/A.json'),
+    B: () => require('./scheduleData/B.json'),
+    C: () => require('./scheduleData/C.json'),
+    D: () => require('./scheduleData/D.json'),
+    E: () => require('./scheduleData/E.json'),
+    F: () => require('./scheduleData/F.json'),
+    FS: () => require('./scheduleData/FS.json'),
+    FX: () => require('./scheduleData/FX.json'),
+    G: () => require('./scheduleData/G.json'),
+    GS: () => require('./scheduleData/GS.json'),
+    H: () => require('./scheduleData/H.json'),
+    J: () => require('./scheduleData/J.json'),
+    L: () => require('./scheduleData/L.json'),
+    M: () => require('./scheduleData/M.json'),
+    N: () => require('./scheduleData/N.json'),
+    Q: () => require('./scheduleData/Q.json'),
+    R: () => require('./scheduleData/R.json'),
+    SI: () => require('./scheduleData/SI.json'),
+    W: () => require('./scheduleData/W.json'),
+    Z: () => require('./scheduleData/Z.json'),
+  },
+};
@@ -9,6 +9,12 @@ export type SubwayStation = {
   routes: string[];
   borough: string;
   ada: boolean;
+  /** MTA complex ID, shared by every platform of a station complex (e.g. Times Sq-42 St) */
+  complexId: string;
+  /** Official name for northbound service here, e.g. "Manhattan" (absent at terminals) */
+  northLabel?: string;
+  /** Official name for southbound service here, e.g. "Coney Island" (absent at terminals) */
+  southLabel?: string;
 };
 
 export const subwayStations: SubwayStation[] = [
@@ -20,6 +26,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1', '2', '3'],
     borough: 'M',
     ada: true,
+    complexId: '611',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'S17',
@@ -29,6 +38,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '515',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: 'S01',
@@ -38,6 +50,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['S'],
     borough: 'Bk',
     ada: true,
+    complexId: '627',
+    southLabel: 'Prospect Park',
   },
   {
     id: '254',
@@ -47,6 +61,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['3'],
     borough: 'Bk',
     ada: false,
+    complexId: '349',
+    northLabel: 'Manhattan',
+    southLabel: 'New Lots',
   },
   {
     id: 'M01',
@@ -56,6 +73,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M'],
     borough: 'Q',
     ada: true,
+    complexId: '108',
+    northLabel: 'Manhattan',
   },
   {
     id: '726',
@@ -65,6 +84,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'M',
     ada: true,
+    complexId: '471',
+    northLabel: 'Queens',
   },
   {
     id: '713',
@@ -74,6 +95,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: false,
+    complexId: '457',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: '615',
@@ -83,6 +107,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: true,
+    complexId: '373',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'M11',
@@ -92,6 +119,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'J', 'Z'],
     borough: 'Bk',
     ada: false,
+    complexId: '97',
+    northLabel: 'Jamaica - Middle Village',
+    southLabel: 'Manhattan',
   },
   {
     id: 'F16',
@@ -101,6 +131,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'M',
     ada: false,
+    complexId: '234',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Brooklyn',
   },
   {
     id: 'F33',
@@ -110,6 +143,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Bk',
     ada: false,
+    complexId: '248',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '233',
@@ -119,6 +155,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3'],
     borough: 'Bk',
     ada: false,
+    complexId: '336',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush - New Lots',
   },
   {
     id: 'M05',
@@ -128,6 +167,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M'],
     borough: 'Q',
     ada: false,
+    complexId: '110',
+    northLabel: 'Manhattan',
+    southLabel: 'Metropolitan Av',
   },
   {
     id: 'S30',
@@ -137,6 +179,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '502',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: 'R43',
@@ -146,6 +191,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R'],
     borough: 'Bk',
     ada: false,
+    complexId: '37',
+    northLabel: 'Manhattan',
+    southLabel: '95 St',
   },
   {
     id: 'A36',
@@ -155,6 +203,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C'],
     borough: 'M',
     ada: false,
+    complexId: '624',
+    northLabel: 'Uptown',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '604',
@@ -164,6 +215,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: true,
+    complexId: '363',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D09',
@@ -173,6 +227,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D'],
     borough: 'Bx',
     ada: false,
+    complexId: '217',
+    northLabel: 'Bedford Pk Blvd & 205 St',
+    southLabel: 'Manhattan',
   },
   {
     id: '629',
@@ -182,6 +239,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4', '5', '6'],
     borough: 'M',
     ada: false,
+    complexId: '613',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '219',
@@ -191,6 +251,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '432',
+    northLabel: 'Wakefield - Eastchester',
+    southLabel: 'Manhattan',
   },
   {
     id: 'F39',
@@ -200,6 +263,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Bk',
     ada: false,
+    complexId: '253',
+    northLabel: 'Manhattan',
+    southLabel: 'Stillwell Av',
   },
   {
     id: 'N09',
@@ -209,6 +275,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N'],
     borough: 'Bk',
     ada: false,
+    complexId: '78',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '610',
@@ -218,6 +287,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: false,
+    complexId: '368',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'F32',
@@ -227,6 +299,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Bk',
     ada: false,
+    complexId: '247',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'R13',
@@ -236,6 +311,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'R', 'W'],
     borough: 'M',
     ada: false,
+    complexId: '8',
+    northLabel: 'Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'B22',
@@ -245,6 +323,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D'],
     borough: 'Bk',
     ada: false,
+    complexId: '69',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '622',
@@ -254,6 +335,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: false,
+    complexId: '393',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'H14',
@@ -263,6 +347,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'S'],
     borough: 'Q',
     ada: false,
+    complexId: '202',
+    northLabel: 'Manhattan',
+    southLabel: 'Rockaway Park',
   },
   {
     id: 'F05',
@@ -272,6 +359,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E', 'F'],
     borough: 'Q',
     ada: false,
+    complexId: '258',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'R19',
@@ -281,6 +371,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R', 'W'],
     borough: 'M',
     ada: false,
+    complexId: '14',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'R18',
@@ -290,6 +383,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R', 'W'],
     borough: 'M',
     ada: false,
+    complexId: '13',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '114',
@@ -299,6 +395,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '304',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'A03',
@@ -308,6 +407,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'M',
     ada: false,
+    complexId: '144',
+    northLabel: '207 St',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'M16',
@@ -317,6 +419,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'J', 'Z'],
     borough: 'Bk',
     ada: true,
+    complexId: '101',
+    northLabel: 'Jamaica - Middle Village',
+    southLabel: 'Manhattan',
   },
   {
     id: '720',
@@ -326,6 +431,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: false,
+    complexId: '463',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A16',
@@ -335,6 +443,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C', 'B'],
     borough: 'M',
     ada: false,
+    complexId: '154',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'A41',
@@ -344,6 +455,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C', 'F'],
     borough: 'Bk',
     ada: true,
+    complexId: '636',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid - Lefferts - Rockaways - Coney Island',
   },
   {
     id: 'R39',
@@ -353,6 +467,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R'],
     borough: 'Bk',
     ada: false,
+    complexId: '33',
+    northLabel: 'Manhattan',
+    southLabel: 'Bay Ridge - 95 St',
   },
   {
     id: 'A52',
@@ -362,6 +479,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C'],
     borough: 'Bk',
     ada: false,
+    complexId: '185',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid Av',
   },
   {
     id: 'G34',
@@ -371,6 +491,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['G'],
     borough: 'Bk',
     ada: false,
+    complexId: '290',
+    northLabel: 'Queens',
+    southLabel: 'Church Av',
   },
   {
     id: 'D30',
@@ -380,6 +503,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['Q'],
     borough: 'Bk',
     ada: false,
+    complexId: '46',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: 'G20',
@@ -389,6 +515,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'R'],
     borough: 'Q',
     ada: false,
+    complexId: '272',
+    northLabel: 'Forest Hills',
+    southLabel: 'Manhattan',
   },
   {
     id: '418',
@@ -398,6 +527,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4', '5'],
     borough: 'M',
     ada: true,
+    complexId: '628',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '212',
@@ -407,6 +539,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '425',
+    northLabel: 'Wakefield - 241 St',
+    southLabel: 'Manhattan',
   },
   {
     id: '503',
@@ -416,6 +551,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['5'],
     borough: 'Bx',
     ada: true,
+    complexId: '444',
+    northLabel: 'Eastchester - Dyre Av',
+    southLabel: 'Manhattan',
   },
   {
     id: 'B18',
@@ -425,6 +563,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D'],
     borough: 'Bk',
     ada: false,
+    complexId: '65',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'G29',
@@ -434,6 +575,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['G'],
     borough: 'Bk',
     ada: true,
+    complexId: '629',
+    northLabel: 'Queens',
+    southLabel: 'Church Av',
   },
   {
     id: 'G21',
@@ -443,6 +587,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E', 'F', 'R'],
     borough: 'Q',
     ada: true,
+    complexId: '273',
+    northLabel: 'Forest Hills - Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: '406',
@@ -452,6 +599,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4'],
     borough: 'Bx',
     ada: false,
+    complexId: '381',
+    northLabel: 'Woodlawn',
+    southLabel: 'Manhattan',
   },
   {
     id: 'R23',
@@ -461,6 +611,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R', 'W'],
     borough: 'M',
     ada: false,
+    complexId: '623',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '110',
@@ -470,6 +623,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '300',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'G09',
@@ -479,6 +635,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'R'],
     borough: 'Q',
     ada: false,
+    complexId: '262',
+    northLabel: 'Forest Hills',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A51',
@@ -488,6 +647,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C'],
     borough: 'Bk',
     ada: false,
+    complexId: '621',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid - Lefferts - Rockaways',
   },
   {
     id: 'R01',
@@ -497,6 +659,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'W'],
     borough: 'Q',
     ada: false,
+    complexId: '1',
+    southLabel: 'Manhattan',
   },
   {
     id: '246',
@@ -506,6 +670,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bk',
     ada: false,
+    complexId: '358',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush',
   },
   {
     id: 'L15',
@@ -515,6 +682,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: false,
+    complexId: '126',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: '725',
@@ -524,6 +694,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'M',
     ada: true,
+    complexId: '611',
+    northLabel: 'Queens',
+    southLabel: '34 St - Hudson Yards',
   },
   {
     id: 'S25',
@@ -533,6 +706,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: true,
+    complexId: '507',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: 'H01',
@@ -542,6 +718,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: true,
+    complexId: '196',
+    northLabel: 'Manhattan',
+    southLabel: 'Rockaways',
   },
   {
     id: 'J22',
@@ -551,6 +730,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J'],
     borough: 'Bk',
     ada: false,
+    complexId: '89',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A20',
@@ -560,6 +742,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C', 'B'],
     borough: 'M',
     ada: false,
+    complexId: '158',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'A57',
@@ -569,6 +754,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Bk',
     ada: false,
+    complexId: '189',
+    northLabel: 'Manhattan',
+    southLabel: 'Lefferts - Rockaways',
   },
   {
     id: 'G15',
@@ -578,6 +766,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'R'],
     borough: 'Q',
     ada: false,
+    complexId: '268',
+    northLabel: 'Forest Hills',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D34',
@@ -587,6 +778,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['Q'],
     borough: 'Bk',
     ada: false,
+    complexId: '50',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: '103',
@@ -596,6 +790,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'Bx',
     ada: false,
+    complexId: '294',
+    northLabel: '242 St',
+    southLabel: 'Manhattan',
   },
   {
     id: '238',
@@ -605,6 +802,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3'],
     borough: 'Bk',
     ada: true,
+    complexId: '341',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush - New Lots',
   },
   {
     id: '637',
@@ -614,6 +814,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: true,
+    complexId: '619',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'D29',
@@ -623,6 +826,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['Q'],
     borough: 'Bk',
     ada: false,
+    complexId: '45',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: '705',
@@ -632,6 +838,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: false,
+    complexId: '449',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A15',
@@ -641,6 +850,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C', 'B', 'D'],
     borough: 'M',
     ada: true,
+    complexId: '153',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'D18',
@@ -650,6 +862,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F', 'M'],
     borough: 'M',
     ada: false,
+    complexId: '228',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '419',
@@ -659,6 +874,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4', '5'],
     borough: 'M',
     ada: false,
+    complexId: '413',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'N08',
@@ -668,6 +886,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N'],
     borough: 'Bk',
     ada: false,
+    complexId: '77',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '115',
@@ -677,6 +898,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '305',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: '226',
@@ -686,6 +910,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3'],
     borough: 'M',
     ada: false,
+    complexId: '440',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '136',
@@ -695,6 +922,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '326',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: '410',
@@ -704,6 +934,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4'],
     borough: 'Bx',
     ada: false,
+    complexId: '385',
+    northLabel: 'Woodlawn',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D14',
@@ -713,6 +946,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E', 'B', 'D'],
     borough: 'M',
     ada: false,
+    complexId: '277',
+    northLabel: 'Uptown & The Bronx - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'D08',
@@ -722,6 +958,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D'],
     borough: 'Bx',
     ada: false,
+    complexId: '216',
+    northLabel: 'Bedford Pk Blvd & 205 St',
+    southLabel: 'Manhattan',
   },
   {
     id: 'M20',
@@ -731,6 +970,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'M',
     ada: false,
+    complexId: '623',
+    northLabel: 'Brooklyn',
+    southLabel: 'Broad St',
   },
   {
     id: 'L10',
@@ -740,6 +982,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: true,
+    complexId: '629',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: 'A30',
@@ -749,6 +994,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C', 'E'],
     borough: 'M',
     ada: false,
+    complexId: '165',
+    northLabel: 'Uptown - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'A46',
@@ -758,6 +1006,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C'],
     borough: 'Bk',
     ada: false,
+    complexId: '179',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid - Lefferts - Rockaways',
   },
   {
     id: 'N03',
@@ -767,6 +1018,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N'],
     borough: 'Bk',
     ada: false,
+    complexId: '72',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '504',
@@ -776,6 +1030,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['5'],
     borough: 'Bx',
     ada: false,
+    complexId: '445',
+    northLabel: 'Eastchester - Dyre Av',
+    southLabel: 'Manhattan',
   },
   {
     id: 'R06',
@@ -785,6 +1042,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'W'],
     borough: 'Q',
     ada: false,
+    complexId: '5',
+    northLabel: 'Astoria - Ditmars Blvd',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D03',
@@ -794,6 +1054,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D'],
     borough: 'Bx',
     ada: true,
+    complexId: '211',
+    northLabel: 'Norwood - 205 St',
+    southLabel: 'Manhattan',
   },
   {
     id: '619',
@@ -803,6 +1066,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: false,
+    complexId: '377',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'M10',
@@ -812,6 +1078,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M'],
     borough: 'Bk',
     ada: false,
+    complexId: '114',
+    northLabel: 'Manhattan',
+    southLabel: 'Metropolitan Av',
   },
   {
     id: '242',
@@ -821,6 +1090,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bk',
     ada: false,
+    complexId: '354',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush',
   },
   {
     id: 'F22',
@@ -830,6 +1102,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F', 'G'],
     borough: 'Bk',
     ada: false,
+    complexId: '238',
+    northLabel: 'Manhattan - Queens',
+    southLabel: 'Church Av - Coney Island',
   },
   {
     id: '611',
@@ -839,6 +1114,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: false,
+    complexId: '369',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'Q05',
@@ -848,6 +1126,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['Q'],
     borough: 'M',
     ada: true,
+    complexId: '475',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '229',
@@ -857,6 +1137,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3'],
     borough: 'M',
     ada: true,
+    complexId: '628',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'S29',
@@ -866,6 +1149,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '503',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: 'M04',
@@ -875,6 +1161,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M'],
     borough: 'Q',
     ada: false,
+    complexId: '109',
+    northLabel: 'Manhattan',
+    southLabel: 'Metropolitan Av',
   },
   {
     id: 'A10',
@@ -884,6 +1173,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C'],
     borough: 'M',
     ada: false,
+    complexId: '149',
+    northLabel: 'Uptown',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'R30',
@@ -893,6 +1185,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'Q', 'R'],
     borough: 'Bk',
     ada: true,
+    complexId: '26',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island - Bay Ridge',
   },
   {
     id: '633',
@@ -902,6 +1197,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: false,
+    complexId: '404',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: '119',
@@ -911,6 +1209,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '309',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'B04',
@@ -920,6 +1221,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M'],
     borough: 'Q',
     ada: true,
+    complexId: '221',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: '204',
@@ -929,6 +1233,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '417',
+    northLabel: 'Wakefield - 241 St',
+    southLabel: 'Manhattan',
   },
   {
     id: 'J14',
@@ -938,6 +1245,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'Q',
     ada: false,
+    complexId: '82',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'L24',
@@ -947,6 +1257,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: false,
+    complexId: '133',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: 'R29',
@@ -956,6 +1269,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R'],
     borough: 'Bk',
     ada: true,
+    complexId: '636',
+    northLabel: 'Manhattan',
+    southLabel: 'Bay Ridge - 95 St',
   },
   {
     id: '234',
@@ -965,6 +1281,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3', '4', '5'],
     borough: 'Bk',
     ada: false,
+    complexId: '337',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush - Utica - New Lots',
   },
   {
     id: 'L25',
@@ -974,6 +1293,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: false,
+    complexId: '134',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: 'D24',
@@ -983,6 +1305,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'Q'],
     borough: 'Bk',
     ada: true,
+    complexId: '617',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: '606',
@@ -992,6 +1317,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: false,
+    complexId: '364',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'F27',
@@ -1001,6 +1329,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F', 'G'],
     borough: 'Bk',
     ada: true,
+    complexId: '243',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'D42',
@@ -1010,6 +1341,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F', 'Q'],
     borough: 'Bk',
     ada: false,
+    complexId: '57',
+    northLabel: 'Manhattan',
+    southLabel: 'Stillwell Av',
   },
   {
     id: 'F34',
@@ -1019,6 +1353,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Bk',
     ada: false,
+    complexId: '249',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '414',
@@ -1028,6 +1365,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4'],
     borough: 'Bx',
     ada: true,
+    complexId: '604',
+    northLabel: 'Woodlawn',
+    southLabel: 'Manhattan',
   },
   {
     id: '301',
@@ -1037,6 +1377,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['3'],
     borough: 'M',
     ada: false,
+    complexId: '436',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '132',
@@ -1046,6 +1388,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1', '2', '3'],
     borough: 'M',
     ada: true,
+    complexId: '601',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'H08',
@@ -1055,6 +1400,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: false,
+    complexId: '206',
+    northLabel: 'Manhattan',
+    southLabel: 'Far Rockaway',
   },
   {
     id: '218',
@@ -1064,6 +1412,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '431',
+    northLabel: 'Wakefield - Eastchester',
+    southLabel: 'Manhattan',
   },
   {
     id: '201',
@@ -1073,6 +1424,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2'],
     borough: 'Bx',
     ada: false,
+    complexId: '416',
+    southLabel: 'Manhattan',
   },
   {
     id: 'F15',
@@ -1082,6 +1435,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'M',
     ada: false,
+    complexId: '625',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'J13',
@@ -1091,6 +1447,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J'],
     borough: 'Q',
     ada: false,
+    complexId: '81',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'F01',
@@ -1100,6 +1459,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Q',
     ada: true,
+    complexId: '254',
+    southLabel: 'Manhattan',
   },
   {
     id: '614',
@@ -1109,6 +1470,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: false,
+    complexId: '372',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: '118',
@@ -1118,6 +1482,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '308',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'R14',
@@ -1127,6 +1494,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'Q', 'R', 'W'],
     borough: 'M',
     ada: true,
+    complexId: '9',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '607',
@@ -1136,6 +1506,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: false,
+    complexId: '365',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'B21',
@@ -1145,6 +1518,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D'],
     borough: 'Bk',
     ada: true,
+    complexId: '68',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '623',
@@ -1154,6 +1530,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: false,
+    complexId: '394',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: '230',
@@ -1163,6 +1542,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3'],
     borough: 'M',
     ada: false,
+    complexId: '333',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Brooklyn',
   },
   {
     id: 'H13',
@@ -1172,6 +1554,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'S'],
     borough: 'Q',
     ada: false,
+    complexId: '201',
+    northLabel: 'Manhattan',
+    southLabel: 'Rockaway Park',
   },
   {
     id: 'R15',
@@ -1181,6 +1566,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'R', 'W'],
     borough: 'M',
     ada: false,
+    complexId: '10',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'D12',
@@ -1190,6 +1578,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D'],
     borough: 'M',
     ada: false,
+    complexId: '220',
+    northLabel: 'The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'S16',
@@ -1199,6 +1590,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '516',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: '255',
@@ -1208,6 +1602,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['3'],
     borough: 'Bk',
     ada: false,
+    complexId: '350',
+    northLabel: 'Manhattan',
+    southLabel: 'New Lots',
   },
   {
     id: '714',
@@ -1217,6 +1614,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: false,
+    complexId: '458',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: '213',
@@ -1226,6 +1626,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: true,
+    complexId: '426',
+    northLabel: 'Wakefield - Eastchester',
+    southLabel: 'Manhattan',
   },
   {
     id: '409',
@@ -1235,6 +1638,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4'],
     borough: 'Bx',
     ada: false,
+    complexId: '384',
+    northLabel: 'Woodlawn',
+    southLabel: 'Manhattan',
   },
   {
     id: 'Q04',
@@ -1244,6 +1650,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['Q'],
     borough: 'M',
     ada: true,
+    complexId: '476',
+    northLabel: 'Uptown',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'F12',
@@ -1253,6 +1662,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E', 'F'],
     borough: 'M',
     ada: false,
+    complexId: '276',
+    northLabel: 'Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'G30',
@@ -1262,6 +1674,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['G'],
     borough: 'Bk',
     ada: false,
+    complexId: '286',
+    northLabel: 'Queens',
+    southLabel: 'Church Av',
   },
   {
     id: 'A24',
@@ -1271,6 +1686,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C', 'B', 'D'],
     borough: 'M',
     ada: true,
+    complexId: '614',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'R25',
@@ -1280,6 +1698,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R', 'W'],
     borough: 'M',
     ada: true,
+    complexId: '624',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '208',
@@ -1289,6 +1710,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: true,
+    complexId: '421',
+    northLabel: 'Wakefield - 241 St',
+    southLabel: 'Manhattan',
   },
   {
     id: '128',
@@ -1298,6 +1722,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1', '2', '3'],
     borough: 'M',
     ada: true,
+    complexId: '318',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'D38',
@@ -1307,6 +1734,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['Q'],
     borough: 'Bk',
     ada: false,
+    complexId: '53',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: 'A61',
@@ -1316,6 +1746,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: false,
+    complexId: '192',
+    northLabel: 'Manhattan',
+    southLabel: 'Lefferts - Rockaways',
   },
   {
     id: 'R42',
@@ -1325,6 +1758,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R'],
     borough: 'Bk',
     ada: false,
+    complexId: '36',
+    northLabel: 'Manhattan',
+    southLabel: '95 St',
   },
   {
     id: 'D43',
@@ -1334,6 +1770,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D', 'F', 'N', 'Q'],
     borough: 'Bk',
     ada: true,
+    complexId: '58',
+    northLabel: 'Manhattan',
   },
   {
     id: '628',
@@ -1343,6 +1781,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: true,
+    complexId: '399',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'G16',
@@ -1352,6 +1793,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'R'],
     borough: 'Q',
     ada: true,
+    complexId: '269',
+    northLabel: 'Forest Hills',
+    southLabel: 'Manhattan',
   },
   {
     id: 'L29',
@@ -1361,6 +1805,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: true,
+    complexId: '138',
+    northLabel: 'Manhattan',
   },
   {
     id: 'A31',
@@ -1370,6 +1816,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C', 'E'],
     borough: 'M',
     ada: true,
+    complexId: '618',
+    northLabel: 'Uptown - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'G22',
@@ -1379,6 +1828,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['G'],
     borough: 'Q',
     ada: true,
+    complexId: '606',
+    southLabel: 'Brooklyn',
   },
   {
     id: '237',
@@ -1388,6 +1839,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3'],
     borough: 'Bk',
     ada: false,
+    complexId: '340',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush - New Lots',
   },
   {
     id: 'J31',
@@ -1397,6 +1851,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J'],
     borough: 'Bk',
     ada: false,
+    complexId: '96',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D19',
@@ -1406,6 +1863,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F', 'M'],
     borough: 'M',
     ada: true,
+    complexId: '601',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'M09',
@@ -1415,6 +1875,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M'],
     borough: 'Bk',
     ada: false,
+    complexId: '113',
+    northLabel: 'Manhattan',
+    southLabel: 'Metropolitan Av',
   },
   {
     id: '618',
@@ -1424,6 +1887,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: false,
+    complexId: '376',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'H02',
@@ -1433,6 +1899,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: false,
+    complexId: '197',
+    northLabel: 'Manhattan',
+    southLabel: 'Rockaways',
   },
   {
     id: 'S21',
@@ -1442,6 +1911,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '511',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: '123',
@@ -1451,6 +1923,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1', '2', '3'],
     borough: 'M',
     ada: true,
+    complexId: '313',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'B17',
@@ -1460,6 +1935,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D'],
     borough: 'Bk',
     ada: false,
+    complexId: '64',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '250',
@@ -1469,6 +1947,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['3', '4'],
     borough: 'Bk',
     ada: true,
+    complexId: '345',
+    northLabel: 'Manhattan',
+    southLabel: 'New Lots',
   },
   {
     id: '709',
@@ -1478,6 +1959,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: false,
+    complexId: '453',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: 'J23',
@@ -1487,6 +1971,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'Bk',
     ada: false,
+    complexId: '90',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'L11',
@@ -1496,6 +1983,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: false,
+    complexId: '122',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: 'J17',
@@ -1505,6 +1995,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'Q',
     ada: false,
+    complexId: '85',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: '702',
@@ -1514,6 +2007,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: false,
+    complexId: '448',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: '638',
@@ -1523,6 +2019,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: false,
+    complexId: '409',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'B10',
@@ -1532,6 +2031,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M'],
     borough: 'M',
     ada: false,
+    complexId: '224',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '227',
@@ -1541,6 +2043,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3'],
     borough: 'M',
     ada: false,
+    complexId: '441',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'A19',
@@ -1550,6 +2055,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C', 'B'],
     borough: 'M',
     ada: false,
+    complexId: '157',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'R36',
@@ -1559,6 +2067,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D', 'N', 'R'],
     borough: 'Bk',
     ada: false,
+    complexId: '32',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island - Bay Ridge',
   },
   {
     id: 'F04',
@@ -1568,6 +2079,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Q',
     ada: false,
+    complexId: '257',
+    northLabel: '179 St',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A55',
@@ -1577,6 +2091,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C'],
     borough: 'Bk',
     ada: true,
+    complexId: '188',
+    northLabel: 'Manhattan',
+    southLabel: 'Lefferts - Rockaways',
   },
   {
     id: 'R22',
@@ -1586,6 +2103,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R', 'W'],
     borough: 'M',
     ada: false,
+    complexId: '17',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '111',
@@ -1595,6 +2115,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '301',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'S26',
@@ -1604,6 +2127,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '506',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: 'A34',
@@ -1613,6 +2139,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C', 'E'],
     borough: 'M',
     ada: false,
+    complexId: '169',
+    northLabel: 'Uptown - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'A02',
@@ -1622,6 +2151,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'M',
     ada: true,
+    complexId: '143',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'D33',
@@ -1631,6 +2162,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['Q'],
     borough: 'Bk',
     ada: false,
+    complexId: '49',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: '245',
@@ -1640,6 +2174,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bk',
     ada: false,
+    complexId: '357',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush',
   },
   {
     id: '708',
@@ -1649,6 +2186,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: false,
+    complexId: '452',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: 'M14',
@@ -1658,6 +2198,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'J'],
     borough: 'Bk',
     ada: false,
+    complexId: '100',
+    northLabel: 'Jamaica - Middle Village',
+    southLabel: 'Manhattan',
   },
   {
     id: '405',
@@ -1667,6 +2210,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4'],
     borough: 'Bx',
     ada: false,
+    complexId: '380',
+    northLabel: 'Woodlawn',
+    southLabel: 'Manhattan',
   },
   {
     id: 'L03',
@@ -1676,6 +2222,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'M',
     ada: true,
+    complexId: '602',
+    northLabel: '8 Av',
+    southLabel: 'Brooklyn',
   },
   {
     id: 'L14',
@@ -1685,6 +2234,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: false,
+    complexId: '125',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: 'D15',
@@ -1694,6 +2246,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D', 'F', 'M'],
     borough: 'M',
     ada: true,
+    complexId: '225',
+    northLabel: 'Uptown & The Bronx - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '719',
@@ -1703,6 +2258,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: true,
+    complexId: '606',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: '135',
@@ -1712,6 +2270,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '325',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'A63',
@@ -1721,6 +2282,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: false,
+    complexId: '193',
+    northLabel: 'Manhattan',
+    southLabel: 'Lefferts Blvd',
   },
   {
     id: 'M21',
@@ -1730,6 +2294,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'M',
     ada: true,
+    complexId: '622',
+    northLabel: 'Brooklyn',
+    southLabel: 'Broad St',
   },
   {
     id: 'L05',
@@ -1739,6 +2306,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'M',
     ada: false,
+    complexId: '118',
+    northLabel: '8 Av',
+    southLabel: 'Brooklyn',
   },
   {
     id: 'D04',
@@ -1748,6 +2318,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D'],
     borough: 'Bx',
     ada: true,
+    complexId: '212',
+    northLabel: 'Bedford Pk Blvd & 205 St',
+    southLabel: 'Manhattan',
   },
   {
     id: '249',
@@ -1757,6 +2330,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['3'],
     borough: 'Bk',
     ada: false,
+    complexId: '344',
+    northLabel: 'Manhattan',
+    southLabel: 'New Lots',
   },
   {
     id: 'R26',
@@ -1766,6 +2342,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R', 'W'],
     borough: 'M',
     ada: false,
+    complexId: '22',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'J19',
@@ -1775,6 +2354,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J'],
     borough: 'Bk',
     ada: false,
+    complexId: '86',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A40',
@@ -1784,6 +2366,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C'],
     borough: 'Bk',
     ada: false,
+    complexId: '173',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid - Lefferts - Rockaways',
   },
   {
     id: 'G08',
@@ -1793,6 +2378,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E', 'F', 'M', 'R'],
     borough: 'Q',
     ada: true,
+    complexId: '261',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'L20',
@@ -1802,6 +2390,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: false,
+    complexId: '130',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: 'G33',
@@ -1811,6 +2402,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['G'],
     borough: 'Bk',
     ada: false,
+    complexId: '289',
+    northLabel: 'Queens',
+    southLabel: 'Church Av',
   },
   {
     id: 'S11',
@@ -1820,6 +2414,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: true,
+    complexId: '523',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: 'L26',
@@ -1829,6 +2426,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: true,
+    complexId: '135',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: '131',
@@ -1838,6 +2438,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '321',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'L19',
@@ -1847,6 +2450,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Q',
     ada: false,
+    complexId: '129',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: '724',
@@ -1856,6 +2462,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'M',
     ada: false,
+    complexId: '609',
+    northLabel: 'Queens',
+    southLabel: '34 St - Hudson Yards',
   },
   {
     id: 'F21',
@@ -1865,6 +2474,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F', 'G'],
     borough: 'Bk',
     ada: false,
+    complexId: '237',
+    northLabel: 'Manhattan - Queens',
+    southLabel: 'Church Av - Coney Island',
   },
   {
     id: '241',
@@ -1874,6 +2486,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bk',
     ada: false,
+    complexId: '353',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush',
   },
   {
     id: 'F29',
@@ -1883,6 +2498,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Bk',
     ada: false,
+    complexId: '244',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'F35',
@@ -1892,6 +2510,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Bk',
     ada: false,
+    complexId: '250',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '415',
@@ -1901,6 +2522,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4'],
     borough: 'Bx',
     ada: false,
+    complexId: '603',
+    northLabel: 'Woodlawn',
+    southLabel: 'Manhattan',
   },
   {
     id: 'S22',
@@ -1910,6 +2534,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: true,
+    complexId: '510',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: 'H07',
@@ -1919,6 +2546,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: false,
+    complexId: '205',
+    northLabel: 'Manhattan',
+    southLabel: 'Far Rockaway',
   },
   {
     id: '222',
@@ -1928,6 +2558,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '603',
+    northLabel: 'Wakefield - Eastchester',
+    southLabel: 'Manhattan',
   },
   {
     id: 'R31',
@@ -1937,6 +2570,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D', 'N', 'R'],
     borough: 'Bk',
     ada: true,
+    complexId: '617',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island - Bay Ridge',
   },
   {
     id: '209',
@@ -1946,6 +2582,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '422',
+    northLabel: 'Wakefield - 241 St',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D25',
@@ -1955,6 +2594,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'Q'],
     borough: 'Bk',
     ada: false,
+    complexId: '41',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: 'D39',
@@ -1964,6 +2606,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'Q'],
     borough: 'Bk',
     ada: false,
+    complexId: '54',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: 'B12',
@@ -1973,6 +2618,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D'],
     borough: 'Bk',
     ada: false,
+    complexId: '59',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'A32',
@@ -1982,6 +2630,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C', 'E'],
     borough: 'M',
     ada: true,
+    complexId: '167',
+    northLabel: 'Uptown - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'G07',
@@ -1991,6 +2642,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E'],
     borough: 'Q',
     ada: true,
+    complexId: '280',
+    northLabel: 'Jamaica Center',
+    southLabel: 'Manhattan',
   },
   {
     id: 'G24',
@@ -2000,6 +2654,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['G'],
     borough: 'Q',
     ada: false,
+    complexId: '282',
+    northLabel: 'Court Sq',
+    southLabel: 'Brooklyn',
   },
   {
     id: 'A11',
@@ -2009,6 +2666,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C'],
     borough: 'M',
     ada: false,
+    complexId: '150',
+    northLabel: 'Uptown',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '413',
@@ -2018,6 +2678,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4'],
     borough: 'Bx',
     ada: false,
+    complexId: '388',
+    northLabel: 'Woodlawn',
+    southLabel: 'Manhattan',
   },
   {
     id: '101',
@@ -2027,6 +2690,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'Bx',
     ada: false,
+    complexId: '293',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A25',
@@ -2036,6 +2701,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C', 'E'],
     borough: 'M',
     ada: false,
+    complexId: '162',
+    northLabel: 'Uptown - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '632',
@@ -2045,6 +2713,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: false,
+    complexId: '403',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: '122',
@@ -2054,6 +2725,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '312',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'A47',
@@ -2063,6 +2737,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C'],
     borough: 'Bk',
     ada: false,
+    complexId: '180',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid Av',
   },
   {
     id: '207',
@@ -2072,6 +2749,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '420',
+    northLabel: 'Wakefield - 241 St',
+    southLabel: 'Manhattan',
   },
   {
     id: 'G12',
@@ -2081,6 +2761,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'R'],
     borough: 'Q',
     ada: false,
+    complexId: '265',
+    northLabel: 'Forest Hills',
+    southLabel: 'Manhattan',
   },
   {
     id: 'N04',
@@ -2090,6 +2773,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N'],
     borough: 'Bk',
     ada: true,
+    complexId: '615',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'A12',
@@ -2099,6 +2785,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C'],
     borough: 'M',
     ada: false,
+    complexId: '151',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'R05',
@@ -2108,6 +2797,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'W'],
     borough: 'Q',
     ada: false,
+    complexId: '4',
+    northLabel: 'Astoria - Ditmars Blvd',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A43',
@@ -2117,6 +2809,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C'],
     borough: 'Bk',
     ada: false,
+    complexId: '176',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid Av',
   },
   {
     id: 'D37',
@@ -2126,6 +2821,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['Q'],
     borough: 'Bk',
     ada: false,
+    complexId: '52',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: 'A60',
@@ -2135,6 +2833,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: false,
+    complexId: '191',
+    northLabel: 'Manhattan',
+    southLabel: 'Lefferts - Rockaways',
   },
   {
     id: 'R35',
@@ -2144,6 +2845,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R'],
     borough: 'Bk',
     ada: false,
+    complexId: '31',
+    northLabel: 'Manhattan',
+    southLabel: 'Bay Ridge - 95 St',
   },
   {
     id: 'G18',
@@ -2153,6 +2857,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'R'],
     borough: 'Q',
     ada: false,
+    complexId: '270',
+    northLabel: 'Forest Hills',
+    southLabel: 'Manhattan',
   },
   {
     id: 'G36',
@@ -2162,6 +2869,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['G'],
     borough: 'Bk',
     ada: false,
+    complexId: '292',
+    northLabel: 'Queens',
+    southLabel: 'Church Av',
   },
   {
     id: '639',
@@ -2171,6 +2881,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: true,
+    complexId: '623',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: '423',
@@ -2180,6 +2893,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4', '5'],
     borough: 'Bk',
     ada: true,
+    complexId: '620',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush - Utica',
   },
   {
     id: '117',
@@ -2189,6 +2905,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '307',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: '608',
@@ -2198,6 +2917,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: true,
+    complexId: '366',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: '634',
@@ -2207,6 +2929,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: true,
+    complexId: '405',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'H06',
@@ -2216,6 +2941,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: true,
+    complexId: '204',
+    northLabel: 'Manhattan',
+    southLabel: 'Far Rockaway',
   },
   {
     id: '408',
@@ -2225,6 +2953,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4'],
     borough: 'Bx',
     ada: false,
+    complexId: '383',
+    northLabel: 'Woodlawn',
+    southLabel: 'Manhattan',
   },
   {
     id: 'F11',
@@ -2234,6 +2965,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E', 'F'],
     borough: 'M',
     ada: true,
+    complexId: '612',
+    northLabel: 'Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'D26',
@@ -2243,6 +2977,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'Q', 'S'],
     borough: 'Bk',
     ada: true,
+    complexId: '42',
+    northLabel: 'Manhattan & Franklin Av',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: '129',
@@ -2252,6 +2989,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '319',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'R24',
@@ -2261,6 +3001,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R', 'W'],
     borough: 'M',
     ada: false,
+    complexId: '20',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'F07',
@@ -2270,6 +3013,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E', 'F'],
     borough: 'Q',
     ada: false,
+    complexId: '260',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'N05',
@@ -2279,6 +3025,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N'],
     borough: 'Bk',
     ada: false,
+    complexId: '74',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'R16',
@@ -2288,6 +3037,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'Q', 'R', 'W'],
     borough: 'M',
     ada: true,
+    complexId: '611',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '112',
@@ -2297,6 +3049,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '605',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: '302',
@@ -2306,6 +3061,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['3'],
     borough: 'M',
     ada: false,
+    complexId: '437',
+    northLabel: '148 St',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'A06',
@@ -2315,6 +3073,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'M',
     ada: true,
+    complexId: '146',
+    northLabel: '207 St',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '107',
@@ -2324,6 +3085,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '297',
+    northLabel: 'The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'J30',
@@ -2333,6 +3097,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'Bk',
     ada: false,
+    complexId: '95',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: '715',
@@ -2342,6 +3109,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: false,
+    complexId: '459',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: 'F20',
@@ -2351,6 +3121,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F', 'G'],
     borough: 'Bk',
     ada: false,
+    complexId: '236',
+    northLabel: 'Manhattan - Queens',
+    southLabel: 'Church Av - Coney Island',
   },
   {
     id: 'A48',
@@ -2360,6 +3133,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C'],
     borough: 'Bk',
     ada: true,
+    complexId: '181',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid - Lefferts - Rockaways',
   },
   {
     id: 'Q03',
@@ -2369,6 +3145,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['Q'],
     borough: 'M',
     ada: true,
+    complexId: '477',
+    northLabel: 'Uptown',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '231',
@@ -2378,6 +3157,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3'],
     borough: 'Bk',
     ada: false,
+    complexId: '334',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush - New Lots',
   },
   {
     id: 'A22',
@@ -2387,6 +3169,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C', 'B'],
     borough: 'M',
     ada: false,
+    complexId: '160',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'A54',
@@ -2396,6 +3181,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C'],
     borough: 'Bk',
     ada: false,
+    complexId: '187',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid Av',
   },
   {
     id: 'R41',
@@ -2405,6 +3193,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'R'],
     borough: 'Bk',
     ada: true,
+    complexId: '35',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island - Bay Ridge',
   },
   {
     id: 'A38',
@@ -2414,6 +3205,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C'],
     borough: 'M',
     ada: true,
+    complexId: '628',
+    northLabel: 'Uptown',
+    southLabel: 'Brooklyn',
   },
   {
     id: '602',
@@ -2423,6 +3217,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: false,
+    complexId: '361',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D11',
@@ -2432,6 +3229,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D'],
     borough: 'Bx',
     ada: true,
+    complexId: '604',
+    northLabel: 'Bedford Pk Blvd & 205 St',
+    southLabel: 'Manhattan',
   },
   {
     id: '627',
@@ -2441,6 +3241,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: false,
+    complexId: '398',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'D32',
@@ -2450,6 +3253,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['Q'],
     borough: 'Bk',
     ada: true,
+    complexId: '48',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: '139',
@@ -2459,6 +3265,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '329',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'R08',
@@ -2468,6 +3277,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'W'],
     borough: 'Q',
     ada: false,
+    complexId: '6',
+    northLabel: 'Astoria - Ditmars Blvd',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D21',
@@ -2477,6 +3289,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D', 'F', 'M'],
     borough: 'M',
     ada: true,
+    complexId: '619',
+    northLabel: 'Uptown & The Bronx - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'S20',
@@ -2486,6 +3301,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '512',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: 'J12',
@@ -2495,6 +3313,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'Q',
     ada: false,
+    complexId: '80',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: '134',
@@ -2504,6 +3325,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '324',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'F02',
@@ -2513,6 +3337,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Q',
     ada: false,
+    complexId: '255',
+    northLabel: '179 St',
+    southLabel: 'Manhattan',
   },
   {
     id: 'F30',
@@ -2522,6 +3349,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Bk',
     ada: false,
+    complexId: '245',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '501',
@@ -2531,6 +3361,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['5'],
     borough: 'Bx',
     ada: false,
+    complexId: '442',
+    southLabel: 'Manhattan',
   },
   {
     id: 'G31',
@@ -2540,6 +3372,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['G'],
     borough: 'Bk',
     ada: false,
+    complexId: '287',
+    northLabel: 'Queens',
+    southLabel: 'Church Av',
   },
   {
     id: 'B16',
@@ -2549,6 +3384,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D'],
     borough: 'Bk',
     ada: true,
+    complexId: '615',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '251',
@@ -2558,6 +3396,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['3'],
     borough: 'Bk',
     ada: false,
+    complexId: '346',
+    northLabel: 'Manhattan',
+    southLabel: 'New Lots',
   },
   {
     id: '214',
@@ -2567,6 +3408,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '427',
+    northLabel: 'Wakefield - Eastchester',
+    southLabel: 'Manhattan',
   },
   {
     id: '624',
@@ -2576,6 +3420,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: false,
+    complexId: '395',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'H10',
@@ -2585,6 +3432,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: false,
+    complexId: '208',
+    northLabel: 'Manhattan',
+    southLabel: 'Far Rockaway',
   },
   {
     id: 'M22',
@@ -2594,6 +3444,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'M',
     ada: true,
+    complexId: '628',
+    northLabel: 'Brooklyn',
+    southLabel: 'Broad St',
   },
   {
     id: 'R21',
@@ -2603,6 +3456,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R', 'W'],
     borough: 'M',
     ada: false,
+    complexId: '16',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'L12',
@@ -2612,6 +3468,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: true,
+    complexId: '123',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: '902',
@@ -2621,6 +3480,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['S'],
     borough: 'M',
     ada: true,
+    complexId: '611',
+    southLabel: 'Grand Central',
   },
   {
     id: 'S15',
@@ -2630,6 +3491,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '517',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: '256',
@@ -2639,6 +3503,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['3'],
     borough: 'Bk',
     ada: false,
+    complexId: '351',
+    northLabel: 'Manhattan',
+    southLabel: 'New Lots',
   },
   {
     id: '701',
@@ -2648,6 +3515,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: true,
+    complexId: '447',
+    southLabel: 'Manhattan',
   },
   {
     id: 'S04',
@@ -2657,6 +3526,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['S'],
     borough: 'Bk',
     ada: false,
+    complexId: '626',
+    northLabel: 'Franklin Av',
+    southLabel: 'Prospect Park',
   },
   {
     id: 'D05',
@@ -2666,6 +3538,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D'],
     borough: 'Bx',
     ada: false,
+    complexId: '213',
+    northLabel: 'Bedford Pk Blvd & 205 St',
+    southLabel: 'Manhattan',
   },
   {
     id: '236',
@@ -2675,6 +3550,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3'],
     borough: 'Bk',
     ada: false,
+    complexId: '339',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush - New Lots',
   },
   {
     id: 'M08',
@@ -2684,6 +3562,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M'],
     borough: 'Bk',
     ada: true,
+    complexId: '630',
+    northLabel: 'Manhattan',
+    southLabel: 'Metropolitan Av',
   },
   {
     id: '124',
@@ -2693,6 +3574,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: true,
+    complexId: '314',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'F24',
@@ -2702,6 +3586,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F', 'G'],
     borough: 'Bk',
     ada: true,
+    complexId: '240',
+    northLabel: 'Manhattan - Queens',
+    southLabel: 'Church Av - Coney Island',
   },
   {
     id: '617',
@@ -2711,6 +3598,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: false,
+    complexId: '375',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A18',
@@ -2720,6 +3610,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C', 'B'],
     borough: 'M',
     ada: false,
+    complexId: '156',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'H03',
@@ -2729,6 +3622,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: true,
+    complexId: '198',
+    northLabel: 'Manhattan',
+    southLabel: 'Rockaways',
   },
   {
     id: '244',
@@ -2738,6 +3634,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bk',
     ada: true,
+    complexId: '356',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush',
   },
   {
     id: '710',
@@ -2747,6 +3646,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: true,
+    complexId: '616',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: 'J24',
@@ -2756,6 +3658,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'Bk',
     ada: false,
+    complexId: '91',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'L21',
@@ -2765,6 +3670,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: false,
+    complexId: '131',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: 'R32',
@@ -2774,6 +3682,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R'],
     borough: 'Bk',
     ada: false,
+    complexId: '28',
+    northLabel: 'Manhattan',
+    southLabel: 'Bay Ridge - 95 St',
   },
   {
     id: '631',
@@ -2783,6 +3694,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4', '5', '6'],
     borough: 'M',
     ada: true,
+    complexId: '610',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'J16',
@@ -2792,6 +3706,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J'],
     borough: 'Q',
     ada: false,
+    complexId: '84',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'B08',
@@ -2801,6 +3718,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'Q'],
     borough: 'M',
     ada: true,
+    complexId: '223',
+    northLabel: 'Uptown - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'R27',
@@ -2810,6 +3730,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R', 'W'],
     borough: 'M',
     ada: false,
+    complexId: '635',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Brooklyn',
   },
   {
     id: '217',
@@ -2819,6 +3742,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: true,
+    complexId: '430',
+    northLabel: 'Wakefield - Eastchester',
+    southLabel: 'Manhattan',
   },
   {
     id: 'L27',
@@ -2828,6 +3754,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: false,
+    complexId: '136',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: '210',
@@ -2837,6 +3766,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '423',
+    northLabel: 'Wakefield - 241 St',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D16',
@@ -2846,6 +3778,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D', 'F', 'M'],
     borough: 'M',
     ada: false,
+    complexId: '609',
+    northLabel: 'Uptown & The Bronx - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'F36',
@@ -2855,6 +3790,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Bk',
     ada: false,
+    complexId: '251',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '416',
@@ -2864,6 +3802,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '391',
+    northLabel: 'Woodlawn - Eastchester Dyre Av',
+    southLabel: 'Manhattan',
   },
   {
     id: 'B20',
@@ -2873,6 +3814,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D'],
     borough: 'Bk',
     ada: false,
+    complexId: '67',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'B13',
@@ -2882,6 +3826,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D'],
     borough: 'Bk',
     ada: false,
+    complexId: '60',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'F25',
@@ -2891,6 +3838,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F', 'G'],
     borough: 'Bk',
     ada: false,
+    complexId: '241',
+    northLabel: 'Manhattan - Queens',
+    southLabel: 'Church Av - Coney Island',
   },
   {
     id: '138',
@@ -2900,6 +3850,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: true,
+    complexId: '328',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'D20',
@@ -2909,6 +3862,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D', 'F', 'M'],
     borough: 'M',
     ada: true,
+    complexId: '167',
+    northLabel: 'Uptown - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'G26',
@@ -2918,6 +3874,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['G'],
     borough: 'Bk',
     ada: true,
+    complexId: '283',
+    northLabel: 'Queens',
+    southLabel: 'Church Av',
   },
   {
     id: 'M18',
@@ -2927,6 +3886,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'J', 'Z'],
     borough: 'M',
     ada: false,
+    complexId: '625',
+    northLabel: 'Brooklyn',
+    southLabel: 'Broad St (JZ) - Uptown (M)',
   },
   {
     id: 'L06',
@@ -2936,6 +3898,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'M',
     ada: true,
+    complexId: '119',
+    northLabel: '8 Av',
+    southLabel: 'Brooklyn',
   },
   {
     id: 'D40',
@@ -2945,6 +3910,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'Q'],
     borough: 'Bk',
     ada: false,
+    complexId: '55',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'A27',
@@ -2954,6 +3922,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C', 'E'],
     borough: 'M',
     ada: true,
+    complexId: '611',
+    northLabel: 'Uptown - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'R04',
@@ -2963,6 +3934,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'W'],
     borough: 'Q',
     ada: false,
+    complexId: '3',
+    northLabel: 'Astoria - Ditmars Blvd',
+    southLabel: 'Manhattan',
   },
   {
     id: '402',
@@ -2972,6 +3946,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4'],
     borough: 'Bx',
     ada: true,
+    complexId: '379',
+    northLabel: 'Woodlawn',
+    southLabel: 'Manhattan',
   },
   {
     id: 'H11',
@@ -2981,6 +3958,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: true,
+    complexId: '209',
+    northLabel: 'Manhattan',
   },
   {
     id: 'L02',
@@ -2990,6 +3969,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'M',
     ada: true,
+    complexId: '601',
+    northLabel: '8 Av',
+    southLabel: 'Brooklyn',
   },
   {
     id: '601',
@@ -2999,6 +3981,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: true,
+    complexId: '360',
+    southLabel: 'Manhattan',
   },
   {
     id: '723',
@@ -3008,6 +3992,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'M',
     ada: true,
+    complexId: '610',
+    northLabel: 'Queens',
+    southLabel: '34 St - Hudson Yards',
   },
   {
     id: '613',
@@ -3017,6 +4004,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: true,
+    complexId: '371',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'S27',
@@ -3026,6 +4016,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '505',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: 'J20',
@@ -3035,6 +4028,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'Bk',
     ada: false,
+    complexId: '87',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A64',
@@ -3044,6 +4040,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: false,
+    complexId: '194',
+    northLabel: 'Manhattan',
+    southLabel: 'Lefferts Blvd',
   },
   {
     id: 'A07',
@@ -3053,6 +4052,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'M',
     ada: true,
+    complexId: '147',
+    northLabel: '207 St',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '106',
@@ -3062,6 +4064,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '296',
+    northLabel: '242 St',
+    southLabel: 'Downtown',
   },
   {
     id: '121',
@@ -3071,6 +4076,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '311',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: '206',
@@ -3080,6 +4088,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '419',
+    northLabel: 'Wakefield - 241 St',
+    southLabel: 'Manhattan',
   },
   {
     id: 'G13',
@@ -3089,6 +4100,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'R'],
     borough: 'Q',
     ada: false,
+    complexId: '266',
+    northLabel: 'Forest Hills',
+    southLabel: 'Manhattan',
   },
   {
     id: '635',
@@ -3098,6 +4112,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4', '5', '6'],
     borough: 'M',
     ada: false,
+    complexId: '602',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'D13',
@@ -3107,6 +4124,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D'],
     borough: 'M',
     ada: false,
+    complexId: '151',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'D27',
@@ -3116,6 +4136,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['Q'],
     borough: 'Bk',
     ada: false,
+    complexId: '43',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: '248',
@@ -3125,6 +4148,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['3'],
     borough: 'Bk',
     ada: false,
+    complexId: '343',
+    northLabel: 'Manhattan',
+    southLabel: 'New Lots',
   },
   {
     id: '707',
@@ -3134,6 +4160,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: true,
+    complexId: '451',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: 'R44',
@@ -3143,6 +4172,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R'],
     borough: 'Bk',
     ada: true,
+    complexId: '38',
+    northLabel: 'Manhattan',
+    southLabel: '95 St',
   },
   {
     id: '412',
@@ -3152,6 +4184,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4'],
     borough: 'Bx',
     ada: true,
+    complexId: '387',
+    northLabel: 'Woodlawn',
+    southLabel: 'Manhattan',
   },
   {
     id: '221',
@@ -3161,6 +4196,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: true,
+    complexId: '434',
+    northLabel: 'Wakefield - Eastchester',
+    southLabel: 'Manhattan',
   },
   {
     id: '108',
@@ -3170,6 +4208,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '298',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: '125',
@@ -3179,6 +4220,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: true,
+    complexId: '614',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'H04',
@@ -3188,6 +4232,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'S'],
     borough: 'Q',
     ada: false,
+    complexId: '199',
+    northLabel: 'Manhattan',
+    southLabel: 'Rockaways',
   },
   {
     id: 'A44',
@@ -3197,6 +4244,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C'],
     borough: 'Bk',
     ada: false,
+    complexId: '177',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid Av',
   },
   {
     id: 'A49',
@@ -3206,6 +4256,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C'],
     borough: 'Bk',
     ada: false,
+    complexId: '182',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid Av',
   },
   {
     id: '711',
@@ -3215,6 +4268,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: false,
+    complexId: '455',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: 'B23',
@@ -3224,6 +4280,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D'],
     borough: 'Bk',
     ada: false,
+    complexId: '70',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'G11',
@@ -3233,6 +4292,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'R'],
     borough: 'Q',
     ada: false,
+    complexId: '264',
+    northLabel: 'Forest Hills',
+    southLabel: 'Manhattan',
   },
   {
     id: 'S09',
@@ -3242,6 +4304,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: true,
+    complexId: '522',
+    northLabel: 'St George',
   },
   {
     id: 'J27',
@@ -3251,6 +4315,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'Bk',
     ada: false,
+    complexId: '621',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'L17',
@@ -3260,6 +4327,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: true,
+    complexId: '630',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: 'R09',
@@ -3269,6 +4339,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'W'],
     borough: 'Q',
     ada: true,
+    complexId: '461',
+    northLabel: 'Astoria - Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: 'M13',
@@ -3278,6 +4351,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'J'],
     borough: 'Bk',
     ada: false,
+    complexId: '99',
+    northLabel: 'Jamaica - Middle Village',
+    southLabel: 'Manhattan',
   },
   {
     id: 'S23',
@@ -3287,6 +4363,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '509',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: 'G06',
@@ -3296,6 +4375,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E', 'J', 'Z'],
     borough: 'Q',
     ada: true,
+    complexId: '279',
+    northLabel: 'Jamaica Center',
+    southLabel: 'Manhattan',
   },
   {
     id: '716',
@@ -3305,6 +4387,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: false,
+    complexId: '460',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A17',
@@ -3314,6 +4399,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C', 'B'],
     borough: 'M',
     ada: false,
+    complexId: '155',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'F06',
@@ -3323,6 +4411,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E', 'F'],
     borough: 'Q',
     ada: true,
+    complexId: '259',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: '130',
@@ -3332,6 +4423,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '320',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'A42',
@@ -3341,6 +4435,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C', 'G'],
     borough: 'Bk',
     ada: false,
+    complexId: '175',
+    northLabel: 'Manhattan - Church Av',
+    southLabel: 'Euclid Av & Queens - Court Sq',
   },
   {
     id: 'R20',
@@ -3350,6 +4447,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'Q', 'R', 'W'],
     borough: 'M',
     ada: true,
+    complexId: '602',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '224',
@@ -3359,6 +4459,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3'],
     borough: 'M',
     ada: true,
+    complexId: '438',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'N06',
@@ -3368,6 +4471,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N'],
     borough: 'Bk',
     ada: false,
+    complexId: '75',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'A05',
@@ -3377,6 +4483,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'M',
     ada: false,
+    complexId: '145',
+    northLabel: '207 St',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'G35',
@@ -3386,6 +4495,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['G'],
     borough: 'Bk',
     ada: false,
+    complexId: '291',
+    northLabel: 'Queens',
+    southLabel: 'Church Av',
   },
   {
     id: '616',
@@ -3395,6 +4507,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: false,
+    complexId: '374',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'J29',
@@ -3404,6 +4519,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J'],
     borough: 'Bk',
     ada: false,
+    complexId: '94',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D22',
@@ -3413,6 +4531,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D'],
     borough: 'M',
     ada: false,
+    complexId: '231',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Brooklyn',
   },
   {
     id: 'N10',
@@ -3422,6 +4543,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N'],
     borough: 'Bk',
     ada: false,
+    complexId: '79',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '252',
@@ -3431,6 +4555,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['3'],
     borough: 'Bk',
     ada: false,
+    complexId: '347',
+    northLabel: 'Manhattan',
+    southLabel: 'New Lots',
   },
   {
     id: 'S19',
@@ -3440,6 +4567,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: true,
+    complexId: '513',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: '232',
@@ -3449,6 +4579,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3'],
     borough: 'Bk',
     ada: true,
+    complexId: '620',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush - New Lots',
   },
   {
     id: 'M06',
@@ -3458,6 +4591,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M'],
     borough: 'Q',
     ada: false,
+    complexId: '111',
+    northLabel: 'Manhattan',
+    southLabel: 'Metropolitan Av',
   },
   {
     id: 'H15',
@@ -3467,6 +4603,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'S'],
     borough: 'Q',
     ada: true,
+    complexId: '203',
+    northLabel: 'Manhattan',
   },
   {
     id: 'L13',
@@ -3476,6 +4614,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: false,
+    complexId: '124',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: 'D10',
@@ -3485,6 +4626,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D'],
     borough: 'Bx',
     ada: false,
+    complexId: '218',
+    northLabel: 'Bedford Pk Blvd & 205 St',
+    southLabel: 'Manhattan',
   },
   {
     id: '257',
@@ -3494,6 +4638,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['3'],
     borough: 'Bk',
     ada: false,
+    complexId: '352',
+    northLabel: 'Manhattan',
   },
   {
     id: 'S14',
@@ -3503,6 +4649,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '518',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: '502',
@@ -3512,6 +4661,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['5'],
     borough: 'Bx',
     ada: false,
+    complexId: '443',
+    northLabel: 'Eastchester - Dyre Av',
+    southLabel: 'Manhattan',
   },
   {
     id: 'G32',
@@ -3521,6 +4673,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['G'],
     borough: 'Bk',
     ada: false,
+    complexId: '288',
+    northLabel: 'Queens',
+    southLabel: 'Church Av',
   },
   {
     id: '215',
@@ -3530,6 +4685,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '428',
+    northLabel: 'Wakefield - Eastchester',
+    southLabel: 'Manhattan',
   },
   {
     id: 'F09',
@@ -3539,6 +4697,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E', 'F'],
     borough: 'Q',
     ada: false,
+    complexId: '606',
+    northLabel: 'Forest Hills - Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: '407',
@@ -3548,6 +4709,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4'],
     borough: 'Bx',
     ada: true,
+    complexId: '382',
+    northLabel: 'Woodlawn',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A21',
@@ -3557,6 +4721,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C', 'B'],
     borough: 'M',
     ada: false,
+    complexId: '159',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'S31',
@@ -3566,6 +4733,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: true,
+    complexId: '501',
+    southLabel: 'Tottenville',
   },
   {
     id: 'Q01',
@@ -3575,6 +4744,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'Q'],
     borough: 'M',
     ada: false,
+    complexId: '623',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'A53',
@@ -3584,6 +4756,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C'],
     borough: 'Bk',
     ada: false,
+    complexId: '186',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid Av',
   },
   {
     id: '113',
@@ -3593,6 +4768,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '303',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: '603',
@@ -3602,6 +4780,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: false,
+    complexId: '362',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'R34',
@@ -3611,6 +4792,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R'],
     borough: 'Bk',
     ada: false,
+    complexId: '30',
+    northLabel: 'Manhattan',
+    southLabel: 'Bay Ridge - 95 St',
   },
   {
     id: 'E01',
@@ -3620,6 +4804,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E'],
     borough: 'M',
     ada: true,
+    complexId: '624',
+    northLabel: 'Uptown & Queens',
   },
   {
     id: 'S03',
@@ -3629,6 +4815,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['S'],
     borough: 'Bk',
     ada: true,
+    complexId: '141',
+    northLabel: 'Franklin Av',
+    southLabel: 'Prospect Park',
   },
   {
     id: 'D31',
@@ -3638,6 +4827,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'Q'],
     borough: 'Bk',
     ada: false,
+    complexId: '47',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: 'G19',
@@ -3647,6 +4839,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'R'],
     borough: 'Q',
     ada: false,
+    complexId: '271',
+    northLabel: 'Forest Hills',
+    southLabel: 'Manhattan',
   },
   {
     id: 'F03',
@@ -3656,6 +4851,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Q',
     ada: false,
+    complexId: '256',
+    northLabel: '179 St',
+    southLabel: 'Manhattan',
   },
   {
     id: '133',
@@ -3665,6 +4863,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '323',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: '420',
@@ -3674,6 +4875,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4', '5'],
     borough: 'M',
     ada: true,
+    complexId: '414',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Brooklyn',
   },
   {
     id: '609',
@@ -3683,6 +4887,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: false,
+    complexId: '367',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: '116',
@@ -3692,6 +4899,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '306',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'R11',
@@ -3701,6 +4911,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'R', 'W'],
     borough: 'M',
     ada: false,
+    complexId: '613',
+    northLabel: 'Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'F18',
@@ -3710,6 +4923,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Bk',
     ada: false,
+    complexId: '235',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'F31',
@@ -3719,6 +4935,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Bk',
     ada: false,
+    complexId: '246',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'B15',
@@ -3728,6 +4947,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D'],
     borough: 'Bk',
     ada: false,
+    complexId: '62',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'H09',
@@ -3737,6 +4959,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: false,
+    complexId: '207',
+    northLabel: 'Manhattan',
+    southLabel: 'Far Rockaway',
   },
   {
     id: 'M23',
@@ -3746,6 +4971,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'M',
     ada: false,
+    complexId: '107',
+    northLabel: 'Brooklyn',
   },
   {
     id: '625',
@@ -3755,6 +4982,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: false,
+    complexId: '396',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'R17',
@@ -3764,6 +4994,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'Q', 'R', 'W'],
     borough: 'M',
     ada: true,
+    complexId: '607',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '901',
@@ -3773,6 +5006,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['S'],
     borough: 'M',
     ada: true,
+    complexId: '610',
+    northLabel: 'Times Sq',
   },
   {
     id: '142',
@@ -3782,6 +5017,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: true,
+    complexId: '635',
+    northLabel: 'Uptown & The Bronx',
   },
   {
     id: 'D06',
@@ -3791,6 +5028,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D'],
     borough: 'Bx',
     ada: false,
+    complexId: '214',
+    northLabel: 'Bedford Pk Blvd & 205 St',
+    southLabel: 'Manhattan',
   },
   {
     id: '640',
@@ -3800,6 +5040,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4', '5', '6'],
     borough: 'M',
     ada: true,
+    complexId: '622',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'A14',
@@ -3809,6 +5052,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C', 'B'],
     borough: 'M',
     ada: false,
+    complexId: '152',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '211',
@@ -3818,6 +5064,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: true,
+    complexId: '424',
+    northLabel: 'Wakefield - 241 St',
+    southLabel: 'Manhattan',
   },
   {
     id: 'N07',
@@ -3827,6 +5076,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N'],
     borough: 'Bk',
     ada: false,
+    complexId: '76',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '225',
@@ -3836,6 +5088,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3'],
     borough: 'M',
     ada: false,
+    complexId: '439',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'B14',
@@ -3845,6 +5100,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D'],
     borough: 'Bk',
     ada: false,
+    complexId: '61',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'R45',
@@ -3854,6 +5112,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R'],
     borough: 'Bk',
     ada: true,
+    complexId: '39',
+    northLabel: 'Manhattan',
   },
   {
     id: 'G28',
@@ -3863,6 +5123,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['G'],
     borough: 'Bk',
     ada: false,
+    complexId: '284',
+    northLabel: 'Queens',
+    southLabel: 'Church Av',
   },
   {
     id: 'A33',
@@ -3872,6 +5135,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C', 'E'],
     borough: 'M',
     ada: false,
+    complexId: '168',
+    northLabel: 'Uptown - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '411',
@@ -3881,6 +5147,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4'],
     borough: 'Bx',
     ada: false,
+    complexId: '386',
+    northLabel: 'Woodlawn',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A09',
@@ -3890,6 +5159,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C'],
     borough: 'M',
     ada: true,
+    complexId: '605',
+    northLabel: '207 St',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'G05',
@@ -3899,6 +5171,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E', 'J', 'Z'],
     borough: 'Q',
     ada: true,
+    complexId: '278',
+    southLabel: 'Manhattan',
   },
   {
     id: '109',
@@ -3908,6 +5182,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: true,
+    complexId: '299',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'R40',
@@ -3917,6 +5194,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R'],
     borough: 'Bk',
     ada: false,
+    complexId: '34',
+    northLabel: 'Manhattan',
+    southLabel: 'Bay Ridge - 95 St',
   },
   {
     id: 'A59',
@@ -3926,6 +5206,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: false,
+    complexId: '190',
+    northLabel: 'Manhattan',
+    southLabel: 'Lefferts - Rockaways',
   },
   {
     id: 'A50',
@@ -3935,6 +5218,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C'],
     borough: 'Bk',
     ada: false,
+    complexId: '183',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid Av',
   },
   {
     id: 'G14',
@@ -3944,6 +5230,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['E', 'F', 'M', 'R'],
     borough: 'Q',
     ada: true,
+    complexId: '616',
+    northLabel: 'Forest Hills - Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D35',
@@ -3953,6 +5242,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'Q'],
     borough: 'Bk',
     ada: true,
+    complexId: '51',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: '626',
@@ -3962,6 +5254,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4', '5', '6'],
     borough: 'M',
     ada: false,
+    complexId: '397',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'R03',
@@ -3971,6 +5266,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N', 'W'],
     borough: 'Q',
     ada: true,
+    complexId: '2',
+    northLabel: 'Ditmars Blvd',
+    southLabel: 'Manhattan',
   },
   {
     id: '216',
@@ -3980,6 +5278,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '429',
+    northLabel: 'Wakefield - Eastchester',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D01',
@@ -3989,6 +5290,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D'],
     borough: 'Bx',
     ada: false,
+    complexId: '210',
+    southLabel: 'Manhattan',
   },
   {
     id: '706',
@@ -3998,6 +5301,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: false,
+    complexId: '450',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: '243',
@@ -4007,6 +5313,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bk',
     ada: false,
+    complexId: '355',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush',
   },
   {
     id: 'F23',
@@ -4016,6 +5325,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F', 'G'],
     borough: 'Bk',
     ada: false,
+    complexId: '608',
+    northLabel: 'Manhattan - Queens',
+    southLabel: 'Church Av - Coney Island',
   },
   {
     id: 'F26',
@@ -4025,6 +5337,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F', 'G'],
     borough: 'Bk',
     ada: false,
+    complexId: '242',
+    northLabel: 'Manhattan - Queens',
+    southLabel: 'Church Av - Coney Island',
   },
   {
     id: 'F38',
@@ -4034,6 +5349,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'Bk',
     ada: false,
+    complexId: '252',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: '205',
@@ -4043,6 +5361,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: true,
+    complexId: '418',
+    northLabel: 'Wakefield - 241 St',
+    southLabel: 'Manhattan',
   },
   {
     id: 'L16',
@@ -4052,6 +5373,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: false,
+    complexId: '127',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: 'L28',
@@ -4061,6 +5385,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: false,
+    complexId: '137',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: '721',
@@ -4070,6 +5397,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: false,
+    complexId: '464',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: '621',
@@ -4079,6 +5409,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4', '5', '6'],
     borough: 'M',
     ada: true,
+    complexId: '392',
+    northLabel: 'The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'S24',
@@ -4088,6 +5421,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '508',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: '137',
@@ -4097,6 +5433,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1', '2', '3'],
     borough: 'M',
     ada: true,
+    complexId: '327',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'A65',
@@ -4106,6 +5445,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A'],
     borough: 'Q',
     ada: true,
+    complexId: '195',
+    northLabel: 'Manhattan',
   },
   {
     id: 'B19',
@@ -4115,6 +5456,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['D'],
     borough: 'Bk',
     ada: false,
+    complexId: '66',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'M19',
@@ -4124,6 +5468,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'M',
     ada: false,
+    complexId: '103',
+    northLabel: 'Brooklyn',
+    southLabel: 'Broad St',
   },
   {
     id: 'R33',
@@ -4133,6 +5480,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R'],
     borough: 'Bk',
     ada: false,
+    complexId: '608',
+    northLabel: 'Manhattan',
+    southLabel: 'Bay Ridge - 95 St',
   },
   {
     id: '239',
@@ -4142,6 +5492,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3', '4', '5'],
     borough: 'Bk',
     ada: false,
+    complexId: '626',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush - Utica - New Lots',
   },
   {
     id: '636',
@@ -4151,6 +5504,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: false,
+    complexId: '407',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'D28',
@@ -4160,6 +5516,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'Q'],
     borough: 'Bk',
     ada: true,
+    complexId: '44',
+    northLabel: 'Manhattan',
+    southLabel: 'Brighton Beach & Coney Island',
   },
   {
     id: 'R28',
@@ -4169,6 +5528,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['R'],
     borough: 'Bk',
     ada: false,
+    complexId: '620',
+    northLabel: 'Manhattan',
+    southLabel: 'Bay Ridge - 95 St',
   },
   {
     id: 'J28',
@@ -4178,6 +5540,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'Bk',
     ada: false,
+    complexId: '93',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: '712',
@@ -4187,6 +5552,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: true,
+    complexId: '456',
+    northLabel: 'Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D41',
@@ -4196,6 +5564,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['Q'],
     borough: 'Bk',
     ada: false,
+    complexId: '56',
+    northLabel: 'Manhattan',
+    southLabel: 'Stillwell Av',
   },
   {
     id: 'J21',
@@ -4205,6 +5576,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'Bk',
     ada: false,
+    complexId: '88',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'L22',
@@ -4214,6 +5588,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: false,
+    complexId: '621',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: '104',
@@ -4223,6 +5600,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'Bx',
     ada: true,
+    complexId: '295',
+    northLabel: '242 St',
+    southLabel: 'Manhattan',
   },
   {
     id: 'G10',
@@ -4232,6 +5612,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'R'],
     borough: 'Q',
     ada: false,
+    complexId: '263',
+    northLabel: 'Forest Hills',
+    southLabel: 'Manhattan',
   },
   {
     id: 'A28',
@@ -4241,6 +5624,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'C', 'E'],
     borough: 'M',
     ada: true,
+    complexId: '164',
+    northLabel: 'Uptown - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'H12',
@@ -4250,6 +5636,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['A', 'S'],
     borough: 'Q',
     ada: false,
+    complexId: '200',
+    northLabel: 'Manhattan',
+    southLabel: 'Rockaway Park',
   },
   {
     id: '126',
@@ -4259,6 +5648,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1'],
     borough: 'M',
     ada: false,
+    complexId: '316',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: '120',
@@ -4268,6 +5660,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['1', '2', '3'],
     borough: 'M',
     ada: true,
+    complexId: '310',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: 'A45',
@@ -4277,6 +5672,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['C'],
     borough: 'Bk',
     ada: true,
+    complexId: '627',
+    northLabel: 'Manhattan',
+    southLabel: 'Euclid Av',
   },
   {
     id: '630',
@@ -4286,6 +5684,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'M',
     ada: true,
+    complexId: '612',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown',
   },
   {
     id: 'N02',
@@ -4295,6 +5696,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['N'],
     borough: 'Bk',
     ada: true,
+    complexId: '71',
+    northLabel: 'Manhattan',
+    southLabel: 'Coney Island',
   },
   {
     id: 'S13',
@@ -4304,6 +5708,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '519',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: '235',
@@ -4313,6 +5720,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3', '4', '5'],
     borough: 'Bk',
     ada: true,
+    complexId: '617',
+    northLabel: 'Manhattan',
+    southLabel: 'Flatbush - New Lots',
   },
   {
     id: '247',
@@ -4322,6 +5732,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bk',
     ada: true,
+    complexId: '359',
+    northLabel: 'Manhattan',
   },
   {
     id: '401',
@@ -4331,6 +5743,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['4'],
     borough: 'Bx',
     ada: false,
+    complexId: '378',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D17',
@@ -4340,6 +5754,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D', 'F', 'M'],
     borough: 'M',
     ada: true,
+    complexId: '607',
+    northLabel: 'Uptown & The Bronx - Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '505',
@@ -4349,6 +5766,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['5'],
     borough: 'Bx',
     ada: false,
+    complexId: '446',
+    northLabel: 'Eastchester - Dyre Av',
+    southLabel: 'Manhattan',
   },
   {
     id: 'L01',
@@ -4358,6 +5778,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'M',
     ada: true,
+    complexId: '618',
+    southLabel: 'Brooklyn',
   },
   {
     id: '718',
@@ -4367,6 +5789,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['7'],
     borough: 'Q',
     ada: true,
+    complexId: '461',
+    northLabel: 'Astoria - Flushing',
+    southLabel: 'Manhattan',
   },
   {
     id: '612',
@@ -4376,6 +5801,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['6'],
     borough: 'Bx',
     ada: false,
+    complexId: '370',
+    northLabel: 'Pelham Bay Park',
+    southLabel: 'Manhattan',
   },
   {
     id: 'M12',
@@ -4385,6 +5813,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M', 'J'],
     borough: 'Bk',
     ada: true,
+    complexId: '98',
+    northLabel: 'Jamaica - Middle Village',
+    southLabel: 'Manhattan',
   },
   {
     id: 'S28',
@@ -4394,6 +5825,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '504',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: '228',
@@ -4403,6 +5837,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '3'],
     borough: 'M',
     ada: false,
+    complexId: '624',
+    northLabel: 'Uptown & The Bronx',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '220',
@@ -4412,6 +5849,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['2', '5'],
     borough: 'Bx',
     ada: false,
+    complexId: '433',
+    northLabel: 'Wakefield - Eastchester',
+    southLabel: 'Manhattan',
   },
   {
     id: 'D07',
@@ -4421,6 +5861,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['B', 'D'],
     borough: 'Bx',
     ada: true,
+    complexId: '215',
+    northLabel: 'Bedford Pk Blvd & 205 St',
+    southLabel: 'Manhattan',
   },
   {
     id: 'L08',
@@ -4430,6 +5873,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['L'],
     borough: 'Bk',
     ada: true,
+    complexId: '120',
+    northLabel: 'Manhattan',
+    southLabel: 'Canarsie - Rockaway Parkway',
   },
   {
     id: 'B06',
@@ -4439,6 +5885,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['M'],
     borough: 'M',
     ada: true,
+    complexId: '222',
+    northLabel: 'Queens',
+    southLabel: 'Manhattan',
   },
   {
     id: 'J15',
@@ -4448,6 +5897,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['J', 'Z'],
     borough: 'Q',
     ada: true,
+    complexId: '83',
+    northLabel: 'Jamaica',
+    southLabel: 'Manhattan',
   },
   {
     id: 'S18',
@@ -4457,6 +5909,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['SIR'],
     borough: 'SI',
     ada: false,
+    complexId: '514',
+    northLabel: 'St George',
+    southLabel: 'Tottenville',
   },
   {
     id: 'F14',
@@ -4466,6 +5921,9 @@ export const subwayStations: SubwayStation[] = [
     routes: ['F'],
     borough: 'M',
     ada: false,
+    complexId: '232',
+    northLabel: 'Uptown & Queens',
+    southLabel: 'Downtown & Brooklyn',
   },
   {
     id: '253',
@@ -4475,5 +5933,8 @@ export const subwayStations: SubwayStation[] = [
     routes: ['3'],
     borough: 'Bk',
     ada: false,
+    complexId: '348',
+    northLabel: 'Manhattan',
+    southLabel: 'New Lots',
   },
 ];
@@ -5,7 +5,8 @@ export type CardinalDirection = 'N' | 'S' | 'E' | 'W' | 'UNK';
 // ── Feed identifiers ───────────────────────────────────────────────
 
 /**
- * Each value maps to a distinct MTA GTFS-RT endpoint.
+ * Each value maps to a distinct MTA GTFS-RT endpoint (see
+ * `feeds/feedRegistry.ts` for agency, URL and routes).
  * Multiple subway routes share a single feed.
  */
 export enum FeedId {
@@ -25,8 +26,21 @@ export enum FeedId {
   NQRW = 'nyct%2Fgtfs-nqrw',
   /** Staten Island Railway */
   SI = 'nyct%2Fgtfs-si',
+  /** Subway service alerts, every line (with Mercury extensions) */
+  SubwayAlerts = 'camsys%2Fsubway-alerts',
+  /** Long Island Rail Road */
+  LIRR = 'lirr%2Fgtfs-lirr',
+  /** Metro-North Railroad */
+  MNR = 'mnr%2Fgtfs-mnr',
+  /** MTA buses (Bus Time) — vehicle positions */
+  BusVehicles = 'bus%2FvehiclePositions',
+  /** MTA buses (Bus Time) — trip updates */
+  BusTrips = 'bus%2FtripUpdates',
 }
 
+/** The kind of service a feed carries. */
+export type TransitMode = 'subway' | 'rail' | 'bus';
+
 // ── Subway route IDs ───────────────────────────────────────────────
 
 export type SubwayLine =
@@ -62,6 +76,27 @@ export type SubwayLine =
 
 // ── Vehicle position (renamed from Train) ──────────────────────────
 
+/**
+ * GTFS-RT `VehicleStopStatus`: where the train is relative to its
+ * `currentStopId` — pulling in, stopped there, or still on the way.
+ */
+export type VehicleStatus = 'incoming' | 'stopped' | 'in-transit';
+
+/**
+ * A train's run between two stops, as estimated from its trip update.
+ * Lets the map keep a marker moving along the track between refreshes.
+ */
+export type VehicleMotion = {
+  /** Parent station the train last left */
+  fromStopId: string;
+  /** GTFS stop ID the train is heading for */
+  toStopId: string;
+  /** Estimated departure from `fromStopId`, Unix seconds */
+  departureTime: number;
+  /** Predicted arrival at `toStopId`, Unix seconds */
+  arrivalTime: number;
+};
+
 export type VehiclePosition = {
   id: string;
   routeId: string;
@@ -70,8 +105,21 @@ export type VehiclePosition = {
   bearing: number;
   direction: CardinalDirection;
   tripId: string | null;
-  /** GTFS stop ID the train is currently at (e.g. "142S") */
+  /** GTFS stop ID the train is at or heading to (e.g. "142S"), per `status` */
   currentStopId: string | null;
+  status: VehicleStatus;
+  /** Stop the train last left — a parent station ID when inferred from the track */
+  previousStopId: string | null;
+  /** Next stop the train will arrive at: `currentStopId`, or the one after if stopped there */
+  nextStopId: string | null;
+  /** Official trip direction from the NYCT extension (not the compass heading) */
+  tripDirection: CardinalDirection;
+  /** NYCT train ID (e.g. "06 0123+ PEL/BBR"), when the feed carries one */
+  trainId: string | null;
+  /** Whether a physical train is assigned to the trip (null = not reported) */
+  isAssigned: boolean | null;
+  /** Current run between stops, or null when stopped / not estimable */
+  motion: VehicleMotion | null;
   lastUpdatedMs: number;
 };
 
@@ -92,12 +140,79 @@ export type ArrivalPrediction = {
   stopId: string;
   /** Direction of the trip */
   direction: CardinalDirection;
+  /** GTFS stop ID where the trip ends */
+  destinationStopId: string | null;
+  /** Rider-facing destination, e.g. "Flushing-Main St" (null if the stop is unknown) */
+  headsign: string | null;
   /** Predicted arrival as Unix timestamp (seconds) */
   arrivalTime: number;
   /** Predicted departure as Unix timestamp (seconds) */
   departureTime: number;
-  /** Delay in seconds (positive = late, 0 = on time) */
+  /**
+   * Delay in seconds (positive = late, 0 = on time), measured against
+   * the static timetable when the trip is in it, else as the feed reports
+   */
   delay: number;
+  /** Timetabled arrival as Unix timestamp (seconds); null if the trip isn't scheduled */
+  scheduledTime: number | null;
+  /** NYCT train ID, when the feed carries one */
+  trainId: string | null;
+  /**
+   * Whether a physical train is assigned to the trip.  `false` means
+   * a scheduled trip that may not run; null = not reported.
+   */
+  isAssigned: boolean | null;
+  /** Track the train is scheduled to use at this stop */
+  scheduledTrack: string | null;
+  /** Track the train actually uses (differs from scheduled on reroutes) */
+  actualTrack: string | null;
+};
+
+// ── Trips ──────────────────────────────────────────────────────────
+
+/** One upcoming stop of a trip. */
+export type TripStop = {
+  /** GTFS stop ID (e.g. "A15N") */
+  stopId: string;
+  /** Predicted arrival as Unix timestamp (seconds) */
+  arrivalTime: number;
+  /** Predicted departure as Unix timestamp (seconds) */
+  departureTime: number;
+  /**
+   * Delay in seconds (positive = late, 0 = on time or not reported),
+   * measured against the static timetable when the trip is in it
+   */
+  delay: number;
+  /** Timetabled arrival as Unix timestamp (seconds); null if the trip isn't scheduled */
+  scheduledTime: number | null;
+  /** Track the train is scheduled to use at this stop */
+  scheduledTrack: string | null;
+  /** Track the train actually uses (differs from scheduled on reroutes) */
+  actualTrack: string | null;
+};
+
+/** A whole trip from its trip update, with the stops still ahead. */
+export type Trip = {
+  tripId: string;
+  routeId: string;
+  /** Direction of the trip */
+  direction: CardinalDirection;
+  /**
+   * First stop the feed still lists — not the origin: feeds drop stops
+   * once served, so this moves along with the train.
+   */
+  firstListedStopId: string | null;
+  /** Last stop of the trip */
+  destinationStopId: string | null;
+  /** Upcoming stops in travel order */
+  stops: TripStop[];
+  /** NYCT train ID, when the feed carries one */
+  trainId: string | null;
+  /**
+   * Whether a physical train is assigned to the trip.  `false` means
+   * a scheduled trip that may not run; null = not reported.
+   */
+  isAssigned: boolean | null;
 };
 
 // ── Service alerts ─────────────────────────────────────────────────
@@ -107,16 +222,78 @@ export type AlertActivePeriod = {
   endTime: number | null;
 };
 
+/** GTFS-RT `Alert.Effect`: what the disruption does to service. */
+export type AlertEffect =
+  | 'no-service'
+  | 'reduced-service'
+  | 'significant-delays'
+  | 'detour'
+  | 'additional-service'
+  | 'modified-service'
+  | 'stop-moved'
+  | 'accessibility-issue'
+  | 'no-effect'
+  | 'other'
+  | 'unknown';
+
+/** GTFS-RT `Alert.Cause`. */
+export type AlertCause =
+  | 'technical-problem'
+  | 'strike'
+  | 'demonstration'
+  | 'accident'
+  | 'holiday'
+  | 'weather'
+  | 'maintenance'
+  | 'construction'
+  | 'police-activity'
+  | 'medical-emergency'
+  | 'other'
+  | 'unknown';
+
+/**
+ * How disruptive an alert is, most first: 'severe' (no trains running,
+ * major delays), 'warning' (reroutes, planned work), 'info' (elevator
+ * outages, notices).
+ */
+export type AlertSeverity = 'severe' | 'warning' | 'info';
+
+/** One route an alert affects. */
+export type AlertRoute = {
+  routeId: string;
+  /** Direction affected, or null for both */
+  direction: CardinalDirection | null;
+  /** MTA ranking of the alert on this route (higher is more urgent), when sent */
+  priority: number | null;
+};
+
 export type ServiceAlert = {
   id: string;
   /** Route IDs affected by this alert */
   routeIds: string[];
+  /** Per-route detail for `routeIds` */
+  routes: AlertRoute[];
+  /** GTFS stop IDs named by the alert (e.g. closed stations); empty if line-wide */
+  stopIds: string[];
   /** Short header / title */
   header: string;
   /** Longer description (may be empty) */
   description: string;
+  /** The header's `en-html` translation, when the feed sends one (see `alertRichText`) */
+  headerHtml: string | null;
+  /** The description's `en-html` translation, when the feed sends one */
+  descriptionHtml: string | null;
   /** When this alert is active */
   activePeriods: AlertActivePeriod[];
+  effect: AlertEffect;
+  cause: AlertCause;
+  severity: AlertSeverity;
+  /** MTA alert type, e.g. "Delays" or "Planned - Part Suspended" (null if not sent) */
+  alertType: string | null;
+  /** Rider-facing summary of the active periods, e.g. "Weekends, 9:45 PM Fri to 5 AM Mon" */
+  activePeriodText: string | null;
+  /** Last change to the alert, Unix seconds (null if not sent) */
+  updatedAt: number | null;
 };
 
 // ── Aggregated snapshot ────────────────────────────────────────────
@@ -125,11 +302,20 @@ export type SubwaySnapshot = {
   vehicles: VehiclePosition[];
   arrivals: ArrivalPrediction[];
   alerts: ServiceAlert[];
+  trips: Trip[];
+  /** Publication time of the oldest feed used, in ms (null for scheduled or mock data) */
+  feedTimestampMs: number | null;
 };
 
 // ── Feed mode ──────────────────────────────────────────────────────
 
-export type FeedMode = 'live' | 'mock';
+/**
+ * Where the current data came from: the live feeds, the static
+ * timetable when every feed fails, the mock fallback when there is no
+ * timetable either, or a recorded session played back by
+ * `ReplaySubwayService`.
+ */
+export type FeedMode = 'live' | 'scheduled' | 'mock' | 'replay';
 
 // ── Service interface ──────────────────────────────────────────────
 
@@ -142,12 +328,24 @@ export interface SubwayService {
   /** Fetch current vehicle positions, optionally filtered by route. */
   fetchVehicles(routes?: string[]): Promise<VehiclePosition[]>;
 
-  /** Fetch arrival predictions for a specific station. */
+  /**
+   * Fetch arrival predictions for a station, or for every platform of
+   * a station complex when given a complex ID (e.g. "complex:611").
+   */
   fetchArrivals(stationId: string): Promise<ArrivalPrediction[]>;
 
-  /** Fetch active service alerts, optionally filtered by route. */
+  /**
+   * Fetch service alerts from the alerts feed, most disruptive first,
+   * optionally filtered by route.
+   */
   fetchAlerts(routes?: string[]): Promise<ServiceAlert[]>;
 
+  /**
+   * Fetch one trip with its remaining stops, or null once it has left
+   * the feed.  Pass the route to fetch only the feed carrying it.
+   */
+  fetchTrip(tripId: string, routeId?: string): Promise<Trip | null>;
+
   /** Fetch everything in one pass (more efficient — single feed decode). */
   fetchAll(routes?: string[]): Promise<SubwaySnapshot>;
 }
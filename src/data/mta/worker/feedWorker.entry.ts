@@ -0,0 +1,19 @@
+import { createFeedWorkerHandler } from './feedWorker';
+import type { FeedWorkerRequest, FeedWorkerResponse } from './feedWorkerProtocol';
+
+/**
+ * Entry point of the background feed worker runtime.  In Worklets
+ * bundle mode each runtime evaluates its own copy of this module, so
+ * the handler — and the feeds it has decoded — live on the worker
+ * thread and are never touched by the JS thread.
+ */
+
+const handle = createFeedWorkerHandler();
+
+/** Handle one request on the worker runtime and pass the response to `respond`. */
+export function handleFeedWorkerRequest(
+  request: FeedWorkerRequest,
+  respond: (response: FeedWorkerResponse) => void,
+): void {
+  void handle(request).then(respond);
+}
@@ -0,0 +1,99 @@
+import { decodeFeed } from '../feeds/feedDecoder';
+import { getFeedDefinition } from '../feeds/feedRegistry';
+import { assembleSnapshot, mapFeed, type MappedFeed } from '../mappers/snapshotMapper';
+import type { FeedId } from '../types';
+import type { FeedFailure, FeedWorkerRequest, FeedWorkerResponse } from './feedWorkerProtocol';
+
+/**
+ * The worker side: decodes GTFS-RT payloads and maps them into a
+ * `SubwaySnapshot`.  Holds no references to the app's stores or
+ * network layer, so it can run in any JS runtime that can receive
+ * messages.
+ */
+
+export type FeedWorkerHandler = (request: FeedWorkerRequest) => Promise<FeedWorkerResponse>;
+
+export type FeedWorkerOptions = {
+  /**
+   * Awaited between feeds.  A runtime sharing the UI's JS thread passes
+   * something that yields to the event loop so touches and frames can
+   * be processed mid-batch.
+   */
+  yieldBetweenFeeds?: () => Promise<void>;
+};
+
+export function createFeedWorkerHandler(options: FeedWorkerOptions = {}): FeedWorkerHandler {
+  const { yieldBetweenFeeds } = options;
+  const mapped = new Map<FeedId, { version: number; feed: MappedFeed }>();
+
+  return async (request) => {
+    if (request.type === 'reset') {
+      mapped.clear();
+      return { id: request.id, type: 'reset' };
+    }
+
+    try {
+      const missing = request.feeds
+        .filter((f) => !f.bytes && mapped.get(f.feedId)?.version !== f.version)
+        .map((f) => f.feedId);
+      if (missing.length > 0) {
+        return { id: request.id, type: 'missing', feedIds: missing };
+      }
+
+      // A feed that fails to decode is left out rather than failing the rest
+      const feeds: MappedFeed[] = [];
+      const failed: FeedFailure[] = [];
+      for (const { feedId, version, bytes, headerTimestampMs } of request.feeds) {
+        const held = mapped.get(feedId);
+        if (held?.version === version) {
+          feeds.push(held.feed);
+          continue;
+        }
+
+        try {
+          const message = decodeFeed(bytes!, getFeedDefinition(feedId).decoding);
+          const feed = mapFeed(message, headerTimestampMs, request.nowMs);
+          mapped.set(feedId, { version, feed });
+          feeds.push(feed);
+        } catch (err) {
+          mapped.delete(feedId);
+          failed.push({ feedId, message: err instanceof Error ? err.message : String(err) });
+        }
+        await yieldBetweenFeeds?.();
+      }
+
+      return {
+        id: request.id,
+        type: 'snapshot',
+        snapshot: assembleSnapshot(feeds, request.routes, request.nowMs),
+        failed,
+      };
+    } catch (err) {
+      return {
+        id: request.id,
+        type: 'error',
+        message: err instanceof Error ? err.message : String(err),
+      };
+    }
+  };
+}
+
+/** The global scope of a worker runtime (e.g. a Web Worker's `self`). */
+export type WorkerScope = {
+  postMessage(message: FeedWorkerResponse): void;
+  addEventListener(type: 'message', listener: (event: { data: FeedWorkerRequest }) => void): void;
+};
+
+/**
+ * Entry point for a Web Worker script:
+ *
+ * ```ts
+ * attachFeedWorker(self);
+ * ```
+ */
+export function attachFeedWorker(scope: WorkerScope): void {
+  const handle = createFeedWorkerHandler();
+  scope.addEventListener('message', (event) => {
+    void handle(event.data).then((response) => scope.postMessage(response));
+  });
+}
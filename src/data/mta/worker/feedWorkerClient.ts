@@ -0,0 +1,240 @@
+import { createWorkletRuntime, runOnRuntime, scheduleOnRN } from 'react-native-worklets';
+import type { FeedData } from '../feeds/feedFetcher';
+import type { FeedId, SubwaySnapshot } from '../types';
+import { createFeedWorkerHandler } from './feedWorker';
+import { handleFeedWorkerRequest } from './feedWorker.entry';
+import type {
+  FeedFailure,
+  FeedWorkerPort,
+  FeedWorkerRequest,
+  FeedWorkerResponse,
+  WorkerFeed,
+} from './feedWorkerProtocol';
+
+// ── Ports ──────────────────────────────────────────────────────────
+
+/** Anything that speaks `postMessage` — e.g. a Web Worker. */
+export type MessageTarget = {
+  postMessage(message: FeedWorkerRequest): void;
+  addEventListener(type: 'message', listener: (event: { data: FeedWorkerResponse }) => void): void;
+  removeEventListener(
+    type: 'message',
+    listener: (event: { data: FeedWorkerResponse }) => void,
+  ): void;
+  terminate?(): void;
+};
+
+/**
+ * Port to a Web Worker whose script calls `attachFeedWorker(self)`.
+ */
+export function createMessagePort(target: MessageTarget): FeedWorkerPort {
+  return {
+    post: (request) => target.postMessage(request),
+    onResponse(handler) {
+      const listener = (event: { data: FeedWorkerResponse }) => handler(event.data);
+      target.addEventListener('message', listener);
+      return () => target.removeEventListener('message', listener);
+    },
+    terminate: () => target.terminate?.(),
+  };
+}
+
+/**
+ * Runs the worker on its own thread, in a Worklets runtime that loads
+ * `feedWorker.entry.ts`.  Needs Worklets bundle mode, which lets the
+ * runtime import the decoder and mappers — see the README.
+ */
+export function createWorkletRuntimePort(): FeedWorkerPort {
+  const runtime = createWorkletRuntime({ name: 'feed-worker' });
+  const handlers = new Set<(response: FeedWorkerResponse) => void>();
+
+  const deliver = (response: FeedWorkerResponse) => {
+    for (const handler of handlers) handler(response);
+  };
+  const post = runOnRuntime(runtime, (request: FeedWorkerRequest) => {
+    'worklet';
+    handleFeedWorkerRequest(request, (response) => scheduleOnRN(deliver, response));
+  });
+
+  return {
+    post,
+    onResponse(handler) {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+  };
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Runs the worker on the JS thread, for runtimes without background
+ * threads.  Work starts on a later macrotask and yields between feeds,
+ * so a refresh is spread over several short tasks instead of one long
+ * one that stalls map gestures.
+ */
+export function createInProcessPort(): FeedWorkerPort {
+  const handle = createFeedWorkerHandler({ yieldBetweenFeeds: yieldToEventLoop });
+  const handlers = new Set<(response: FeedWorkerResponse) => void>();
+
+  return {
+    post(request) {
+      void yieldToEventLoop()
+        .then(() => handle(request))
+        .then((response) => {
+          for (const handler of handlers) handler(response);
+        });
+    },
+    onResponse(handler) {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+  };
+}
+
+// ── Client ─────────────────────────────────────────────────────────
+
+/** A worker snapshot, and the feeds left out of it because they didn't decode. */
+export type FeedWorkerSnapshot = {
+  snapshot: SubwaySnapshot;
+  failed: FeedFailure[];
+};
+
+export type FeedWorkerClient = {
+  /**
+   * Decode and map `feeds` in the worker.  A payload that fails to
+   * decode only drops its own feed, listed in `failed`.
+   *
+   * @param routes  Filter for vehicles and alerts (all when omitted)
+   * @param nowMs   "Now" on the caller's clock
+   */
+  snapshot(
+    feeds: FeedData[],
+    routes: string[] | undefined,
+    nowMs: number,
+  ): Promise<FeedWorkerSnapshot>;
+  /** Drop everything the worker has cached. */
+  reset(): Promise<void>;
+  terminate(): void;
+};
+
+/** A request before the client assigns its ID. */
+type OutgoingRequest<R = FeedWorkerRequest> = R extends unknown ? Omit<R, 'id'> : never;
+
+type Pending = {
+  resolve: (response: FeedWorkerResponse) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * Promise-based front end for a feed worker.  Remembers which feed
+ * versions the worker already holds and only ships bytes for new ones.
+ */
+export function createFeedWorkerClient(port: FeedWorkerPort): FeedWorkerClient {
+  let nextId = 1;
+  const pending = new Map<number, Pending>();
+  /** Feed versions the worker has been sent */
+  const sent = new Map<FeedId, number>();
+
+  const unsubscribe = port.onResponse((response) => {
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    request.resolve(response);
+  });
+
+  const call = (request: OutgoingRequest): Promise<FeedWorkerResponse> => {
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      port.post({ ...request, id } as FeedWorkerRequest);
+    });
+  };
+
+  const toWorkerFeed = (data: FeedData): WorkerFeed => ({
+    feedId: data.feedId,
+    version: data.version,
+    headerTimestampMs: data.headerTimestampMs,
+    bytes: sent.get(data.feedId) === data.version ? undefined : data.bytes,
+  });
+
+  const snapshot = async (
+    feeds: FeedData[],
+    routes: string[] | undefined,
+    nowMs: number,
+    isRetry = false,
+  ): Promise<FeedWorkerSnapshot> => {
+    const response = await call({
+      type: 'snapshot',
+      feeds: feeds.map(toWorkerFeed),
+      routes,
+      nowMs,
+    });
+    for (const data of feeds) sent.set(data.feedId, data.version);
+
+    switch (response.type) {
+      case 'snapshot':
+        // The worker holds nothing for feeds it couldn't decode
+        for (const { feedId } of response.failed) sent.delete(feedId);
+        return { snapshot: response.snapshot, failed: response.failed };
+      case 'missing':
+        // The worker was restarted or evicted these — resend in full once
+        for (const feedId of response.feedIds) sent.delete(feedId);
+        if (isRetry) throw new Error('Feed worker lost decoded feeds twice in a row');
+        return snapshot(feeds, routes, nowMs, true);
+      case 'error':
+        // Its cache may be out of step with ours now
+        sent.clear();
+        throw new Error(`Feed worker failed: ${response.message}`);
+      default:
+        throw new Error(`Unexpected feed worker response "${response.type}"`);
+    }
+  };
+
+  return {
+    snapshot: (feeds, routes, nowMs) => snapshot(feeds, routes, nowMs),
+    async reset() {
+      sent.clear();
+      await call({ type: 'reset' });
+    },
+    terminate() {
+      unsubscribe();
+      port.terminate?.();
+      for (const request of pending.values()) {
+        request.reject(new Error('Feed worker terminated'));
+      }
+      pending.clear();
+      sent.clear();
+    },
+  };
+}
+
+// ── Default instance ───────────────────────────────────────────────
+
+/** Set by the Worklets Metro config when the app is bundled in bundle mode */
+function isWorkletsBundleMode(): boolean {
+  return (globalThis as { _WORKLETS_BUNDLE_MODE?: boolean })._WORKLETS_BUNDLE_MODE === true;
+}
+
+function createDefaultPort(): FeedWorkerPort {
+  if (!isWorkletsBundleMode()) return createInProcessPort();
+  try {
+    return createWorkletRuntimePort();
+  } catch (err) {
+    console.warn('[FeedWorker] Falling back to the JS thread:', err);
+    return createInProcessPort();
+  }
+}
+
+/**
+ * Shared worker used by the default `subwayService`.  Runs on a
+ * background Worklets runtime when the app is built in bundle mode,
+ * otherwise on the JS thread.
+ */
+export const defaultFeedWorker = createFeedWorkerClient(createDefaultPort());
@@ -0,0 +1,64 @@
+import type { FeedId, SubwaySnapshot } from '../types';
+
+/**
+ * Messages exchanged with the feed worker.
+ *
+ * Everything crossing the boundary is plain data (structured-clone
+ * safe): bytes go in, a `SubwaySnapshot` comes out.  The worker keeps
+ * the mapped result of every feed version it has seen, so unchanged
+ * feeds are sent by version only.
+ */
+
+// ── Requests ───────────────────────────────────────────────────────
+
+export type WorkerFeed = {
+  feedId: FeedId;
+  /** `FeedData.version` — identifies the payload */
+  version: number;
+  /** Omitted when the worker already holds this version */
+  bytes?: Uint8Array;
+  headerTimestampMs: number | null;
+};
+
+export type FeedWorkerRequest =
+  | {
+      id: number;
+      type: 'snapshot';
+      feeds: WorkerFeed[];
+      /** Route filter for vehicles and alerts (all when omitted) */
+      routes?: string[];
+      /** "Now" on the caller's clock */
+      nowMs: number;
+    }
+  | { id: number; type: 'reset' };
+
+// ── Responses ──────────────────────────────────────────────────────
+
+/** A feed left out of a snapshot because its payload didn't decode. */
+export type FeedFailure = { feedId: FeedId; message: string };
+
+export type FeedWorkerResponse =
+  | {
+      id: number;
+      type: 'snapshot';
+      /** Built from every feed except the `failed` ones */
+      snapshot: SubwaySnapshot;
+      failed: FeedFailure[];
+    }
+  /** The worker no longer holds these versions — resend with bytes */
+  | { id: number; type: 'missing'; feedIds: FeedId[] }
+  | { id: number; type: 'reset' }
+  | { id: number; type: 'error'; message: string };
+
+// ── Transport ──────────────────────────────────────────────────────
+
+/** The client's end of the channel to a worker, whatever runs it. */
+export type FeedWorkerPort = {
+  post(request: FeedWorkerRequest): void;
+  /**
+   * Subscribe to responses.
+   * @returns An unsubscribe function.
+   */
+  onResponse(handler: (response: FeedWorkerResponse) => void): () => void;
+  terminate?(): void;
+};
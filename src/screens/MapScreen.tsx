@@ -13,20 +13,35 @@ import {
 } from 'react-native';
 import MapView, { MapType, Polyline, Region } from 'react-native-maps';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { alertSeverityColor } from '../components/AlertIndicator';
+import { AlertSegments } from '../components/AlertSegments';
 import { CompassButton } from '../components/CompassButton';
 import { EntranceMarkers } from '../components/EntranceMarkers';
 import { GlassCard } from '../components/GlassCard';
 import { MapLayerPicker } from '../components/MapLayerPicker';
 import { NearbyTrainsBar } from '../components/NearbyTrainsBar';
+import { ServiceAlertsSheet } from '../components/ServiceAlertsSheet';
 import { StationMarkers } from '../components/StationMarkers';
 import { SubwayLines } from '../components/SubwayLines';
+import { TrainDetailSheet } from '../components/TrainDetailSheet';
 import { TrainMarker } from '../components/TrainMarker';
 import { type WalkingRoute, fetchWalkingRoute } from '../data/directions/walkingRoute';
+import { clockNow } from '../data/mta/clock';
+import { STALE_FEED_AGE_MS } from '../data/mta/feeds/feedFetcher';
+import { getFeedLabel } from '../data/mta/feeds/feedRegistry';
+import { useDepartingTrains } from '../data/mta/hooks/useDepartingTrains';
+import { useNow } from '../data/mta/hooks/useNow';
+import { useServiceAlerts } from '../data/mta/hooks/useServiceAlerts';
 import { useStationArrivals } from '../data/mta/hooks/useStationArrivals';
 import { useSubwayEntrances } from '../data/mta/hooks/useSubwayEntrances';
+import { compareAlertSeverity } from '../data/mta/mappers/alertMapper';
+import { mapAlertSegments } from '../data/mta/mappers/alertSegments';
+import { getComplexForStation } from '../data/mta/stationComplexes';
+import { activeRouteSeverities, isAlertActive, useAlertStore } from '../data/mta/stores/alertStore';
 import { useArrivalStore } from '../data/mta/stores/arrivalStore';
+import { selectUnavailableFeeds, useFeedHealthStore } from '../data/mta/stores/feedHealthStore';
 import { subwayStations } from '../data/mta/subwayStations';
-import type { ArrivalPrediction } from '../data/mta/types';
+import type { ArrivalPrediction, VehiclePosition } from '../data/mta/types';
 import { useShallow } from 'zustand/react/shallow';
 import { useLiveTrains } from '../data/mta/useLiveTrains';
 import { useTrainStore } from '../data/mta/useTrainStore';
@@ -45,25 +60,56 @@ function formatLastUpdated(lastUpdatedMs: number | null): string {
   if (!lastUpdatedMs) {
     return 'Waiting for first update';
   }
-  const elapsedSec = Math.max(0, Math.round((Date.now() - lastUpdatedMs) / 1000));
+  const elapsedSec = Math.max(0, Math.round((clockNow() - lastUpdatedMs) / 1000));
   if (elapsedSec < 60) return `Updated ${elapsedSec}s ago`;
   const elapsedMin = Math.round(elapsedSec / 60);
   return `Updated ${elapsedMin}m ago`;
 }
 
+/** Returns a warning when the MTA hasn't published new data in a while. */
+function formatFeedAge(feedTimestampMs: number | null): string | null {
+  if (!feedTimestampMs) return null;
+  const ageMs = clockNow() - feedTimestampMs;
+  if (ageMs < STALE_FEED_AGE_MS) return null;
+  return `MTA data is ${Math.round(ageMs / 60_000)} min old`;
+}
+
 export function MapScreen() {
   const insets = useSafeAreaInsets();
   const colors = useColors();
-  const { errorMessage, isLoading, lastUpdatedMs, mode, trains } = useTrainStore(
+  const { errorMessage, feedTimestampMs, isLoading, lastUpdatedMs, mode, trains } = useTrainStore(
     useShallow((state) => ({
       trains: state.trains,
       isLoading: state.isLoading,
       errorMessage: state.errorMessage,
       lastUpdatedMs: state.lastUpdatedMs,
+      feedTimestampMs: state.feedTimestampMs,
       mode: state.mode,
     })),
   );
+  const feedAgeWarning = formatFeedAge(feedTimestampMs);
+  const unavailableFeeds = useFeedHealthStore(useShallow(selectUnavailableFeeds));
   useLiveTrains();
+
+  // Service alerts for every line: the banner count, route badge indicators
+  // and disrupted stretches of line on the map
+  useServiceAlerts();
+  const alerts = useAlertStore((state) => state.alerts);
+  const alertNowMs = useNow(60_000);
+  const activeAlerts = useMemo(
+    () => alerts.filter((alert) => isAlertActive(alert, alertNowMs)),
+    [alerts, alertNowMs],
+  );
+  const routeAlerts = useMemo(
+    () => activeRouteSeverities(alerts, alertNowMs),
+    [alerts, alertNowMs],
+  );
+  // Station-only alerts count towards the banner's color too
+  const worstAlertSeverity = useMemo(
+    () => activeAlerts.map((alert) => alert.severity).sort(compareAlertSeverity)[0] ?? 'info',
+    [activeAlerts],
+  );
+  const alertSegments = useMemo(() => mapAlertSegments(activeAlerts), [activeAlerts]);
   const mapRef = useRef<MapView>(null);
   const [selectedStationId, setSelectedStationId] = useState<string | null>(null);
   const [currentRegion, setCurrentRegion] = useState<Region>(NYC_REGION);
@@ -97,8 +143,12 @@ export function MapScreen() {
   }, [currentRegion]);
   const nearestStationId = nearestStation?.id ?? null;
 
-  // Poll arrivals for: selected station OR nearest station (for the nearby bar)
-  const arrivalStationId = selectedStationId ?? nearestStationId;
+  // Poll arrivals for: selected station OR nearest station (for the nearby bar),
+  // across every platform of its complex
+  const arrivalStationId = useMemo(() => {
+    const stationId = selectedStationId ?? nearestStationId;
+    return stationId ? (getComplexForStation(stationId)?.id ?? stationId) : null;
+  }, [selectedStationId, nearestStationId]);
   useStationArrivals(arrivalStationId);
 
   // Get arrivals for the bottom bar (pinned station or nearest station)
@@ -116,6 +166,10 @@ export function MapScreen() {
     [selectedStationId, nearestStation],
   );
   const activeStationId = activeStation?.id ?? null;
+  const activeComplex = useMemo(
+    () => (activeStation ? (getComplexForStation(activeStation.id) ?? null) : null),
+    [activeStation],
+  );
   const isPinnedStation = !!selectedStationId;
 
   // Fetch subway entrance data for the active station
@@ -123,6 +177,69 @@ export function MapScreen() {
 
   const [showLayerPicker, setShowLayerPicker] = useState(false);
 
+  // Tapped train — its detail sheet replaces the bottom bar
+  const [selectedTrain, setSelectedTrain] = useState<VehiclePosition | null>(null);
+  const trainSheetAnim = useRef(new Animated.Value(0)).current;
+  // Follow the live copy; keep the last one seen if the train leaves the feed
+  const liveSelectedTrain = useMemo(
+    () => (selectedTrain && trains.find((t) => t.id === selectedTrain.id)) ?? selectedTrain,
+    [selectedTrain, trains],
+  );
+
+  const handleTrainPress = useCallback(
+    (train: VehiclePosition) => {
+      setSelectedTrain(train);
+      trainSheetAnim.setValue(0);
+      Animated.spring(trainSheetAnim, {
+        toValue: 1,
+        ...tokens.motion.spring,
+        useNativeDriver: true,
+      }).start();
+      void Haptics.selectionAsync();
+    },
+    [trainSheetAnim],
+  );
+
+  const dismissTrain = useCallback(() => {
+    Animated.timing(trainSheetAnim, {
+      toValue: 0,
+      duration: 200,
+      useNativeDriver: true,
+    }).start(() => setSelectedTrain(null));
+  }, [trainSheetAnim]);
+
+  // Alerts sheet — all lines from the banner, one line from its badge,
+  // or a single alert from a disrupted segment on the map
+  const [alertsSheet, setAlertsSheet] = useState<{
+    routeId: string | null;
+    alertId: string | null;
+  } | null>(null);
+  const alertsSheetAnim = useRef(new Animated.Value(0)).current;
+
+  const openAlerts = useCallback(
+    (routeId: string | null, alertId: string | null = null) => {
+      setAlertsSheet({ routeId, alertId });
+      alertsSheetAnim.setValue(0);
+      Animated.spring(alertsSheetAnim, {
+        toValue: 1,
+        ...tokens.motion.spring,
+        useNativeDriver: true,
+      }).start();
+      void Haptics.selectionAsync();
+    },
+    [alertsSheetAnim],
+  );
+
+  const openAlertDetail = useCallback((alertId: string) => openAlerts(null, alertId), [openAlerts]);
+
+  const dismissAlerts = useCallback(() => {
+    Animated.timing(alertsSheetAnim, {
+      toValue: 0,
+      duration: 200,
+      useNativeDriver: true,
+    }).start(() => setAlertsSheet(null));
+  }, [alertsSheetAnim]);
+
   // Walking directions state
   const [walkingRoute, setWalkingRoute] = useState<WalkingRoute | null>(null);
   const [isLoadingRoute, setIsLoadingRoute] = useState(false);
@@ -353,22 +470,30 @@ export function MapScreen() {
   // Only show train markers when a station is pinned — filter to its routes
   const activeRoutes = useMemo(() => {
     if (!activeStation) return null;
-    return new Set(activeStation.routes);
-  }, [activeStation]);
+    return new Set(activeComplex?.routes ?? activeStation.routes);
+  }, [activeStation, activeComplex]);
+
+  const routeTrains = useMemo(
+    () => (activeRoutes ? visibleTrains.filter((t) => activeRoutes.has(t.routeId)) : []),
+    [activeRoutes, visibleTrains],
+  );
+  // Trains that just left the feed (or the view) fade out rather than vanish
+  const trainsOnMap = useDepartingTrains(routeTrains);
 
-  const markerNodes = useMemo(() => {
-    if (!activeRoutes) return null;
-    return visibleTrains
-      .filter((t) => activeRoutes.has(t.routeId))
-      .map((train) => (
+  const markerNodes = useMemo(
+    () =>
+      trainsOnMap.map(({ train, departed }) => (
         <TrainMarker
           key={train.id}
           train={train}
           mapHeading={mapHeading}
           hideArrow={isMapMoving && mapHeading !== 0}
+          departed={departed}
+          onPress={handleTrainPress}
         />
-      ));
-  }, [activeRoutes, visibleTrains, mapHeading, isMapMoving]);
+      )),
+    [trainsOnMap, mapHeading, isMapMoving, handleTrainPress],
+  );
 
   const dismissError = useCallback(() => {
     useTrainStore.getState().setError(null);
@@ -395,6 +520,11 @@ export function MapScreen() {
         onRegionChangeComplete={handleRegionChange}
       >
         <SubwayLines region={currentRegion} />
+        <AlertSegments
+          segments={alertSegments}
+          region={currentRegion}
+          onAlertPress={openAlertDetail}
+        />
         <StationMarkers
           region={currentRegion}
           onStationPress={handleStationPress}
@@ -436,7 +566,50 @@ export function MapScreen() {
               Mock mode (no API key)
             </Text>
           ) : null}
+          {mode === 'scheduled' ? (
+            <Text style={[styles.mockNotice, { color: colors.mockNotice }]}>
+              Live data unavailable — showing scheduled service
+            </Text>
+          ) : null}
+          {unavailableFeeds.length > 0 ? (
+            <Text style={[styles.mockNotice, { color: colors.danger }]}>
+              {unavailableFeeds.map(getFeedLabel).join(', ')} data unavailable
+            </Text>
+          ) : null}
+          {feedAgeWarning ? (
+            <Text style={[styles.mockNotice, { color: colors.danger }]}>{feedAgeWarning}</Text>
+          ) : null}
         </GlassCard>
+
+        {/* Service alerts banner */}
+        {activeAlerts.length > 0 ? (
+          <Pressable
+            style={({ pressed }) => [styles.alertBanner, pressed && { opacity: 0.8 }]}
+            onPress={() => openAlerts(null)}
+          >
+            <GlassCard
+              intensity={70}
+              style={[
+                styles.alertBannerCard,
+                {
+                  backgroundColor: colors.sheetFill,
+                  borderWidth: StyleSheet.hairlineWidth,
+                  borderColor: colors.sheetStroke,
+                },
+              ]}
+            >
+              <Ionicons
+                name="warning"
+                size={16}
+                color={alertSeverityColor(worstAlertSeverity, colors)}
+              />
+              <Text style={[styles.alertBannerText, { color: colors.labelPrimary }]}>
+                {activeAlerts.length} service {activeAlerts.length === 1 ? 'alert' : 'alerts'}
+              </Text>
+              <Ionicons name="chevron-forward" size={14} color={colors.labelSecondary} />
+            </GlassCard>
+          </Pressable>
+        ) : null}
       </View>
 
       {/* Initial loading state */}
@@ -472,8 +645,23 @@ export function MapScreen() {
         </View>
       ) : null}
 
-      {/* Bottom sheet — swaps between arrivals and layer picker */}
-      {showLayerPicker ? (
+      {/* Bottom sheet — swaps between train details, alerts, arrivals and layer picker */}
+      {liveSelectedTrain ? (
+        <TrainDetailSheet
+          train={liveSelectedTrain}
+          animatedValue={trainSheetAnim}
+          onDismiss={dismissTrain}
+        />
+      ) : alertsSheet ? (
+        <ServiceAlertsSheet
+          // Remount so a newly tapped alert opens on its details
+          key={alertsSheet.alertId ?? 'list'}
+          routeId={alertsSheet.routeId}
+          alertId={alertsSheet.alertId}
+          animatedValue={alertsSheetAnim}
+          onDismiss={dismissAlerts}
+        />
+      ) : showLayerPicker ? (
         <MapLayerPicker
           currentMapType={mapType}
           onSelect={(type) => {
@@ -485,9 +673,13 @@ export function MapScreen() {
       ) : (
         <NearbyTrainsBar
           arrivals={nearbyArrivals}
+          trains={trains}
           station={activeStation}
+          complex={activeComplex}
           isPinned={isPinnedStation}
           onDismissStation={dismissPinnedStation}
+          routeAlerts={routeAlerts}
+          onAlertPress={openAlerts}
           onSearchPress={() => {
             // TODO: open full-screen search
             void Haptics.selectionAsync();
@@ -614,6 +806,22 @@ const styles = StyleSheet.create({
     fontSize: tokens.font.size.sm,
     fontWeight: tokens.font.weight.semibold,
   },
+  alertBanner: {
+    marginTop: tokens.spacing.sm,
+  },
+  alertBannerCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: tokens.spacing.xs,
+    paddingHorizontal: tokens.spacing.lg,
+    paddingVertical: tokens.spacing.sm,
+    borderRadius: tokens.radius.full,
+    overflow: 'hidden',
+  },
+  alertBannerText: {
+    fontSize: tokens.font.size.sm,
+    fontWeight: tokens.font.weight.semibold,
+  },
   centerState: {
     position: 'absolute',
     top: '45%',
@@ -12,6 +12,9 @@ type ColorPalette = {
   danger: string;
   dangerBorder: string;
   dangerText: string;
+  /** Service alerts short of a suspension */
+  warning: string;
+  warningBorder: string;
   tint: string;
   accent: string;
   mockNotice: string;
@@ -46,6 +49,8 @@ const lightColors: ColorPalette = {
   danger: '#C62828',
   dangerBorder: '#F2CACA',
   dangerText: '#892323',
+  warning: '#B25E00',
+  warningBorder: '#F5DDB8',
   tint: '#007AFF',
   accent: '#1273EA',
   mockNotice: '#2B5EA8',
@@ -74,6 +79,8 @@ const darkColors: ColorPalette = {
   danger: '#FF453A',
   dangerBorder: '#5C2626',
   dangerText: '#FF6B6B',
+  warning: '#FF9F0A',
+  warningBorder: '#5C4010',
   tint: '#0A84FF',
   accent: '#0A84FF',
   mockNotice: '#5AC8FA',